@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { useAccount } from "@/hooks/use-account";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, invalidateApiQueries } from "@/lib/queryClient";
+import { accountTypeLabels, accountTypes, newAccountSchema, type AccountType, type NewAccount, type Portfolio } from "@shared/schema";
+
+const HOUSEHOLD = "all";
+
+function NewAccountDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const { selectAccount } = useAccount();
+
+  const form = useForm<NewAccount>({
+    resolver: zodResolver(newAccountSchema),
+    defaultValues: { name: "", accountType: "brokerage", costBasisMethod: "fifo" },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ name: "", accountType: "brokerage", costBasisMethod: "fifo" });
+    }
+  }, [open, form]);
+
+  const createAccount = useMutation({
+    mutationFn: async (values: NewAccount) => {
+      const res = await apiRequest("POST", "/api/me/portfolios", values);
+      return (await res.json()) as Portfolio;
+    },
+    onSuccess: async (account) => {
+      await invalidateApiQueries("/api/me/portfolios");
+      selectAccount(account.id);
+      toast({ title: "Account opened", description: account.name });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not open account", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900/90 backdrop-blur-xl border-white/20 text-white">
+        <DialogHeader>
+          <DialogTitle>New Account</DialogTitle>
+          <DialogDescription className="text-slate-300">
+            Each account keeps its own cash, holdings and tax lots.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => createAccount.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Roth IRA" className="bg-white/10 border-white/20" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="accountType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="bg-white/10 border-white/20">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {accountTypes.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {accountTypeLabels[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="submit" className="bg-blue-500 hover:bg-blue-600" disabled={createAccount.isPending}>
+                {createAccount.isPending ? "Opening…" : "Open Account"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Picks the account the dashboard shows, or the household of all of them
+export default function AccountSwitcher() {
+  const { accounts, account, selectAccount } = useAccount();
+  const [creating, setCreating] = useState(false);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={account ? String(account.id) : HOUSEHOLD}
+        onValueChange={(value) => selectAccount(value === HOUSEHOLD ? null : Number(value))}
+      >
+        <SelectTrigger className="w-56 glass-morphism-dark border-white/20 text-white" aria-label="Account">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={HOUSEHOLD}>All accounts</SelectItem>
+          {accounts.map((candidate) => (
+            <SelectItem key={candidate.id} value={String(candidate.id)}>
+              {candidate.name}
+              <span className="text-slate-400 ml-2 text-xs">
+                {accountTypeLabels[candidate.accountType as AccountType] ?? candidate.accountType}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="text-white hover:bg-white/20"
+        onClick={() => setCreating(true)}
+        title="New account"
+      >
+        <Plus className="w-4 h-4" />
+      </Button>
+      <NewAccountDialog open={creating} onOpenChange={setCreating} />
+    </div>
+  );
+}
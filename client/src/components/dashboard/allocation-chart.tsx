@@ -1,50 +1,165 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { PieChart, Pie, ResponsiveContainer, Cell, Tooltip } from "recharts";
+import { ArrowLeft, ChevronRight, Scale } from "lucide-react";
 import GlassPanel from "./glass-panel";
-import { mockAllocationData } from "@/lib/mock-data";
+import RebalanceWizard from "./rebalance-wizard";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useAccount } from "@/hooks/use-account";
+import type { AllocationGrouping, PortfolioAllocation } from "@shared/schema";
+
+const colors = ['#3b82f6', '#22c55e', '#a855f7', '#fb923c', '#06b6d4', '#eab308', '#ec4899', '#14b8a6', '#f43f5e', '#94a3b8'];
+
+const groupings: { value: AllocationGrouping; label: string; plural: string }[] = [
+  { value: "sector", label: "Sector", plural: "sectors" },
+  { value: "assetType", label: "Asset Class", plural: "asset classes" },
+  { value: "security", label: "Holding", plural: "holdings" },
+];
+
+interface AllocationEntry {
+  key: string;
+  name: string;
+  value: number;
+  marketValue: number;
+}
 
 export default function AllocationChart() {
+  const [by, setBy] = useState<AllocationGrouping>("sector");
+  const [drillKey, setDrillKey] = useState<string | null>(null);
+  const [rebalancing, setRebalancing] = useState(false);
+  const { account, scoped } = useAccount();
+
+  const { data: allocation } = useQuery<PortfolioAllocation>({
+    queryKey: [scoped(`/api/me/portfolio/allocation?by=${by}`)],
+  });
+
+  // Sectors and asset classes drill down into their holdings
+  const drilled = allocation?.slices.find((slice) => slice.key === drillKey);
+  const canDrill = by !== "security" && !drilled;
+
+  const entries: AllocationEntry[] = drilled
+    ? drilled.holdings.map((holding) => ({
+        key: holding.symbol,
+        name: `${holding.symbol} · ${holding.name}`,
+        value: parseFloat(holding.groupWeight),
+        marketValue: parseFloat(holding.marketValue),
+      }))
+    : (allocation?.slices ?? []).map((slice) => ({
+        key: slice.key,
+        name: slice.label,
+        value: parseFloat(slice.weight),
+        marketValue: parseFloat(slice.marketValue),
+      }));
+
+  const changeGrouping = (value: string) => {
+    if (!value) return;
+    setBy(value as AllocationGrouping);
+    setDrillKey(null);
+  };
+
   return (
     <GlassPanel>
-      <h3 className="text-xl font-semibold text-white mb-6">Portfolio Allocation</h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-white">Portfolio Allocation</h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-white hover:bg-white/20"
+          disabled={!account}
+          title={account ? "Rebalance to a target allocation" : "Pick an account to rebalance it"}
+          onClick={() => setRebalancing(true)}
+        >
+          <Scale className="w-4 h-4 mr-1" />
+          Rebalance
+        </Button>
+      </div>
+      <ToggleGroup type="single" value={by} onValueChange={changeGrouping} className="justify-start mb-4">
+        {groupings.map((grouping) => (
+          <ToggleGroupItem
+            key={grouping.value}
+            value={grouping.value}
+            size="sm"
+            className="text-slate-300 data-[state=on]:bg-blue-500/30 data-[state=on]:text-white"
+          >
+            {grouping.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      {drilled && (
+        <div className="flex items-center justify-between mb-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-slate-300 hover:text-white hover:bg-white/10 px-2"
+            onClick={() => setDrillKey(null)}
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            All {groupings.find((grouping) => grouping.value === by)?.plural}
+          </Button>
+          <span className="text-white text-sm font-medium">
+            {drilled.label} · {drilled.weight}%
+          </span>
+        </div>
+      )}
       <div className="h-48 mb-6">
-        <ResponsiveContainer width="100%" height="100%">
-          <PieChart>
-            <Pie
-              data={mockAllocationData}
-              cx="50%"
-              cy="50%"
-              innerRadius={60}
-              outerRadius={80}
-              paddingAngle={2}
-              dataKey="value"
-            >
-              {mockAllocationData.map((entry, index) => (
-                <Cell key={`cell-${index}`} fill={entry.color} />
-              ))}
-            </Pie>
-            <Tooltip
-              contentStyle={{
-                backgroundColor: 'rgba(0, 0, 0, 0.8)',
-                border: '1px solid rgba(255, 255, 255, 0.2)',
-                borderRadius: '8px',
-                color: 'white'
-              }}
-              formatter={(value: number) => [`${value}%`, 'Allocation']}
-            />
-          </PieChart>
-        </ResponsiveContainer>
+        {entries.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-slate-400 text-sm">No open positions</div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <PieChart>
+              <Pie
+                data={entries}
+                cx="50%"
+                cy="50%"
+                innerRadius={60}
+                outerRadius={80}
+                paddingAngle={2}
+                dataKey="value"
+                onClick={(entry: AllocationEntry) => canDrill && setDrillKey(entry.key)}
+                className={canDrill ? "cursor-pointer" : undefined}
+              >
+                {entries.map((entry, index) => (
+                  <Cell key={entry.key} fill={colors[index % colors.length]} />
+                ))}
+              </Pie>
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'rgba(0, 0, 0, 0.8)',
+                  border: '1px solid rgba(255, 255, 255, 0.2)',
+                  borderRadius: '8px',
+                  color: 'white'
+                }}
+                formatter={(value: number, _name, item) => [
+                  `${value.toFixed(2)}% · $${item.payload.marketValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}`,
+                  drilled ? `Share of ${drilled.label}` : 'Allocation',
+                ]}
+              />
+            </PieChart>
+          </ResponsiveContainer>
+        )}
       </div>
       <div className="space-y-3">
-        {mockAllocationData.map((item, index) => (
-          <div key={index} className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: item.color }} />
-              <span className="text-slate-300 text-sm">{item.name}</span>
+        {entries.map((entry, index) => (
+          <button
+            key={entry.key}
+            type="button"
+            disabled={!canDrill}
+            onClick={() => setDrillKey(entry.key)}
+            className="w-full flex items-center justify-between text-left rounded-lg enabled:hover:bg-white/5 disabled:cursor-default"
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: colors[index % colors.length] }} />
+              <span className="text-slate-300 text-sm truncate">{entry.name}</span>
             </div>
-            <span className="text-white font-medium">{item.value}%</span>
-          </div>
+            <span className="flex items-center gap-1 text-white font-medium">
+              {entry.value.toFixed(1)}%
+              {canDrill && <ChevronRight className="w-4 h-4 text-slate-400" />}
+            </span>
+          </button>
         ))}
       </div>
+      {account && <RebalanceWizard account={account} open={rebalancing} onOpenChange={setRebalancing} />}
     </GlassPanel>
   );
 }
@@ -0,0 +1,205 @@
+import { useEffect } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { Plus, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import SymbolPicker from "./symbol-picker";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, invalidateApiQueries } from "@/lib/queryClient";
+import { DEFAULT_BENCHMARK, type BenchmarkComponent, type Portfolio, type Stock } from "@shared/schema";
+
+const MAX_COMPONENTS = 5;
+
+const benchmarkFormSchema = z.object({
+  components: z
+    .array(z.object({
+      symbol: z.string().min(1, "Pick a symbol"),
+      weight: z.string().trim().refine((value) => parseFloat(value) > 0 && parseFloat(value) <= 100, "1 to 100"),
+    }))
+    .min(1)
+    .max(MAX_COMPONENTS)
+    .refine(
+      (components) => new Set(components.map((component) => component.symbol)).size === components.length,
+      "Each symbol may appear once",
+    )
+    .refine(
+      (components) => Math.abs(components.reduce((total, component) => total + (parseFloat(component.weight) || 0), 0) - 100) < 1e-6,
+      "Weights must add up to 100",
+    ),
+});
+
+type BenchmarkFormValues = z.infer<typeof benchmarkFormSchema>;
+
+function toFormValues(benchmark: BenchmarkComponent[]): BenchmarkFormValues {
+  return { components: benchmark.map((component) => ({ symbol: component.symbol, weight: String(component.weight) })) };
+}
+
+interface BenchmarkDialogProps {
+  account: Portfolio;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Sets the symbol or weighted blend an account's performance is compared with
+export default function BenchmarkDialog({ account, open, onOpenChange }: BenchmarkDialogProps) {
+  const { toast } = useToast();
+
+  const { data: stocks } = useQuery<Stock[]>({
+    queryKey: ["/api/stocks"],
+  });
+
+  const form = useForm<BenchmarkFormValues>({
+    resolver: zodResolver(benchmarkFormSchema),
+    defaultValues: toFormValues(account.benchmark ?? DEFAULT_BENCHMARK),
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "components" });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(account.benchmark ?? DEFAULT_BENCHMARK));
+    }
+  }, [open, account, form]);
+
+  const components = form.watch("components");
+  const total = components.reduce((sum, component) => sum + (parseFloat(component.weight) || 0), 0);
+
+  const saveBenchmark = useMutation({
+    mutationFn: async (benchmark: BenchmarkComponent[] | null) => {
+      const res = await apiRequest("PATCH", `/api/me/portfolios/${account.id}`, { benchmark });
+      return (await res.json()) as Portfolio;
+    },
+    onSuccess: () => {
+      invalidateApiQueries("/api/me/portfolio");
+      toast({ title: "Benchmark updated", description: account.name });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update benchmark", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const onSubmit = (values: BenchmarkFormValues) => {
+    saveBenchmark.mutate(values.components.map((component) => ({
+      symbol: component.symbol,
+      weight: parseFloat(component.weight),
+    })));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900/90 backdrop-blur-xl border-white/20 text-white">
+        <DialogHeader>
+          <DialogTitle>Benchmark</DialogTitle>
+          <DialogDescription className="text-slate-300">
+            Compare {account.name} with one symbol, or a blend of up to {MAX_COMPONENTS} rebalanced to their weights.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {fields.map((field, index) => (
+              <div key={field.id} className="flex items-start gap-2">
+                <FormField
+                  control={form.control}
+                  name={`components.${index}.symbol`}
+                  render={({ field: symbolField }) => (
+                    <FormItem className="flex-1">
+                      <SymbolPicker
+                        value={symbolField.value}
+                        onSelect={(security) => symbolField.onChange(security.symbol)}
+                        disabledReason={(security) =>
+                          stocks?.some((stock) => stock.symbol === security.symbol) ? undefined : "No quote"}
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`components.${index}.weight`}
+                  render={({ field: weightField }) => (
+                    <FormItem className="w-28">
+                      <FormControl>
+                        <div className="relative">
+                          <Input
+                            type="number"
+                            min={0}
+                            max={100}
+                            step="any"
+                            inputMode="decimal"
+                            className="bg-white/10 border-white/20 pr-7"
+                            aria-label="Weight"
+                            {...weightField}
+                          />
+                          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 text-sm">%</span>
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="text-slate-400 hover:text-white hover:bg-white/10"
+                  disabled={fields.length === 1}
+                  onClick={() => remove(index)}
+                >
+                  <X className="w-4 h-4" />
+                  <span className="sr-only">Remove</span>
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between text-sm">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="text-white hover:bg-white/20"
+                disabled={fields.length >= MAX_COMPONENTS}
+                onClick={() => append({ symbol: "", weight: String(Math.max(0, 100 - total)) })}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add symbol
+              </Button>
+              <span className={Math.abs(total - 100) < 1e-6 ? "text-slate-300" : "text-red-400"}>
+                Total {total}%
+              </span>
+            </div>
+            {(form.formState.errors.components?.root ?? form.formState.errors.components)?.message && (
+              <p className="text-sm font-medium text-destructive">
+                {(form.formState.errors.components?.root ?? form.formState.errors.components)?.message}
+              </p>
+            )}
+            <DialogFooter className="gap-2">
+              <Button
+                type="button"
+                variant="ghost"
+                className="text-white hover:bg-white/20"
+                disabled={saveBenchmark.isPending || account.benchmark === null}
+                onClick={() => saveBenchmark.mutate(null)}
+              >
+                Use {DEFAULT_BENCHMARK[0].symbol}
+              </Button>
+              <Button type="submit" className="bg-blue-500 hover:bg-blue-600" disabled={saveBenchmark.isPending}>
+                {saveBenchmark.isPending ? "Saving…" : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,153 @@
+import { Bar, Cell, ComposedChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import type { BarInterval, PriceBar } from "@shared/schema";
+
+const UP_COLOR = "#22c55e";
+const DOWN_COLOR = "#ef4444";
+// Volume bars fill the bottom quarter of the plot
+const VOLUME_HEADROOM = 4;
+
+interface Candle {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  // The low-to-high span the candle bar is drawn over
+  range: [number, number];
+}
+
+interface CandleShapeProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: Candle;
+}
+
+// Draws a wick over the bar's low-to-high span and a body from open to close,
+// scaled within the span recharts already laid out
+function CandleShape({ x, y, width, height, payload }: CandleShapeProps) {
+  const { open, high, low, close } = payload;
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const span = high - low;
+  const toY = (price: number) => (span > 0 ? y + ((high - price) / span) * height : y);
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(toY(Math.min(open, close)) - bodyTop, 1);
+  const center = x + width / 2;
+  const bodyWidth = Math.max(width * 0.7, 1);
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={center - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+    </g>
+  );
+}
+
+function formatTick(timestamp: string, interval: BarInterval): string {
+  return new Date(timestamp).toLocaleDateString("en-US", interval === "1w"
+    ? { month: "short", year: "2-digit", timeZone: "UTC" }
+    : { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+function formatVolume(volume: number): string {
+  if (volume >= 1_000_000) return `${(volume / 1_000_000).toFixed(1)}M`;
+  if (volume >= 1_000) return `${(volume / 1_000).toFixed(1)}K`;
+  return String(volume);
+}
+
+function CandleTooltip({ active, payload, interval }: { active?: boolean; payload?: { payload: Candle }[]; interval: BarInterval }) {
+  const candle = payload?.[0]?.payload;
+  if (!active || !candle) {
+    return null;
+  }
+
+  const rows: [string, string][] = [
+    ["Open", `$${candle.open.toFixed(2)}`],
+    ["High", `$${candle.high.toFixed(2)}`],
+    ["Low", `$${candle.low.toFixed(2)}`],
+    ["Close", `$${candle.close.toFixed(2)}`],
+    ["Volume", formatVolume(candle.volume)],
+  ];
+  return (
+    <div className="rounded-lg border border-white/20 bg-black/80 px-3 py-2 text-xs text-white">
+      <div className="mb-1 font-medium">
+        {interval === "1w" ? "Week of " : ""}
+        {new Date(candle.timestamp).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" })}
+      </div>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-4">
+          <span className="text-slate-300">{label}</span>
+          <span>{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface CandlestickChartProps {
+  bars: PriceBar[];
+  interval: BarInterval;
+}
+
+// OHLC candles over volume bars sharing one time axis
+export default function CandlestickChart({ bars, interval }: CandlestickChartProps) {
+  const candles: Candle[] = bars.map((bar) => {
+    const low = parseFloat(bar.low);
+    const high = parseFloat(bar.high);
+    return {
+      timestamp: new Date(bar.timestamp).toISOString(),
+      open: parseFloat(bar.open),
+      high,
+      low,
+      close: parseFloat(bar.close),
+      volume: bar.volume,
+      range: [low, high],
+    };
+  });
+  const maxVolume = Math.max(0, ...candles.map((candle) => candle.volume));
+  const axisStyle = {
+    tick: { fill: "rgba(226, 232, 240, 0.7)", fontSize: 12 },
+    axisLine: { stroke: "rgba(255, 255, 255, 0.1)" },
+    tickLine: { stroke: "rgba(255, 255, 255, 0.1)" },
+  };
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <ComposedChart data={candles} barCategoryGap="20%">
+        <XAxis
+          dataKey="timestamp"
+          tickFormatter={(value: string) => formatTick(value, interval)}
+          minTickGap={32}
+          {...axisStyle}
+        />
+        {/* A second category axis keeps the volume bars from sharing slots with the candles */}
+        <XAxis xAxisId="volume" dataKey="timestamp" hide />
+        <YAxis
+          yAxisId="price"
+          domain={["auto", "auto"]}
+          tickFormatter={(value: number) => `$${value.toFixed(0)}`}
+          {...axisStyle}
+        />
+        <YAxis yAxisId="volume" orientation="right" domain={[0, maxVolume * VOLUME_HEADROOM]} hide />
+        <Tooltip content={<CandleTooltip interval={interval} />} cursor={{ fill: "rgba(255, 255, 255, 0.05)" }} />
+        <Bar xAxisId="volume" yAxisId="volume" dataKey="volume" isAnimationActive={false}>
+          {candles.map((candle) => (
+            <Cell
+              key={candle.timestamp}
+              fill={candle.close >= candle.open ? UP_COLOR : DOWN_COLOR}
+              fillOpacity={0.3}
+            />
+          ))}
+        </Bar>
+        <Bar
+          yAxisId="price"
+          dataKey="range"
+          isAnimationActive={false}
+          shape={(props: unknown) => <CandleShape {...(props as CandleShapeProps)} />}
+        />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
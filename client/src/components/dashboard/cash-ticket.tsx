@@ -0,0 +1,222 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { useAccount } from "@/hooks/use-account";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, invalidateApiQueries } from "@/lib/queryClient";
+import { Decimal, MONEY_DP, formatMoney, toMoney } from "@shared/decimal";
+import {
+  cashTransactionTypes,
+  transactionTypeLabels,
+  type CashTransactionType,
+  type TradeResult,
+} from "@shared/schema";
+
+// Cash types that take money out of the account
+const outflowTypes: CashTransactionType[] = ["withdrawal", "fee", "transfer_out", "commission"];
+
+const cashTicketSchema = z.object({
+  portfolioId: z.string().min(1, "Pick an account"),
+  type: z.enum(cashTransactionTypes),
+  amount: z
+    .string()
+    .trim()
+    .refine((value) => Decimal.isValid(value) && Decimal.from(value).isPositive(), "Enter an amount above zero")
+    .refine(
+      (value) => !Decimal.isValid(value) || Decimal.from(value).decimalPlaces() <= MONEY_DP,
+      "Use whole cents",
+    ),
+  // Optional for fees and commissions charged on a holding
+  symbol: z.string().trim().toUpperCase(),
+});
+
+type CashTicketValues = z.infer<typeof cashTicketSchema>;
+
+interface CashTicketDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultType?: CashTransactionType;
+}
+
+export default function CashTicketDialog({ open, onOpenChange, defaultType = "deposit" }: CashTicketDialogProps) {
+  const { toast } = useToast();
+  const { accounts, account } = useAccount();
+  // Cash moves in or out of the account on screen, else the first one
+  const defaultAccount = String(account?.id ?? accounts[0]?.id ?? "");
+
+  const form = useForm<CashTicketValues>({
+    resolver: zodResolver(cashTicketSchema),
+    defaultValues: { portfolioId: defaultAccount, type: defaultType, amount: "", symbol: "" },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ portfolioId: defaultAccount, type: defaultType, amount: "", symbol: "" });
+    }
+  }, [open, defaultAccount, defaultType, form]);
+
+  const portfolio = accounts.find((candidate) => String(candidate.id) === form.watch("portfolioId"));
+
+  const type = form.watch("type");
+  const amount = form.watch("amount");
+  const cash = Decimal.from(portfolio?.cashBalance ?? 0);
+  const change = Decimal.isValid(amount) ? Decimal.from(amount).abs() : Decimal.ZERO;
+  const balanceAfter = outflowTypes.includes(type) ? cash.minus(change) : cash.plus(change);
+  const takesSymbol = type === "fee" || type === "commission";
+
+  const submit = useMutation({
+    mutationFn: async (values: CashTicketValues) => {
+      const res = await apiRequest("POST", "/api/transactions", {
+        portfolioId: Number(values.portfolioId),
+        type: values.type,
+        amount: toMoney(values.amount),
+        symbol: takesSymbol && values.symbol ? values.symbol : undefined,
+      });
+      return (await res.json()) as TradeResult;
+    },
+    onSuccess: (result) => {
+      invalidateApiQueries("/api/me/portfolio", "/api/me/transactions");
+      toast({
+        title: `${transactionTypeLabels[result.transaction.type as CashTransactionType]} recorded`,
+        description: `${formatMoney(result.transaction.amount, { signed: true })} cash`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Cash movement rejected", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const onSubmit = (values: CashTicketValues) => {
+    if ((values.type === "withdrawal" || values.type === "transfer_out") && portfolio && cash.lt(values.amount)) {
+      form.setError("amount", { message: `Only ${formatMoney(cash)} cash available` });
+      return;
+    }
+    submit.mutate(values);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900/90 backdrop-blur-xl border-white/20 text-white">
+        <DialogHeader>
+          <DialogTitle>Cash</DialogTitle>
+          <DialogDescription className="text-slate-300">
+            Record money moving in or out of the account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="portfolioId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Account</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="bg-white/10 border-white/20">
+                        <SelectValue placeholder="Pick an account" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {accounts.map((candidate) => (
+                        <SelectItem key={candidate.id} value={String(candidate.id)}>
+                          {candidate.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="bg-white/10 border-white/20">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {cashTransactionTypes.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {transactionTypeLabels[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} step="0.01" inputMode="decimal" placeholder="0.00" className="bg-white/10 border-white/20" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {takesSymbol && (
+              <FormField
+                control={form.control}
+                name="symbol"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Symbol (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. AAPL" className="bg-white/10 border-white/20 uppercase" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <div className="glass-morphism-dark rounded-xl p-4 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-slate-300">Cash balance</span>
+                <span>{portfolio ? formatMoney(cash) : "—"}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span className="text-slate-300">Balance after</span>
+                <span className={balanceAfter.isNegative() ? "text-red-400" : ""}>
+                  {portfolio ? formatMoney(balanceAfter) : "—"}
+                </span>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" className="bg-blue-500 hover:bg-blue-600" disabled={submit.isPending}>
+                {submit.isPending ? "Submitting…" : "Record"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Layers } from "lucide-react";
+import GlassPanel from "./glass-panel";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAccount } from "@/hooks/use-account";
+import { Decimal, formatMoney, formatShares } from "@shared/decimal";
+import type { Holding, PositionLots } from "@shared/schema";
+
+function LotsDialog({ symbol, onOpenChange }: { symbol: string | null; onOpenChange: (open: boolean) => void }) {
+  const { scoped } = useAccount();
+  const { data: positionLots, isLoading } = useQuery<PositionLots>({
+    queryKey: [scoped(`/api/me/positions/${symbol}/lots`)],
+    enabled: symbol !== null,
+  });
+
+  return (
+    <Dialog open={symbol !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900/90 backdrop-blur-xl border-white/20 text-white max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{symbol} Tax Lots</DialogTitle>
+          <DialogDescription className="text-slate-300">
+            {positionLots?.method
+              ? `Sells close lots by ${positionLots.method.toUpperCase()} unless a lot is picked on the order ticket.`
+              : "Open lots for this holding. Each account sells by its own cost-basis method."}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="py-8 text-center text-slate-400 text-sm">Loading lots…</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-white/10 hover:bg-transparent">
+                <TableHead className="text-slate-300">Opened</TableHead>
+                <TableHead className="text-slate-300 text-right">Shares</TableHead>
+                <TableHead className="text-slate-300 text-right">Cost / Share</TableHead>
+                <TableHead className="text-slate-300 text-right">Cost Basis</TableHead>
+                <TableHead className="text-slate-300 text-right">Unrealized</TableHead>
+                <TableHead className="text-slate-300">Term</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {positionLots?.lots.map((lot) => {
+                const gain = Decimal.from(lot.unrealizedGain);
+                return (
+                  <TableRow key={lot.lotId} className="border-white/5 hover:bg-white/5">
+                    <TableCell className="text-slate-300">{new Date(lot.openedAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      {formatShares(lot.remaining)}
+                      {lot.remaining !== lot.shares && <span className="text-slate-400"> / {formatShares(lot.shares)}</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(lot.costPerShare)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(lot.costBasis)}</TableCell>
+                    <TableCell className={`text-right font-medium ${gain.isNegative() ? "text-red-400" : "text-green-400"}`}>
+                      {formatMoney(gain, { signed: true })}
+                    </TableCell>
+                    <TableCell className="text-slate-300 capitalize">{lot.term}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function Holdings() {
+  const [lotsSymbol, setLotsSymbol] = useState<string | null>(null);
+  const { scoped } = useAccount();
+
+  const { data: holdings } = useQuery<Holding[]>({
+    queryKey: [scoped("/api/me/positions")],
+  });
+
+  const open = (holdings ?? []).filter((holding) => Decimal.from(holding.quantity).isPositive());
+
+  return (
+    <GlassPanel>
+      <h3 className="text-xl font-semibold text-white mb-4">Holdings</h3>
+      {open.length === 0 ? (
+        <div className="py-8 text-center text-slate-400 text-sm">No open positions</div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow className="border-white/10 hover:bg-transparent">
+              <TableHead className="text-slate-300">Symbol</TableHead>
+              <TableHead className="text-slate-300 text-right">Shares</TableHead>
+              <TableHead className="text-slate-300 text-right">Avg Cost</TableHead>
+              <TableHead className="text-slate-300 text-right">Market Value</TableHead>
+              <TableHead className="text-slate-300 text-right">Unrealized</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {open.map((holding) => {
+              const gain = Decimal.from(holding.unrealizedPnL);
+              return (
+                <TableRow key={holding.symbol} className="border-white/5 hover:bg-white/5">
+                  <TableCell className="text-white font-medium">
+                    <Link href={`/stocks/${holding.symbol}`} className="hover:underline">{holding.symbol}</Link>
+                  </TableCell>
+                  <TableCell className="text-slate-300 text-right">{formatShares(holding.quantity)}</TableCell>
+                  <TableCell className="text-slate-300 text-right">{formatMoney(holding.averageCost)}</TableCell>
+                  <TableCell className="text-white text-right">{formatMoney(holding.marketValue)}</TableCell>
+                  <TableCell className={`text-right font-medium ${gain.isNegative() ? "text-red-400" : "text-green-400"}`}>
+                    {formatMoney(gain, { signed: true })} ({holding.unrealizedPnLPercent}%)
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-slate-300 hover:text-white hover:bg-white/10"
+                      onClick={() => setLotsSymbol(holding.symbol)}
+                    >
+                      <Layers className="w-4 h-4 mr-1" />
+                      Lots
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+      <LotsDialog symbol={lotsSymbol} onOpenChange={(isOpen) => !isOpen && setLotsSymbol(null)} />
+    </GlassPanel>
+  );
+}
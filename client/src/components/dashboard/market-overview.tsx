@@ -1,3 +1,4 @@
+import { Link } from "wouter";
 import GlassPanel from "./glass-panel";
 import { TrendingUp, TrendingDown } from "lucide-react";
 import type { Stock } from "@shared/schema";
@@ -29,7 +30,7 @@ export default function MarketOverview({ stocks }: MarketOverviewProps) {
         {stocks.map((stock) => {
           const isPositive = parseFloat(stock.changePercent) >= 0;
           return (
-            <div key={stock.symbol} className="glass-morphism-dark rounded-xl p-4 hover-glass">
+            <Link key={stock.symbol} href={`/stocks/${stock.symbol}`} className="block glass-morphism-dark rounded-xl p-4 hover-glass">
               <div className="flex items-center justify-between mb-3">
                 <div className="flex items-center gap-3">
                   <div className={`w-8 h-8 rounded-full bg-gradient-to-br ${getGradientColor(stock.symbol)} flex items-center justify-center text-white text-xs font-bold`}>
@@ -54,7 +55,7 @@ export default function MarketOverview({ stocks }: MarketOverviewProps) {
                   style={{ width: `${getProgressWidth(stock.changePercent)}%` }}
                 />
               </div>
-            </div>
+            </Link>
           );
         })}
       </div>
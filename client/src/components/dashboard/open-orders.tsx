@@ -0,0 +1,414 @@
+import { useEffect, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { Pencil, X } from "lucide-react";
+import GlassPanel from "./glass-panel";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useAccount } from "@/hooks/use-account";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, invalidateApiQueries } from "@/lib/queryClient";
+import { Decimal, SHARES_DP, formatMoney, formatShares } from "@shared/decimal";
+import {
+  allowsTimeInForce,
+  openOrderStatuses,
+  orderTypeLabels,
+  timeInForceLabels,
+  timesInForce,
+  type Order,
+  type OrderStatus,
+  type OrderType,
+  type TimeInForce,
+} from "@shared/schema";
+
+// The matching engine works orders on every feed tick
+const POLL_MS = 5000;
+
+const statusLabels: Record<string, string> = {
+  held: "Held",
+  new: "New",
+  working: "Working",
+  partially_filled: "Partial",
+  filled: "Filled",
+  cancelled: "Cancelled",
+  expired: "Expired",
+};
+
+const views = [
+  { value: "open", label: "Open" },
+  { value: "history", label: "History" },
+] as const;
+
+type View = (typeof views)[number]["value"];
+
+const replaceFormSchema = z.object({
+  quantity: z
+    .string()
+    .trim()
+    .refine((value) => Decimal.isValid(value) && Decimal.from(value).isPositive(), "Enter a quantity above zero")
+    .refine(
+      (value) => !Decimal.isValid(value) || Decimal.from(value).decimalPlaces() <= SHARES_DP,
+      `Use at most ${SHARES_DP} decimal places`,
+    ),
+  limitPrice: z.string().trim(),
+  stopPrice: z.string().trim(),
+  trail: z.string().trim(),
+  timeInForce: z.enum(timesInForce),
+});
+
+type ReplaceFormValues = z.infer<typeof replaceFormSchema>;
+
+function remaining(order: Order): Decimal {
+  return Decimal.from(order.quantity).minus(order.filledQuantity);
+}
+
+function isOpenOrder(order: Order): boolean {
+  return openOrderStatuses.includes(order.status as OrderStatus);
+}
+
+function formatPrices(order: Order): string {
+  const prices = [
+    order.trailAmount !== null ? `trail ${formatMoney(order.trailAmount)}` : null,
+    order.trailPercent !== null ? `trail ${Decimal.from(order.trailPercent).toString()}%` : null,
+    order.stopPrice !== null ? `stop ${formatMoney(order.stopPrice)}` : null,
+    order.limitPrice !== null ? `limit ${formatMoney(order.limitPrice)}` : null,
+  ].filter(Boolean);
+  return prices.length > 0 ? prices.join(" · ") : "market";
+}
+
+// How an order relates to the others: its bracket entry, the other leg of
+// its one-cancels-other pair, and the order it replaced
+function formatLinks(order: Order): string {
+  return [
+    order.parentOrderId !== null ? `Bracket exit of #${order.parentOrderId}` : null,
+    order.ocoOrderId !== null ? `OCO with #${order.ocoOrderId}` : null,
+    order.replacesOrderId !== null ? `Replaces #${order.replacesOrderId}` : null,
+  ].filter(Boolean).join(" · ");
+}
+
+// Lists bracket exits straight under their entry when both are shown
+function threaded(orders: Order[]): { order: Order; nested: boolean }[] {
+  const shown = new Set(orders.map((order) => order.id));
+  const rows: { order: Order; nested: boolean }[] = [];
+  orders
+    .filter((order) => order.parentOrderId === null || !shown.has(order.parentOrderId))
+    .forEach((order) => {
+      rows.push({ order, nested: false });
+      orders
+        .filter((child) => child.parentOrderId === order.id)
+        .sort((a, b) => a.id - b.id)
+        .forEach((child) => rows.push({ order: child, nested: true }));
+    });
+  return rows;
+}
+
+function ReplaceOrderDialog({ order, onOpenChange }: { order: Order | null; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const form = useForm<ReplaceFormValues>({
+    resolver: zodResolver(replaceFormSchema),
+    defaultValues: { quantity: "", limitPrice: "", stopPrice: "", trail: "", timeInForce: "DAY" },
+  });
+
+  useEffect(() => {
+    if (order) {
+      form.reset({
+        quantity: remaining(order).toString(),
+        limitPrice: order.limitPrice ?? "",
+        stopPrice: order.stopPrice ?? "",
+        trail: order.trailAmount ?? order.trailPercent ?? "",
+        timeInForce: order.timeInForce as TimeInForce,
+      });
+    }
+  }, [order, form]);
+
+  const canIOC = !!order && allowsTimeInForce(order.type as OrderType, "IOC");
+  // A trailing stop's stop price follows the market; its trail is what changes
+  const trailing = order?.type === "trailing_stop";
+  const hasFixedStop = !!order && order.stopPrice !== null && !trailing;
+
+  const replaceOrder = useMutation({
+    mutationFn: async (values: ReplaceFormValues) => {
+      const res = await apiRequest("PATCH", `/api/me/orders/${order!.id}`, {
+        quantity: values.quantity,
+        limitPrice: order!.limitPrice !== null ? values.limitPrice : undefined,
+        stopPrice: hasFixedStop ? values.stopPrice : undefined,
+        // A new trail re-arms the stop from the current price, so only send
+        // one that changed
+        trailAmount: order!.trailAmount !== null && values.trail !== order!.trailAmount ? values.trail : undefined,
+        trailPercent: order!.trailPercent !== null && values.trail !== order!.trailPercent ? values.trail : undefined,
+        timeInForce: values.timeInForce,
+      });
+      return (await res.json()) as Order;
+    },
+    onSuccess: (replacement) => {
+      invalidateApiQueries("/api/me/orders", "/api/me/portfolio", "/api/me/transactions", "/api/me/positions");
+      toast({ title: "Order replaced", description: `#${order!.id} is now #${replacement.id}` });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not replace order", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={order !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900/90 backdrop-blur-xl border-white/20 text-white">
+        <DialogHeader>
+          <DialogTitle>Replace Order #{order?.id}</DialogTitle>
+          <DialogDescription className="text-slate-300">
+            The order is cancelled and a new one with these terms is sent for the quantity still to fill.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => replaceOrder.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="quantity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Quantity</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} step="any" inputMode="decimal" className="bg-white/10 border-white/20" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              {hasFixedStop && (
+                <FormField
+                  control={form.control}
+                  name="stopPrice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Stop price</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="0.01" inputMode="decimal" className="bg-white/10 border-white/20" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {trailing && (
+                <FormField
+                  control={form.control}
+                  name="trail"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{order?.trailAmount !== null ? "Trail ($)" : "Trail (%)"}</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="0.01" inputMode="decimal" className="bg-white/10 border-white/20" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {order?.limitPrice !== null && (
+                <FormField
+                  control={form.control}
+                  name="limitPrice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Limit price</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="0.01" inputMode="decimal" className="bg-white/10 border-white/20" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+            <FormField
+              control={form.control}
+              name="timeInForce"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Time in force</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="bg-white/10 border-white/20">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {timesInForce.map((option) => (
+                        <SelectItem key={option} value={option} disabled={option === "IOC" && !canIOC}>
+                          {timeInForceLabels[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="submit" className="bg-blue-500 hover:bg-blue-600" disabled={replaceOrder.isPending}>
+                {replaceOrder.isPending ? "Replacing…" : "Replace"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Orders still being worked, with their fills so far, or the order history
+// with how bracket, OCO and replaced orders link up
+export default function OpenOrders() {
+  const { toast } = useToast();
+  const { scoped } = useAccount();
+  const [view, setView] = useState<View>("open");
+  const [replacing, setReplacing] = useState<Order | null>(null);
+
+  const { data: orders } = useQuery<Order[]>({
+    queryKey: [scoped("/api/me/orders?status=open")],
+    refetchInterval: POLL_MS,
+  });
+
+  const { data: history } = useQuery<Order[]>({
+    queryKey: [scoped("/api/me/orders?status=all")],
+    refetchInterval: POLL_MS,
+    enabled: view === "history",
+  });
+
+  const shown = view === "open" ? orders : history;
+
+  // Fills change holdings and cash, so refresh them when an order fills more
+  // or leaves the book
+  const fills = useRef<string>();
+  useEffect(() => {
+    if (!orders) return;
+    const signature = orders.map((order) => `${order.id}:${order.filledQuantity}`).join(",");
+    if (fills.current !== undefined && fills.current !== signature) {
+      invalidateApiQueries("/api/me/portfolio", "/api/me/transactions", "/api/me/positions", "/api/me/realized-gains");
+    }
+    fills.current = signature;
+  }, [orders]);
+
+  const cancelOrder = useMutation({
+    mutationFn: async (order: Order) => {
+      const res = await apiRequest("POST", `/api/me/orders/${order.id}/cancel`);
+      return (await res.json()) as Order;
+    },
+    onSuccess: (order) => {
+      invalidateApiQueries("/api/me/orders");
+      toast({ title: "Order cancelled", description: `#${order.id} ${order.side} ${order.symbol}` });
+    },
+    onError: (error: Error) => {
+      invalidateApiQueries("/api/me/orders");
+      toast({ title: "Could not cancel order", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <GlassPanel>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-white">{view === "open" ? "Open Orders" : "Order History"}</h3>
+        <ToggleGroup type="single" value={view} onValueChange={(value) => value && setView(value as View)}>
+          {views.map((option) => (
+            <ToggleGroupItem
+              key={option.value}
+              value={option.value}
+              size="sm"
+              className="text-slate-300 data-[state=on]:bg-blue-500/30 data-[state=on]:text-white"
+            >
+              {option.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      {!shown || shown.length === 0 ? (
+        <div className="py-8 text-center text-slate-400 text-sm">{view === "open" ? "No open orders" : "No orders yet"}</div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow className="border-white/10 hover:bg-transparent">
+              <TableHead className="text-slate-300">Order</TableHead>
+              <TableHead className="text-slate-300">Type</TableHead>
+              <TableHead className="text-slate-300 text-right">Filled</TableHead>
+              <TableHead className="text-slate-300">Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {threaded(shown).map(({ order, nested }) => (
+              <TableRow key={order.id} className="border-white/5 hover:bg-white/5">
+                <TableCell className={nested ? "text-white pl-8" : "text-white"}>
+                  {nested && <span className="text-slate-500">↳ </span>}
+                  <span className={order.side === "buy" ? "text-green-400" : "text-red-400"}>
+                    {order.side === "buy" ? "Buy" : "Sell"}
+                  </span>{" "}
+                  {formatShares(order.quantity)} <span className="font-medium">{order.symbol}</span>
+                  <div className="text-xs text-slate-400">
+                    #{order.id}
+                    {formatLinks(order) && ` · ${formatLinks(order)}`}
+                  </div>
+                </TableCell>
+                <TableCell className="text-slate-300">
+                  {orderTypeLabels[order.type as OrderType]} · {order.timeInForce}
+                  <div className="text-xs text-slate-400">{formatPrices(order)}</div>
+                </TableCell>
+                <TableCell className="text-slate-300 text-right">
+                  {formatShares(order.filledQuantity)} / {formatShares(order.quantity)}
+                  {order.averageFillPrice && (
+                    <div className="text-xs text-slate-400">@ {formatMoney(order.averageFillPrice)}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-slate-300">
+                  {statusLabels[order.status] ?? order.status}
+                  {order.triggered && <div className="text-xs text-amber-300">Triggered</div>}
+                  {order.statusReason && <div className="text-xs text-slate-400">{order.statusReason}</div>}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {isOpenOrder(order) && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-slate-300 hover:text-white hover:bg-white/10"
+                        onClick={() => setReplacing(order)}
+                        title="Replace"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-slate-300 hover:text-red-300 hover:bg-white/10"
+                        onClick={() => cancelOrder.mutate(order)}
+                        disabled={cancelOrder.isPending}
+                        title="Cancel"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+      <ReplaceOrderDialog order={replacing} onOpenChange={(isOpen) => !isOpen && setReplacing(null)} />
+    </GlassPanel>
+  );
+}
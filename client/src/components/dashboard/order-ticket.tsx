@@ -0,0 +1,845 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { useAccount } from "@/hooks/use-account";
+import { useToast } from "@/hooks/use-toast";
+import SymbolPicker from "./symbol-picker";
+import { apiRequest, invalidateApiQueries } from "@/lib/queryClient";
+import { Decimal, SHARES_DP, formatMoney, formatShares } from "@shared/decimal";
+import {
+  allowsTimeInForce,
+  linkedTimesInForce,
+  orderTypeLabels,
+  orderTypes,
+  timeInForceLabels,
+  timesInForce,
+  type Holding,
+  type Order,
+  type OrderSide,
+  type OrderType,
+  type PositionLots,
+  type Stock,
+  type TradeResult,
+} from "@shared/schema";
+
+const priceField = z
+  .string()
+  .trim()
+  .refine((value) => value === "" || (/^\d+(\.\d{1,2})?$/.test(value) && Decimal.from(value).isPositive()), "Enter a price above zero with at most 2 decimals");
+
+const orderClasses = ["simple", "bracket", "oco"] as const;
+type OrderClass = (typeof orderClasses)[number];
+
+const orderClassLabels: Record<OrderClass, string> = {
+  simple: "Single order",
+  bracket: "Bracket (entry + exits)",
+  oco: "One-cancels-other exits",
+};
+
+// Bracket entries are market or limit; their exits always trail or stop
+const bracketEntryTypes: OrderType[] = ["market", "limit"];
+const stopLossTypes = ["stop", "trailing_stop"] as const;
+
+const orderTicketSchema = z.object({
+  portfolioId: z.string().min(1, "Pick an account"),
+  symbol: z.string().min(1, "Pick a symbol"),
+  side: z.enum(["buy", "sell"]),
+  quantity: z
+    .string()
+    .trim()
+    .refine((value) => Decimal.isValid(value) && Decimal.from(value).isPositive(), "Enter a quantity above zero")
+    .refine(
+      (value) => !Decimal.isValid(value) || Decimal.from(value).decimalPlaces() <= SHARES_DP,
+      `Use at most ${SHARES_DP} decimal places`,
+    ),
+  orderClass: z.enum(orderClasses),
+  type: z.enum(orderTypes),
+  limitPrice: priceField,
+  stopPrice: priceField,
+  // How far a trailing stop follows the price, as a dollar amount or percent
+  trailBy: z.enum(["amount", "percent"]),
+  trail: priceField,
+  // Exits of a bracket or OCO order
+  takeProfit: priceField,
+  stopLossType: z.enum(stopLossTypes),
+  timeInForce: z.enum(timesInForce),
+  // "auto" sells by the account's cost-basis method, otherwise a lot id
+  lot: z.string(),
+})
+  .refine((values) => values.orderClass !== "bracket" || bracketEntryTypes.includes(values.type), {
+    message: "Bracket entries are market or limit orders",
+    path: ["type"],
+  })
+  .refine((values) => !entryUsesLimit(values) || values.limitPrice !== "", { message: "Enter a limit price", path: ["limitPrice"] })
+  .refine((values) => !usesStop(stopType(values)) || values.stopPrice !== "", { message: "Enter a stop price", path: ["stopPrice"] })
+  .refine((values) => stopType(values) !== "trailing_stop" || values.trail !== "", { message: "Enter a trail", path: ["trail"] })
+  .refine((values) => values.trailBy !== "percent" || values.trail === "" || Decimal.from(values.trail).lt(100), {
+    message: "Trail by less than 100%",
+    path: ["trail"],
+  })
+  .refine((values) => values.orderClass === "simple" || values.takeProfit !== "", { message: "Enter a take-profit price", path: ["takeProfit"] })
+  // The API's time-in-force rules: linked orders rest until a leg fills, and
+  // IOC orders must be marketable on arrival
+  .refine((values) => values.orderClass === "simple" || linkedTimesInForce.some((option) => option === values.timeInForce), {
+    message: "Bracket and OCO orders are Day or Good 'til cancelled",
+    path: ["timeInForce"],
+  })
+  .refine((values) => allowsTimeInForce(values.type, values.timeInForce), {
+    message: "IOC is only available for market and limit orders",
+    path: ["timeInForce"],
+  });
+
+type OrderTicketValues = z.infer<typeof orderTicketSchema>;
+
+function usesLimit(type: OrderType): boolean {
+  return type === "limit" || type === "stop_limit";
+}
+
+function usesStop(type: OrderType): boolean {
+  return type === "stop" || type === "stop_limit";
+}
+
+// OCO orders have no entry, only exits
+function entryUsesLimit(values: { orderClass: OrderClass; type: OrderType }): boolean {
+  return values.orderClass !== "oco" && usesLimit(values.type);
+}
+
+// The order type the stop and trail fields belong to: the order itself, or
+// the stop loss of a bracket or OCO order
+function stopType(values: { orderClass: OrderClass; type: OrderType; stopLossType: OrderType }): OrderType {
+  return values.orderClass === "simple" ? values.type : values.stopLossType;
+}
+
+function trailTerms(values: OrderTicketValues) {
+  return values.trailBy === "amount" ? { trailAmount: values.trail } : { trailPercent: values.trail };
+}
+
+// Sell stops trail below the price, buy stops above it
+function formatTrail(values: Pick<OrderTicketValues, "trailBy" | "trail">, side: OrderSide): string {
+  const distance = values.trailBy === "amount" ? formatMoney(values.trail) : `${values.trail}%`;
+  return `${distance} ${side === "sell" ? "below" : "above"} the price`;
+}
+
+// A bracket's exits close the position its entry opens, so they take the
+// other side; OCO exits are placed on the side given
+function stopSide(values: Pick<OrderTicketValues, "orderClass" | "side">): OrderSide {
+  return values.orderClass === "bracket" ? (values.side === "buy" ? "sell" : "buy") : values.side;
+}
+
+function stopLossTerms(values: OrderTicketValues) {
+  return values.stopLossType === "stop" ? { stopPrice: values.stopPrice } : trailTerms(values);
+}
+
+interface OrderTicketDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultSide?: OrderSide;
+  defaultSymbol?: string;
+}
+
+export default function OrderTicketDialog({ open, onOpenChange, defaultSide = "buy", defaultSymbol }: OrderTicketDialogProps) {
+  const { toast } = useToast();
+  const { accounts, account } = useAccount();
+  const [review, setReview] = useState<OrderTicketValues | null>(null);
+  // Orders go to the account on screen, else the first one
+  const defaultAccount = String(account?.id ?? accounts[0]?.id ?? "");
+
+  const { data: stocks } = useQuery<Stock[]>({
+    queryKey: ["/api/stocks"],
+  });
+
+  const form = useForm<OrderTicketValues>({
+    resolver: zodResolver(orderTicketSchema),
+    defaultValues: newTicket(),
+  });
+
+  function newTicket(): OrderTicketValues {
+    return {
+      portfolioId: defaultAccount,
+      symbol: defaultSymbol ?? "",
+      side: defaultSide,
+      quantity: "1",
+      orderClass: "simple",
+      type: "market",
+      limitPrice: "",
+      stopPrice: "",
+      trailBy: "percent",
+      trail: "",
+      takeProfit: "",
+      stopLossType: "stop",
+      timeInForce: "DAY",
+      lot: "auto",
+    };
+  }
+
+  useEffect(() => {
+    if (open) {
+      form.reset(newTicket());
+      setReview(null);
+    }
+  }, [open, defaultAccount, defaultSide, defaultSymbol, form]);
+
+  const portfolioId = form.watch("portfolioId");
+  const symbol = form.watch("symbol");
+  const side = form.watch("side");
+  const quantity = form.watch("quantity");
+  const lot = form.watch("lot");
+  const orderClass = form.watch("orderClass");
+  const type = form.watch("type");
+  const limitPrice = form.watch("limitPrice");
+  const stopPrice = form.watch("stopPrice");
+  const stopLossType = form.watch("stopLossType");
+  const timeInForce = form.watch("timeInForce");
+  const stock = stocks?.find((s) => s.symbol === symbol);
+  const orderAccount = accounts.find((candidate) => String(candidate.id) === portfolioId);
+  const paperTrading = orderAccount?.accountType === "paper";
+
+  const { data: positions } = useQuery<Holding[]>({
+    queryKey: [`/api/me/positions?portfolioId=${portfolioId}`],
+    enabled: open && !!orderAccount,
+  });
+
+  const held = positions?.find((p) => p.symbol === symbol)?.quantity ?? "0";
+
+  const { data: positionLots } = useQuery<PositionLots>({
+    queryKey: [`/api/me/positions/${symbol}/lots?portfolioId=${portfolioId}`],
+    enabled: open && side === "sell" && Decimal.from(held).isPositive(),
+  });
+
+  useEffect(() => {
+    form.setValue("lot", "auto");
+  }, [portfolioId, symbol, side, form]);
+
+  // Resting and linked orders are only simulated in paper accounts; the
+  // others trade at the latest quote
+  useEffect(() => {
+    if (orderAccount && !paperTrading) {
+      form.setValue("orderClass", "simple");
+      form.setValue("type", "market");
+      form.setValue("timeInForce", "DAY");
+    }
+  }, [orderAccount, paperTrading, form]);
+
+  // Keep the type and time in force to what the order class allows
+  useEffect(() => {
+    if (orderClass === "bracket" && !bracketEntryTypes.includes(form.getValues("type"))) {
+      form.setValue("type", "limit");
+    }
+    if (orderClass !== "simple" && form.getValues("timeInForce") === "IOC") {
+      form.setValue("timeInForce", "DAY");
+    }
+  }, [orderClass, form]);
+
+  // Lots can only be picked for single market sells that are recorded
+  // straight away, not IOC ones the matching engine works
+  const recordedAtQuote = orderClass === "simple" && type === "market" && timeInForce !== "IOC";
+  const selectedLot = recordedAtQuote
+    ? positionLots?.lots.find((l) => String(l.lotId) === lot)
+    : undefined;
+  // Resting orders are estimated at their limit, or their stop once
+  // triggered; trailing stops and OCO exits at the last price
+  const priceOf = (values: Pick<OrderTicketValues, "orderClass" | "type" | "limitPrice" | "stopPrice">) => {
+    const resting = entryUsesLimit(values)
+      ? values.limitPrice
+      : values.orderClass === "simple" && usesStop(values.type) ? values.stopPrice : "";
+    return Decimal.isValid(resting) ? Decimal.from(resting) : Decimal.from(stock?.price ?? 0);
+  };
+  const price = priceOf({ orderClass, type, limitPrice, stopPrice });
+  const estimatedCost = Decimal.isValid(quantity) ? price.times(quantity) : Decimal.ZERO;
+  const buyingPower = Decimal.from(orderAccount?.cashBalance ?? 0);
+
+  // Market orders fill straight away as a transaction; IOC market orders and
+  // the rest are worked by the matching engine
+  const placeOrder = useMutation({
+    mutationFn: async (values: OrderTicketValues) => {
+      const res = await apiRequest("POST", "/api/me/orders", {
+        portfolioId: Number(values.portfolioId),
+        symbol: values.symbol,
+        side: values.side,
+        type: values.type,
+        quantity: values.quantity,
+        limitPrice: usesLimit(values.type) ? values.limitPrice : undefined,
+        stopPrice: usesStop(values.type) ? values.stopPrice : undefined,
+        ...(values.type === "trailing_stop" ? trailTerms(values) : {}),
+        timeInForce: values.timeInForce,
+      });
+      return (await res.json()) as Order;
+    },
+    onSuccess: (order) => {
+      invalidateApiQueries("/api/me/orders", "/api/me/portfolio", "/api/me/transactions", "/api/me/positions", "/api/me/realized-gains");
+      toast({
+        title: order.status === "filled" ? "Order filled" : order.status === "cancelled" ? "Order cancelled" : "Order placed",
+        description: order.statusReason
+          ?? `${order.side === "buy" ? "Buy" : "Sell"} ${formatShares(order.quantity)} ${order.symbol} ${orderTypeLabels[order.type as OrderType].toLowerCase()}`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Order rejected", description: error.message, variant: "destructive" });
+      setReview(null);
+    },
+  });
+
+  // Bracket and OCO orders answer with every order placed, the entry first
+  const placeLinked = useMutation({
+    mutationFn: async (values: OrderTicketValues) => {
+      const exits = {
+        portfolioId: Number(values.portfolioId),
+        symbol: values.symbol,
+        side: values.side,
+        quantity: values.quantity,
+        timeInForce: values.timeInForce,
+        takeProfit: { limitPrice: values.takeProfit },
+        stopLoss: stopLossTerms(values),
+      };
+      const res = values.orderClass === "bracket"
+        ? await apiRequest("POST", "/api/me/orders/bracket", {
+          ...exits,
+          type: values.type,
+          limitPrice: usesLimit(values.type) ? values.limitPrice : undefined,
+        })
+        : await apiRequest("POST", "/api/me/orders/oco", exits);
+      return (await res.json()) as Order[];
+    },
+    onSuccess: (placed, values) => {
+      invalidateApiQueries("/api/me/orders", "/api/me/portfolio", "/api/me/transactions", "/api/me/positions", "/api/me/realized-gains");
+      const [first, second, third] = placed;
+      toast({
+        title: values.orderClass === "bracket" ? "Bracket order placed" : "OCO order placed",
+        description: values.orderClass === "bracket"
+          ? `Entry #${first.id} ${first.status === "filled" ? "filled" : "placed"} with exits #${second.id} and #${third.id}`
+          : `#${first.id} and #${second.id} cancel each other`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Order rejected", description: error.message, variant: "destructive" });
+      setReview(null);
+    },
+  });
+
+  const submitOrder = useMutation({
+    mutationFn: async (values: OrderTicketValues) => {
+      const res = await apiRequest("POST", "/api/transactions", {
+        portfolioId: Number(values.portfolioId),
+        type: values.side,
+        symbol: values.symbol,
+        shares: values.quantity,
+        lots: values.side === "sell" && values.lot !== "auto"
+          ? [{ lotId: Number(values.lot), shares: values.quantity }]
+          : undefined,
+      });
+      return (await res.json()) as TradeResult;
+    },
+    onSuccess: (result) => {
+      invalidateApiQueries("/api/me/portfolio", "/api/me/transactions", "/api/me/positions", "/api/me/realized-gains");
+      toast({
+        title: "Order filled",
+        description: `${result.transaction.type === "buy" ? "Bought" : "Sold"} ${formatShares(Decimal.from(result.transaction.shares ?? 0).abs())} ${result.transaction.symbol}`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Order rejected", description: error.message, variant: "destructive" });
+      setReview(null);
+    },
+  });
+
+  const onReview = (values: OrderTicketValues) => {
+    if (values.side === "buy" && orderAccount && priceOf(values).times(values.quantity).gt(buyingPower)) {
+      form.setError("quantity", { message: `Costs more than the ${formatMoney(buyingPower)} buying power` });
+      return;
+    }
+    if (values.side === "sell" && Decimal.from(values.quantity).gt(held)) {
+      form.setError("quantity", { message: `Only ${formatShares(held)} shares held` });
+      return;
+    }
+    if (selectedLot && Decimal.from(values.quantity).gt(selectedLot.remaining)) {
+      form.setError("quantity", { message: `Only ${formatShares(selectedLot.remaining)} shares left in this lot` });
+      return;
+    }
+    setReview(values);
+  };
+
+  const submitting = submitOrder.isPending || placeOrder.isPending || placeLinked.isPending;
+  const onConfirm = (values: OrderTicketValues) => {
+    if (values.orderClass !== "simple") {
+      placeLinked.mutate(values);
+    } else if (values.type === "market" && values.timeInForce !== "IOC") {
+      submitOrder.mutate(values);
+    } else {
+      placeOrder.mutate(values);
+    }
+  };
+
+  const priceInput = (field: object) => (
+    <Input type="number" min={0} step="0.01" inputMode="decimal" className="bg-white/10 border-white/20" {...field} />
+  );
+
+  // Trail of a trailing stop, whether the order itself or a stop loss
+  const trailFields = (
+    <div className="grid grid-cols-2 gap-3">
+      <FormField
+        control={form.control}
+        name="trailBy"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Trail by</FormLabel>
+            <Select value={field.value} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger className="bg-white/10 border-white/20">
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="percent">Percent</SelectItem>
+                <SelectItem value="amount">Amount ($)</SelectItem>
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="trail"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Trail</FormLabel>
+            <FormControl>{priceInput(field)}</FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900/90 backdrop-blur-xl border-white/20 text-white">
+        <DialogHeader>
+          <DialogTitle>{review ? "Confirm Order" : "Order Ticket"}</DialogTitle>
+          <DialogDescription className="text-slate-300">
+            {review
+              ? "Review the order before it is sent."
+              : "Market orders fill at the latest quoted price; limit, stop and trailing orders wait for the market to reach them."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onReview)} className="space-y-4">
+            {!review ? (
+              <>
+                <FormField
+                  control={form.control}
+                  name="portfolioId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Account</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger className="bg-white/10 border-white/20">
+                            <SelectValue placeholder="Pick an account" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {accounts.map((candidate) => (
+                            <SelectItem key={candidate.id} value={String(candidate.id)}>
+                              {candidate.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {orderAccount && !paperTrading && (
+                        <FormDescription className="text-slate-400">
+                          Limit, stop and linked orders are only available in paper trading accounts.
+                        </FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="side"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Side</FormLabel>
+                      <FormControl>
+                        <ToggleGroup
+                          type="single"
+                          value={field.value}
+                          onValueChange={(value) => value && field.onChange(value)}
+                          className="justify-start"
+                        >
+                          <ToggleGroupItem value="buy" className="data-[state=on]:bg-green-500/30 data-[state=on]:text-green-300">
+                            Buy
+                          </ToggleGroupItem>
+                          <ToggleGroupItem value="sell" className="data-[state=on]:bg-red-500/30 data-[state=on]:text-red-300">
+                            Sell
+                          </ToggleGroupItem>
+                        </ToggleGroup>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="symbol"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Symbol</FormLabel>
+                      <SymbolPicker
+                        value={field.value}
+                        onSelect={(security) => field.onChange(security.symbol)}
+                        disabledReason={(security) =>
+                          stocks?.some((s) => s.symbol === security.symbol) ? undefined : "No quote"}
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Quantity</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="any" inputMode="decimal" className="bg-white/10 border-white/20" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {paperTrading && (
+                  <FormField
+                    control={form.control}
+                    name="orderClass"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Order class</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="bg-white/10 border-white/20">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {orderClasses.map((option) => (
+                              <SelectItem key={option} value={option}>
+                                {orderClassLabels[option]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {paperTrading && orderClass !== "oco" && (
+                  <FormField
+                    control={form.control}
+                    name="type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{orderClass === "bracket" ? "Entry type" : "Order type"}</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="bg-white/10 border-white/20">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {(orderClass === "bracket" ? bracketEntryTypes : orderTypes).map((option) => (
+                              <SelectItem key={option} value={option}>
+                                {orderTypeLabels[option]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {((orderClass === "simple" && usesStop(type)) || entryUsesLimit({ orderClass, type })) && (
+                  <div className="grid grid-cols-2 gap-3">
+                    {orderClass === "simple" && usesStop(type) && (
+                      <FormField
+                        control={form.control}
+                        name="stopPrice"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Stop price</FormLabel>
+                            <FormControl>{priceInput(field)}</FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    {entryUsesLimit({ orderClass, type }) && (
+                      <FormField
+                        control={form.control}
+                        name="limitPrice"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Limit price</FormLabel>
+                            <FormControl>{priceInput(field)}</FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+                )}
+                {orderClass === "simple" && type === "trailing_stop" && trailFields}
+                {orderClass !== "simple" && (
+                  <>
+                    <div className="grid grid-cols-2 gap-3">
+                      <FormField
+                        control={form.control}
+                        name="takeProfit"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Take profit</FormLabel>
+                            <FormControl>{priceInput(field)}</FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="stopLossType"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Stop loss</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger className="bg-white/10 border-white/20">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {stopLossTypes.map((option) => (
+                                  <SelectItem key={option} value={option}>
+                                    {orderTypeLabels[option]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    {stopLossType === "stop" ? (
+                      <FormField
+                        control={form.control}
+                        name="stopPrice"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Stop price</FormLabel>
+                            <FormControl>{priceInput(field)}</FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ) : trailFields}
+                  </>
+                )}
+                {paperTrading && (
+                  <FormField
+                    control={form.control}
+                    name="timeInForce"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Time in force</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="bg-white/10 border-white/20">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {timesInForce.map((option) => (
+                              <SelectItem
+                                key={option}
+                                value={option}
+                                disabled={orderClass === "simple"
+                                  ? !allowsTimeInForce(type, option)
+                                  : !linkedTimesInForce.some((linked) => linked === option)}
+                              >
+                                {timeInForceLabels[option]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {side === "sell" && recordedAtQuote && positionLots && positionLots.lots.length > 0 && (
+                  <FormField
+                    control={form.control}
+                    name="lot"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Tax lot</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="bg-white/10 border-white/20">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="auto">
+                              Account method ({(orderAccount?.costBasisMethod ?? "fifo").toUpperCase()})
+                            </SelectItem>
+                            {positionLots.lots.map((taxLot) => (
+                              <SelectItem key={taxLot.lotId} value={String(taxLot.lotId)}>
+                                {new Date(taxLot.openedAt).toLocaleDateString()} · {formatShares(taxLot.remaining)} @ {formatMoney(taxLot.costPerShare)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                <div className="glass-morphism-dark rounded-xl p-4 space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-slate-300">Last price</span>
+                    <span>{stock ? `$${stock.price}` : "—"}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-300">Shares held</span>
+                    <span>{formatShares(held)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-300">Buying power</span>
+                    <span>{orderAccount ? formatMoney(buyingPower) : "—"}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span className="text-slate-300">{side === "buy" ? "Estimated cost" : "Estimated proceeds"}</span>
+                    <span>{formatMoney(estimatedCost)}</span>
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button type="submit" className="bg-blue-500 hover:bg-blue-600" disabled={!stock}>
+                    Review Order
+                  </Button>
+                </DialogFooter>
+              </>
+            ) : (
+              <>
+                <div className="glass-morphism-dark rounded-xl p-4 space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-slate-300">Order</span>
+                    <span className={review.side === "buy" ? "text-green-400" : "text-red-400"}>
+                      {review.side === "buy" ? "Buy" : "Sell"} {formatShares(review.quantity)} {review.symbol}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-300">Account</span>
+                    <span>{orderAccount?.name}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-300">Type</span>
+                    <span>
+                      {review.orderClass === "oco" ? "One-cancels-other" : orderTypeLabels[review.type]}
+                      {review.orderClass === "bracket" && " bracket"}
+                      {(review.orderClass !== "simple" || review.type !== "market" || review.timeInForce === "IOC") && ` · ${review.timeInForce}`}
+                    </span>
+                  </div>
+                  {review.orderClass === "simple" && usesStop(review.type) && (
+                    <div className="flex justify-between">
+                      <span className="text-slate-300">Stop</span>
+                      <span>{formatMoney(review.stopPrice)}</span>
+                    </div>
+                  )}
+                  {review.orderClass === "simple" && review.type === "trailing_stop" && (
+                    <div className="flex justify-between">
+                      <span className="text-slate-300">Trail</span>
+                      <span>{formatTrail(review, review.side)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-slate-300">{entryUsesLimit(review) ? "Limit" : "Price"}</span>
+                    <span>{entryUsesLimit(review) ? formatMoney(review.limitPrice) : `$${stock?.price}`}</span>
+                  </div>
+                  {review.orderClass !== "simple" && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-slate-300">Take profit</span>
+                        <span>{formatMoney(review.takeProfit)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-300">Stop loss</span>
+                        <span>
+                          {review.stopLossType === "stop"
+                            ? formatMoney(review.stopPrice)
+                            : `Trailing ${formatTrail(review, stopSide(review))}`}
+                        </span>
+                      </div>
+                    </>
+                  )}
+                  {selectedLot && (
+                    <div className="flex justify-between">
+                      <span className="text-slate-300">Lot</span>
+                      <span>
+                        Opened {new Date(selectedLot.openedAt).toLocaleDateString()} at {formatMoney(selectedLot.costPerShare)}
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-semibold">
+                    <span className="text-slate-300">{review.side === "buy" ? "Estimated cost" : "Estimated proceeds"}</span>
+                    <span>{formatMoney(priceOf(review).times(review.quantity))}</span>
+                  </div>
+                </div>
+                <DialogFooter className="gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="text-white hover:bg-white/20"
+                    onClick={() => setReview(null)}
+                    disabled={submitting}
+                  >
+                    Back
+                  </Button>
+                  <Button
+                    type="button"
+                    className={review.side === "buy" ? "bg-green-600 hover:bg-green-700" : "bg-red-600 hover:bg-red-700"}
+                    onClick={() => onConfirm(review)}
+                    disabled={submitting}
+                  >
+                    {submitting ? "Submitting…" : `Confirm ${review.side === "buy" ? "Buy" : "Sell"}`}
+                  </Button>
+                </DialogFooter>
+              </>
+            )}
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
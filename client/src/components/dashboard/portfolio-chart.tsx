@@ -1,66 +1,238 @@
-import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip } from "recharts";
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip, Legend } from "recharts";
+import { Settings2 } from "lucide-react";
 import GlassPanel from "./glass-panel";
-import { mockPortfolioData } from "@/lib/mock-data";
+import BenchmarkDialog from "./benchmark-dialog";
 import { Button } from "@/components/ui/button";
+import { useAccount } from "@/hooks/use-account";
+import { Decimal, formatMoney } from "@shared/decimal";
+import type { BenchmarkComparison, HistoryRange, PortfolioHistory } from "@shared/schema";
+
+const ranges: { value: HistoryRange; label: string; description: string }[] = [
+  { value: "1D", label: "1D", description: "Past 24 hours" },
+  { value: "7D", label: "7D", description: "Past 7 days" },
+  { value: "1M", label: "1M", description: "Past 30 days" },
+  { value: "1Y", label: "1Y", description: "Past year" },
+  { value: "ALL", label: "All", description: "Since your first trade" },
+];
+
+// Axis labels: times for intraday points, days for short ranges, months for long ones
+function formatTick(timestamp: string, range: HistoryRange): string {
+  const date = new Date(timestamp);
+  switch (range) {
+    case "1D":
+      return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+    case "7D":
+      return date.toLocaleDateString('en-US', { weekday: 'short', day: 'numeric', timeZone: 'UTC' });
+    case "1M":
+    case "3M":
+      return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+    default:
+      return date.toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' });
+  }
+}
+
+function formatTooltipLabel(timestamp: string, range: HistoryRange): string {
+  const date = new Date(timestamp);
+  return range === "1D"
+    ? date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+function signedPercent(value: string): string {
+  return `${parseFloat(value) >= 0 ? "+" : ""}${value}%`;
+}
 
 export default function PortfolioChart() {
+  const [range, setRange] = useState<HistoryRange>("1M");
+  const [compare, setCompare] = useState(false);
+  const [editingBenchmark, setEditingBenchmark] = useState(false);
+  const { account, scoped } = useAccount();
+
+  const { data: history, isLoading } = useQuery<PortfolioHistory>({
+    queryKey: [scoped(`/api/me/portfolio/history?range=${range}`)],
+    refetchInterval: range === "1D" ? 60 * 1000 : false,
+  });
+
+  const { data: comparison } = useQuery<BenchmarkComparison>({
+    queryKey: [scoped(`/api/me/portfolio/benchmark?range=${range}`)],
+    refetchInterval: range === "1D" ? 60 * 1000 : false,
+  });
+  const rebased = (comparison?.points ?? []).map((point) => ({
+    timestamp: point.timestamp,
+    portfolio: parseFloat(point.portfolio),
+    benchmark: parseFloat(point.benchmark),
+  }));
+  const relative = comparison?.relativeReturn ?? null;
+
+  const points = (history?.points ?? []).map((point) => ({
+    timestamp: point.timestamp,
+    value: Decimal.from(point.value).toNumber(),
+  }));
+  const change = Decimal.from(history?.change ?? 0);
+  const isPositive = !change.isNegative();
+  const lineColor = isPositive ? '#3b82f6' : '#ef4444';
+  const description = ranges.find((r) => r.value === range)?.description;
+
   return (
     <GlassPanel>
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
         <div>
           <h3 className="text-xl font-semibold text-white mb-2">Portfolio Performance</h3>
-          <p className="text-slate-300 text-sm">Past 30 days performance overview</p>
+          <p className="text-slate-300 text-sm">
+            {description}
+            {history && (
+              <span className={`ml-2 font-medium ${isPositive ? 'text-green-400' : 'text-red-400'}`}>
+                {formatMoney(change, { signed: true })}
+                {' '}({isPositive ? '+' : ''}{history.changePercent}%)
+              </span>
+            )}
+            {comparison && relative !== null && (
+              <span className="ml-3">
+                vs {comparison.label}{' '}
+                <span className={`font-medium ${parseFloat(relative) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {signedPercent(relative)}
+                </span>
+              </span>
+            )}
+          </p>
         </div>
         <div className="flex items-center gap-2 mt-4 md:mt-0">
-          <Button variant="ghost" size="sm" className="text-white hover:bg-white/20">
-            1D
-          </Button>
-          <Button variant="ghost" size="sm" className="text-white bg-blue-500/30 hover:bg-blue-500/40">
-            7D
-          </Button>
-          <Button variant="ghost" size="sm" className="text-white hover:bg-white/20">
-            1M
-          </Button>
-          <Button variant="ghost" size="sm" className="text-white hover:bg-white/20">
-            1Y
+          <Button
+            variant="ghost"
+            size="sm"
+            className={compare ? "text-white bg-amber-500/30 hover:bg-amber-500/40" : "text-white hover:bg-white/20"}
+            onClick={() => setCompare(!compare)}
+          >
+            vs {comparison?.label ?? "Benchmark"}
           </Button>
+          {account && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-white hover:bg-white/20"
+              title="Choose benchmark"
+              onClick={() => setEditingBenchmark(true)}
+            >
+              <Settings2 className="w-4 h-4" />
+            </Button>
+          )}
+          {ranges.map((option) => (
+            <Button
+              key={option.value}
+              variant="ghost"
+              size="sm"
+              className={option.value === range ? "text-white bg-blue-500/30 hover:bg-blue-500/40" : "text-white hover:bg-white/20"}
+              onClick={() => setRange(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
         </div>
       </div>
       <div className="h-64 md:h-80">
-        <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={mockPortfolioData}>
-            <XAxis 
-              dataKey="month" 
-              tick={{ fill: 'rgba(226, 232, 240, 0.7)', fontSize: 12 }}
-              axisLine={{ stroke: 'rgba(255, 255, 255, 0.1)' }}
-              tickLine={{ stroke: 'rgba(255, 255, 255, 0.1)' }}
-            />
-            <YAxis 
-              tick={{ fill: 'rgba(226, 232, 240, 0.7)', fontSize: 12 }}
-              axisLine={{ stroke: 'rgba(255, 255, 255, 0.1)' }}
-              tickLine={{ stroke: 'rgba(255, 255, 255, 0.1)' }}
-              tickFormatter={(value) => `$${(value / 1000).toFixed(0)}K`}
-            />
-            <Tooltip
-              contentStyle={{
-                backgroundColor: 'rgba(0, 0, 0, 0.8)',
-                border: '1px solid rgba(255, 255, 255, 0.2)',
-                borderRadius: '8px',
-                color: 'white'
-              }}
-              formatter={(value: number) => [`$${value.toLocaleString()}`, 'Portfolio Value']}
-            />
-            <Line
-              type="monotone"
-              dataKey="value"
-              stroke="#3b82f6"
-              strokeWidth={3}
-              dot={{ fill: '#3b82f6', strokeWidth: 2, stroke: '#ffffff', r: 4 }}
-              activeDot={{ r: 6, fill: '#3b82f6' }}
-            />
-          </LineChart>
-        </ResponsiveContainer>
+        {isLoading ? (
+          <div className="h-full flex items-center justify-center text-slate-400 text-sm">Loading history…</div>
+        ) : compare ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={rebased}>
+              <XAxis
+                dataKey="timestamp"
+                tickFormatter={(value: string) => formatTick(value, range)}
+                minTickGap={32}
+                tick={{ fill: 'rgba(226, 232, 240, 0.7)', fontSize: 12 }}
+                axisLine={{ stroke: 'rgba(255, 255, 255, 0.1)' }}
+                tickLine={{ stroke: 'rgba(255, 255, 255, 0.1)' }}
+              />
+              <YAxis
+                domain={['auto', 'auto']}
+                tick={{ fill: 'rgba(226, 232, 240, 0.7)', fontSize: 12 }}
+                axisLine={{ stroke: 'rgba(255, 255, 255, 0.1)' }}
+                tickLine={{ stroke: 'rgba(255, 255, 255, 0.1)' }}
+                tickFormatter={(value: number) => value.toFixed(0)}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'rgba(0, 0, 0, 0.8)',
+                  border: '1px solid rgba(255, 255, 255, 0.2)',
+                  borderRadius: '8px',
+                  color: 'white'
+                }}
+                labelFormatter={(value: string) => formatTooltipLabel(value, range)}
+                formatter={(value: number, name: string) => [value.toFixed(2), name]}
+              />
+              <Legend wrapperStyle={{ color: 'rgba(226, 232, 240, 0.7)', fontSize: 12 }} />
+              <Line type="monotone" dataKey="portfolio" name="Portfolio" stroke="#3b82f6" strokeWidth={3} dot={false} />
+              <Line
+                type="monotone"
+                dataKey="benchmark"
+                name={comparison?.label ?? "Benchmark"}
+                stroke="#f59e0b"
+                strokeWidth={2}
+                strokeDasharray="6 4"
+                dot={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points}>
+              <XAxis
+                dataKey="timestamp"
+                tickFormatter={(value: string) => formatTick(value, range)}
+                minTickGap={32}
+                tick={{ fill: 'rgba(226, 232, 240, 0.7)', fontSize: 12 }}
+                axisLine={{ stroke: 'rgba(255, 255, 255, 0.1)' }}
+                tickLine={{ stroke: 'rgba(255, 255, 255, 0.1)' }}
+              />
+              <YAxis
+                domain={['auto', 'auto']}
+                tick={{ fill: 'rgba(226, 232, 240, 0.7)', fontSize: 12 }}
+                axisLine={{ stroke: 'rgba(255, 255, 255, 0.1)' }}
+                tickLine={{ stroke: 'rgba(255, 255, 255, 0.1)' }}
+                tickFormatter={(value) => `$${(value / 1000).toFixed(0)}K`}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'rgba(0, 0, 0, 0.8)',
+                  border: '1px solid rgba(255, 255, 255, 0.2)',
+                  borderRadius: '8px',
+                  color: 'white'
+                }}
+                labelFormatter={(value: string) => formatTooltipLabel(value, range)}
+                formatter={(value: number) => [`$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`, 'Portfolio Value']}
+              />
+              <Line
+                type="monotone"
+                dataKey="value"
+                stroke={lineColor}
+                strokeWidth={3}
+                dot={points.length <= 40 ? { fill: lineColor, strokeWidth: 2, stroke: '#ffffff', r: 4 } : false}
+                activeDot={{ r: 6, fill: lineColor }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
       </div>
+      {compare && comparison && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 text-sm">
+          {[
+            ["Alpha", comparison.alpha !== null ? signedPercent(comparison.alpha) : "—"],
+            ["Beta", comparison.beta ?? "—"],
+            ["Tracking error", comparison.trackingError !== null ? `${comparison.trackingError}%` : "—"],
+            ["Information ratio", comparison.informationRatio ?? "—"],
+          ].map(([label, value]) => (
+            <div key={label} className="glass-morphism-dark rounded-xl px-4 py-2">
+              <div className="text-slate-300 text-xs">{label}</div>
+              <div className="text-white font-semibold">{value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+      {account && (
+        <BenchmarkDialog account={account} open={editingBenchmark} onOpenChange={setEditingBenchmark} />
+      )}
     </GlassPanel>
   );
 }
@@ -1,8 +1,15 @@
+import { useState } from "react";
 import GlassPanel from "./glass-panel";
-import { Plus, Minus, BarChart3, FileText } from "lucide-react";
+import OrderTicketDialog from "./order-ticket";
+import CashTicketDialog from "./cash-ticket";
+import { Plus, Minus, BarChart3, FileText, ArrowDownToLine, ArrowUpFromLine } from "lucide-react";
+import type { CashTransactionType, OrderSide } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 
 export default function QuickActions() {
+  const [ticketSide, setTicketSide] = useState<OrderSide | null>(null);
+  const [cashType, setCashType] = useState<CashTransactionType | null>(null);
+
   return (
     <GlassPanel>
       <h3 className="text-xl font-semibold text-white mb-6">Quick Actions</h3>
@@ -10,6 +17,7 @@ export default function QuickActions() {
         <Button
           variant="ghost"
           className="glass-morphism-dark rounded-xl p-4 h-auto flex-col hover:bg-white/20 transition-all duration-300 hover:scale-105"
+          onClick={() => setTicketSide("buy")}
         >
           <div className="w-10 h-10 rounded-full bg-green-500/20 flex items-center justify-center mb-3">
             <Plus className="w-5 h-5 text-green-400" />
@@ -20,12 +28,35 @@ export default function QuickActions() {
         <Button
           variant="ghost"
           className="glass-morphism-dark rounded-xl p-4 h-auto flex-col hover:bg-white/20 transition-all duration-300 hover:scale-105"
+          onClick={() => setTicketSide("sell")}
         >
           <div className="w-10 h-10 rounded-full bg-red-500/20 flex items-center justify-center mb-3">
             <Minus className="w-5 h-5 text-red-400" />
           </div>
           <div className="text-white font-medium text-sm">Sell</div>
         </Button>
+
+        <Button
+          variant="ghost"
+          className="glass-morphism-dark rounded-xl p-4 h-auto flex-col hover:bg-white/20 transition-all duration-300 hover:scale-105"
+          onClick={() => setCashType("deposit")}
+        >
+          <div className="w-10 h-10 rounded-full bg-emerald-500/20 flex items-center justify-center mb-3">
+            <ArrowDownToLine className="w-5 h-5 text-emerald-400" />
+          </div>
+          <div className="text-white font-medium text-sm">Deposit</div>
+        </Button>
+
+        <Button
+          variant="ghost"
+          className="glass-morphism-dark rounded-xl p-4 h-auto flex-col hover:bg-white/20 transition-all duration-300 hover:scale-105"
+          onClick={() => setCashType("withdrawal")}
+        >
+          <div className="w-10 h-10 rounded-full bg-orange-500/20 flex items-center justify-center mb-3">
+            <ArrowUpFromLine className="w-5 h-5 text-orange-400" />
+          </div>
+          <div className="text-white font-medium text-sm">Withdraw</div>
+        </Button>
         
         <Button
           variant="ghost"
@@ -47,6 +78,16 @@ export default function QuickActions() {
           <div className="text-white font-medium text-sm">Report</div>
         </Button>
       </div>
+      <OrderTicketDialog
+        open={ticketSide !== null}
+        onOpenChange={(open) => !open && setTicketSide(null)}
+        defaultSide={ticketSide ?? "buy"}
+      />
+      <CashTicketDialog
+        open={cashType !== null}
+        onOpenChange={(open) => !open && setCashType(null)}
+        defaultType={cashType ?? "deposit"}
+      />
     </GlassPanel>
   );
 }
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import GlassPanel from "./glass-panel";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAccount } from "@/hooks/use-account";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, invalidateApiQueries } from "@/lib/queryClient";
+import { Decimal, formatMoney, formatShares } from "@shared/decimal";
+import { costBasisMethods, type CostBasisMethod, type GainTotals, type RealizedGainsReport } from "@shared/schema";
+
+const methodLabels: Record<CostBasisMethod, string> = {
+  fifo: "FIFO (first in, first out)",
+  lifo: "LIFO (last in, first out)",
+  hifo: "HIFO (highest cost first)",
+  specific: "Specific lot (pick on each sell)",
+};
+
+const YEARS_SHOWN = 5;
+
+function TotalsCard({ label, totals }: { label: string; totals?: GainTotals }) {
+  const gain = Decimal.from(totals?.gain ?? 0);
+  return (
+    <div className="glass-morphism-dark rounded-xl p-4">
+      <div className="text-slate-300 text-sm mb-1">{label}</div>
+      <div className={`text-xl font-semibold ${gain.isNegative() ? "text-red-400" : "text-green-400"}`}>
+        {totals ? formatMoney(gain, { signed: true }) : "—"}
+      </div>
+      {totals && (
+        <div className="text-slate-400 text-xs mt-1">
+          {formatMoney(totals.proceeds)} proceeds · {formatMoney(totals.costBasis)} cost
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function RealizedGains() {
+  const { toast } = useToast();
+  const currentYear = new Date().getUTCFullYear();
+  const [year, setYear] = useState(String(currentYear));
+  const { account, scoped } = useAccount();
+
+  const { data: report } = useQuery<RealizedGainsReport>({
+    queryKey: [scoped(year === "all" ? "/api/me/realized-gains" : `/api/me/realized-gains?year=${year}`)],
+  });
+
+  // The method is an account setting, so it is only editable with one selected
+  const updateMethod = useMutation({
+    mutationFn: async (costBasisMethod: CostBasisMethod) => {
+      await apiRequest("PATCH", `/api/me/portfolios/${account!.id}`, { costBasisMethod });
+    },
+    onSuccess: () => invalidateApiQueries("/api/me/portfolio", "/api/me/realized-gains", "/api/me/positions"),
+    onError: (error: Error) => {
+      toast({ title: "Could not change cost-basis method", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <GlassPanel>
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-semibold text-white mb-1">Realized Gains</h3>
+          <p className="text-slate-300 text-sm">
+            Gains on shares sold, long-term once a lot was held over a year. Past sells keep the lots they closed.
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <Select
+            value={account?.costBasisMethod ?? report?.method ?? ""}
+            onValueChange={(value) => updateMethod.mutate(value as CostBasisMethod)}
+            disabled={!account || updateMethod.isPending}
+          >
+            <SelectTrigger className="w-64 bg-white/10 border-white/20 text-white" aria-label="Cost-basis method">
+              <SelectValue placeholder="Methods vary by account" />
+            </SelectTrigger>
+            <SelectContent>
+              {costBasisMethods.map((method) => (
+                <SelectItem key={method} value={method}>
+                  {methodLabels[method]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={year} onValueChange={setYear}>
+            <SelectTrigger className="w-32 bg-white/10 border-white/20 text-white" aria-label="Tax year">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: YEARS_SHOWN }, (_, index) => String(currentYear - index)).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+              <SelectItem value="all">All years</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <TotalsCard label="Short-term" totals={report?.shortTerm} />
+        <TotalsCard label="Long-term" totals={report?.longTerm} />
+        <TotalsCard label="Total" totals={report?.total} />
+      </div>
+
+      {report && report.lots.length === 0 ? (
+        <div className="py-4 text-center text-slate-400 text-sm">No sells in this period.</div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow className="border-white/10 hover:bg-transparent">
+              <TableHead className="text-slate-300">Sold</TableHead>
+              <TableHead className="text-slate-300">Symbol</TableHead>
+              <TableHead className="text-slate-300">Acquired</TableHead>
+              <TableHead className="text-slate-300 text-right">Shares</TableHead>
+              <TableHead className="text-slate-300 text-right">Proceeds</TableHead>
+              <TableHead className="text-slate-300 text-right">Cost Basis</TableHead>
+              <TableHead className="text-slate-300 text-right">Gain</TableHead>
+              <TableHead className="text-slate-300">Term</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report?.lots.map((lot) => {
+              const gain = Decimal.from(lot.gain);
+              return (
+                <TableRow key={`${lot.sellTransactionId}-${lot.lotId}`} className="border-white/5 hover:bg-white/5">
+                  <TableCell className="text-slate-300">{new Date(lot.closedAt).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-white font-medium">{lot.symbol}</TableCell>
+                  <TableCell className="text-slate-300">{new Date(lot.openedAt).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-slate-300 text-right">{formatShares(lot.shares)}</TableCell>
+                  <TableCell className="text-slate-300 text-right">{formatMoney(lot.proceeds)}</TableCell>
+                  <TableCell className="text-slate-300 text-right">{formatMoney(lot.costBasis)}</TableCell>
+                  <TableCell className={`text-right font-semibold ${gain.isNegative() ? "text-red-400" : "text-green-400"}`}>
+                    {formatMoney(gain, { signed: true })}
+                  </TableCell>
+                  <TableCell className="text-slate-300 capitalize">{lot.term}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </GlassPanel>
+  );
+}
@@ -0,0 +1,523 @@
+import { useEffect, useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { AlertTriangle, Plus, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, invalidateApiQueries } from "@/lib/queryClient";
+import { formatMoney, formatShares } from "@shared/decimal";
+import {
+  allocationGroupings,
+  type AllocationGrouping,
+  type Portfolio,
+  type RebalancePreview,
+  type RebalanceTrade,
+  type TargetGroupOption,
+  type TargetModel,
+} from "@shared/schema";
+
+const AUTO_SYMBOL = "auto";
+
+const groupingLabels: Record<AllocationGrouping, string> = {
+  sector: "Sector",
+  assetType: "Asset Class",
+  security: "Holding",
+};
+
+const percentField = z.string().trim().refine((value) => {
+  const number = parseFloat(value);
+  return number >= 0 && number <= 100;
+}, "0 to 100");
+
+const targetModelFormSchema = z.object({
+  groupBy: z.enum(allocationGroupings),
+  targets: z
+    .array(z.object({
+      key: z.string().min(1, "Pick a group"),
+      weight: percentField,
+      symbol: z.string(),
+    }))
+    .min(1)
+    .refine((targets) => new Set(targets.map((target) => target.key)).size === targets.length, "Each group may appear once"),
+  cashWeight: percentField,
+  driftBand: z.string().trim().refine((value) => parseFloat(value) >= 0 && parseFloat(value) <= 50, "0 to 50"),
+}).refine(
+  (values) => Math.abs(totalWeight(values) - 100) < 1e-6,
+  { message: "Target and cash weights must add up to 100", path: ["targets"] },
+);
+
+type TargetModelFormValues = z.infer<typeof targetModelFormSchema>;
+
+function totalWeight(values: { targets: { weight: string }[]; cashWeight: string }): number {
+  return values.targets.reduce((total, target) => total + (parseFloat(target.weight) || 0), parseFloat(values.cashWeight) || 0);
+}
+
+function toFormValues(model: TargetModel | null | undefined): TargetModelFormValues {
+  if (!model) {
+    return { groupBy: "sector", targets: [{ key: "", weight: "100", symbol: AUTO_SYMBOL }], cashWeight: "0", driftBand: "5" };
+  }
+  return {
+    groupBy: model.groupBy as AllocationGrouping,
+    targets: model.targets.map((target) => ({
+      key: target.key,
+      weight: String(target.weight),
+      symbol: target.symbol ?? AUTO_SYMBOL,
+    })),
+    cashWeight: String(parseFloat(model.cashWeight)),
+    driftBand: String(parseFloat(model.driftBand)),
+  };
+}
+
+function tradeKey(trade: RebalanceTrade): string {
+  return `${trade.type}:${trade.symbol}`;
+}
+
+function signedPercent(value: string): string {
+  return `${parseFloat(value) > 0 ? "+" : ""}${value}%`;
+}
+
+interface RebalanceWizardProps {
+  account: Portfolio;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Edits an account's target model, previews the trades that bring it back
+// within its drift bands and submits the approved ones as transactions
+export default function RebalanceWizard({ account, open, onOpenChange }: RebalanceWizardProps) {
+  const { toast } = useToast();
+  const [step, setStep] = useState<"targets" | "preview">("targets");
+  const [fractional, setFractional] = useState(false);
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const modelUrl = `/api/me/portfolios/${account.id}/target-model`;
+
+  const { data: model, isLoading: modelLoading } = useQuery<TargetModel | null>({
+    queryKey: [modelUrl],
+    enabled: open,
+  });
+
+  const form = useForm<TargetModelFormValues>({
+    resolver: zodResolver(targetModelFormSchema),
+    defaultValues: toFormValues(null),
+  });
+  const { fields, append, remove, replace } = useFieldArray({ control: form.control, name: "targets" });
+  const groupBy = form.watch("groupBy");
+  const values = form.watch();
+  const total = totalWeight(values);
+
+  const { data: groups } = useQuery<TargetGroupOption[]>({
+    queryKey: [`/api/rebalance/groups?by=${groupBy}`],
+    enabled: open,
+  });
+
+  const { data: preview, isFetching: previewLoading } = useQuery<RebalancePreview>({
+    queryKey: [`/api/me/portfolios/${account.id}/rebalance?fractional=${fractional}`],
+    enabled: open && step === "preview",
+  });
+
+  // Start from the saved model each time the wizard opens, but not when the
+  // model refetches after a save
+  const [initialized, setInitialized] = useState(false);
+  useEffect(() => {
+    if (!open) {
+      setInitialized(false);
+    } else if (!modelLoading && !initialized) {
+      form.reset(toFormValues(model));
+      setStep("targets");
+      setSkipped(new Set());
+      setInitialized(true);
+    }
+  }, [open, modelLoading, initialized, model, form]);
+
+  const saveModel = useMutation({
+    mutationFn: async (formValues: TargetModelFormValues) => {
+      const res = await apiRequest("PUT", modelUrl, {
+        groupBy: formValues.groupBy,
+        targets: formValues.targets.map((target) => ({
+          key: target.key,
+          weight: parseFloat(target.weight),
+          symbol: target.symbol === AUTO_SYMBOL ? undefined : target.symbol,
+        })),
+        cashWeight: parseFloat(formValues.cashWeight),
+        driftBand: parseFloat(formValues.driftBand),
+      });
+      return (await res.json()) as TargetModel;
+    },
+    onSuccess: async () => {
+      await invalidateApiQueries(`/api/me/portfolios/${account.id}/`);
+      setSkipped(new Set());
+      setStep("preview");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save targets", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Sells go first so their proceeds fund the buys; the run stops at the
+  // first rejected trade
+  const submitTrades = useMutation({
+    mutationFn: async (trades: RebalanceTrade[]) => {
+      let submitted = 0;
+      try {
+        for (const trade of trades) {
+          await apiRequest("POST", "/api/transactions", {
+            portfolioId: account.id,
+            type: trade.type,
+            symbol: trade.symbol,
+            shares: trade.shares,
+            lots: trade.lots ?? undefined,
+          });
+          submitted++;
+        }
+      } catch (error) {
+        throw new Error(`Stopped after ${submitted} of ${trades.length} trades: ${(error as Error).message}`);
+      } finally {
+        if (submitted > 0) {
+          invalidateApiQueries("/api/me/portfolio", "/api/me/transactions", "/api/me/positions", "/api/me/realized-gains");
+        }
+      }
+      return submitted;
+    },
+    onSuccess: (submitted) => {
+      toast({ title: "Rebalance submitted", description: `${submitted} trades recorded in ${account.name}` });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Rebalance incomplete", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const changeGrouping = (value: string) => {
+    if (!value || value === groupBy) return;
+    form.setValue("groupBy", value as AllocationGrouping);
+    replace([{ key: "", weight: String(Math.max(0, 100 - (parseFloat(values.cashWeight) || 0))), symbol: AUTO_SYMBOL }]);
+  };
+
+  const approved = (preview?.trades ?? []).filter((trade) => !skipped.has(tradeKey(trade)));
+  const toggleTrade = (trade: RebalanceTrade) => {
+    const next = new Set(skipped);
+    if (next.has(tradeKey(trade))) {
+      next.delete(tradeKey(trade));
+    } else {
+      next.add(tradeKey(trade));
+    }
+    setSkipped(next);
+  };
+  const targetsError = form.formState.errors.targets?.root ?? form.formState.errors.targets;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900/90 backdrop-blur-xl border-white/20 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{step === "targets" ? "Rebalance · Targets" : "Rebalance · Review Trades"}</DialogTitle>
+          <DialogDescription className="text-slate-300">
+            {step === "targets"
+              ? `Set the allocation ${account.name} should hold. Groups are traded once they drift past the band.`
+              : "Untick any trade to leave it out. Nothing is traded until you submit."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "targets" ? (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((formValues) => saveModel.mutate(formValues))} className="space-y-4">
+              <ToggleGroup type="single" value={groupBy} onValueChange={changeGrouping} className="justify-start">
+                {allocationGroupings.map((grouping) => (
+                  <ToggleGroupItem
+                    key={grouping}
+                    value={grouping}
+                    size="sm"
+                    className="text-slate-300 data-[state=on]:bg-blue-500/30 data-[state=on]:text-white"
+                  >
+                    {groupingLabels[grouping]}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+
+              {fields.map((field, index) => {
+                const group = groups?.find((option) => option.key === values.targets[index]?.key);
+                return (
+                  <div key={field.id} className="flex items-start gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`targets.${index}.key`}
+                      render={({ field: keyField }) => (
+                        <FormItem className="flex-1">
+                          <Select
+                            value={keyField.value}
+                            onValueChange={(value) => {
+                              keyField.onChange(value);
+                              form.setValue(`targets.${index}.symbol`, AUTO_SYMBOL);
+                            }}
+                          >
+                            <FormControl>
+                              <SelectTrigger className="bg-white/10 border-white/20">
+                                <SelectValue placeholder={`Pick a ${groupingLabels[groupBy].toLowerCase()}`} />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {(groups ?? []).map((option) => (
+                                <SelectItem key={option.key} value={option.key}>
+                                  {groupBy === "security" ? `${option.key} · ${option.label}` : option.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {groupBy !== "security" && (
+                      <FormField
+                        control={form.control}
+                        name={`targets.${index}.symbol`}
+                        render={({ field: symbolField }) => (
+                          <FormItem className="w-32">
+                            <Select value={symbolField.value} onValueChange={symbolField.onChange}>
+                              <FormControl>
+                                <SelectTrigger className="bg-white/10 border-white/20" aria-label="Buy with">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value={AUTO_SYMBOL}>Auto</SelectItem>
+                                {(group?.symbols ?? []).map((symbol) => (
+                                  <SelectItem key={symbol} value={symbol}>{symbol}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    <FormField
+                      control={form.control}
+                      name={`targets.${index}.weight`}
+                      render={({ field: weightField }) => (
+                        <FormItem className="w-24">
+                          <FormControl>
+                            <div className="relative">
+                              <Input
+                                type="number"
+                                min={0}
+                                max={100}
+                                step="any"
+                                inputMode="decimal"
+                                className="bg-white/10 border-white/20 pr-7"
+                                aria-label="Target weight"
+                                {...weightField}
+                              />
+                              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 text-sm">%</span>
+                            </div>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="text-slate-400 hover:text-white hover:bg-white/10"
+                      disabled={fields.length === 1}
+                      onClick={() => remove(index)}
+                    >
+                      <X className="w-4 h-4" />
+                      <span className="sr-only">Remove</span>
+                    </Button>
+                  </div>
+                );
+              })}
+
+              <div className="flex items-center justify-between text-sm">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-white hover:bg-white/20"
+                  onClick={() => append({ key: "", weight: String(Math.max(0, 100 - total)), symbol: AUTO_SYMBOL })}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add group
+                </Button>
+                <span className={Math.abs(total - 100) < 1e-6 ? "text-slate-300" : "text-red-400"}>
+                  Total {total}%
+                </span>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="cashWeight"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cash (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} max={100} step="any" inputMode="decimal" className="bg-white/10 border-white/20" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="driftBand"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Drift band (± points)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} max={50} step="any" inputMode="decimal" className="bg-white/10 border-white/20" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {targetsError?.message && (
+                <p className="text-sm font-medium text-destructive">{targetsError.message}</p>
+              )}
+
+              <DialogFooter>
+                <Button type="submit" className="bg-blue-500 hover:bg-blue-600" disabled={saveModel.isPending || modelLoading}>
+                  {saveModel.isPending ? "Saving…" : "Save & Preview Trades"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <Switch checked={fractional} onCheckedChange={setFractional} />
+                Fractional shares
+              </label>
+              {preview && (
+                <span className="text-sm text-slate-300">
+                  Account value {formatMoney(preview.totalValue)} · band ±{preview.driftBand} pts
+                </span>
+              )}
+            </div>
+
+            {previewLoading || !preview ? (
+              <div className="py-8 text-center text-slate-400 text-sm">Planning trades…</div>
+            ) : (
+              <>
+                <div className="glass-morphism-dark rounded-xl p-3 text-sm">
+                  <div className="grid grid-cols-5 gap-2 text-slate-400 text-xs pb-2">
+                    <span className="col-span-2">Group</span>
+                    <span className="text-right">Target</span>
+                    <span className="text-right">Now</span>
+                    <span className="text-right">After</span>
+                  </div>
+                  {preview.groups.map((group) => (
+                    <div key={group.key} className="grid grid-cols-5 gap-2 py-1">
+                      <span className="col-span-2 truncate">{group.label}</span>
+                      <span className="text-right">{group.targetWeight}%</span>
+                      <span className={`text-right ${group.outOfBand ? "text-amber-400" : ""}`}>
+                        {group.currentWeight}% <span className="text-xs">({signedPercent(group.drift)})</span>
+                      </span>
+                      <span className="text-right">{group.projectedWeight}%</span>
+                    </div>
+                  ))}
+                  <div className="grid grid-cols-5 gap-2 py-1 text-slate-300">
+                    <span className="col-span-2">Cash</span>
+                    <span className="text-right">{preview.cash.targetWeight}%</span>
+                    <span className="text-right">{preview.cash.currentWeight}%</span>
+                    <span className="text-right">{formatMoney(preview.cash.after)}</span>
+                  </div>
+                </div>
+
+                {preview.trades.length === 0 ? (
+                  <div className="py-4 text-center text-slate-300 text-sm">
+                    Every group is within ±{preview.driftBand} points of its target. No trades needed.
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {preview.trades.map((trade) => {
+                      const gain = trade.type === "sell"
+                        ? parseFloat(trade.shortTermGain ?? "0") + parseFloat(trade.longTermGain ?? "0")
+                        : null;
+                      return (
+                        <label
+                          key={tradeKey(trade)}
+                          className="flex items-center gap-3 glass-morphism-dark rounded-xl px-3 py-2 text-sm cursor-pointer"
+                        >
+                          <Checkbox checked={!skipped.has(tradeKey(trade))} onCheckedChange={() => toggleTrade(trade)} />
+                          <span className={`w-10 font-medium ${trade.type === "buy" ? "text-green-400" : "text-red-400"}`}>
+                            {trade.type === "buy" ? "Buy" : "Sell"}
+                          </span>
+                          <span className="flex-1">
+                            {formatShares(trade.shares)} {trade.symbol}
+                            <span className="text-slate-400"> · {trade.group}</span>
+                          </span>
+                          {gain !== null && (
+                            <span className={`text-xs ${gain >= 0 ? "text-slate-300" : "text-green-400"}`}>
+                              {gain >= 0 ? "Gain" : "Loss"} {formatMoney(Math.abs(gain))}
+                            </span>
+                          )}
+                          <span className="w-28 text-right">{formatMoney(trade.amount)}</span>
+                        </label>
+                      );
+                    })}
+                    <div className="flex justify-between text-sm text-slate-300 pt-1">
+                      <span>
+                        Sells {formatMoney(preview.totals.sells)} · Buys {formatMoney(preview.totals.buys)}
+                      </span>
+                      <span>
+                        Est. realized: short {formatMoney(preview.totals.shortTermGain, { signed: true })} · long{" "}
+                        {formatMoney(preview.totals.longTermGain, { signed: true })}
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {preview.warnings.map((warning) => (
+                  <p key={warning} className="flex items-start gap-2 text-sm text-amber-400">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                    {warning}
+                  </p>
+                ))}
+              </>
+            )}
+
+            <DialogFooter className="gap-2">
+              <Button
+                type="button"
+                variant="ghost"
+                className="text-white hover:bg-white/20"
+                disabled={submitTrades.isPending}
+                onClick={() => setStep("targets")}
+              >
+                Back
+              </Button>
+              <Button
+                type="button"
+                className="bg-blue-500 hover:bg-blue-600"
+                disabled={approved.length === 0 || previewLoading || submitTrades.isPending}
+                onClick={() => submitTrades.mutate(approved)}
+              >
+                {submitTrades.isPending ? "Submitting…" : `Submit ${approved.length} ${approved.length === 1 ? "Trade" : "Trades"}`}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
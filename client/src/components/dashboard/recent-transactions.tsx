@@ -1,7 +1,9 @@
+import { Link } from "wouter";
 import GlassPanel from "./glass-panel";
-import { ArrowUp, ArrowDown, Coins } from "lucide-react";
+import { ArrowUp, ArrowDown, Coins, Landmark, Receipt } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import type { Transaction } from "@shared/schema";
+import { Decimal, formatMoney, formatShares } from "@shared/decimal";
+import { transactionTypeLabels, type Transaction, type TransactionType } from "@shared/schema";
 
 interface RecentTransactionsProps {
   transactions: Transaction[];
@@ -15,7 +17,17 @@ export default function RecentTransactions({ transactions }: RecentTransactionsP
       case 'sell':
         return <ArrowDown className="w-4 h-4 text-red-400" />;
       case 'dividend':
+      case 'interest':
         return <Coins className="w-4 h-4 text-blue-400" />;
+      case 'deposit':
+      case 'transfer_in':
+        return <Landmark className="w-4 h-4 text-emerald-400" />;
+      case 'withdrawal':
+      case 'transfer_out':
+        return <Landmark className="w-4 h-4 text-orange-400" />;
+      case 'fee':
+      case 'commission':
+        return <Receipt className="w-4 h-4 text-slate-300" />;
       default:
         return <ArrowUp className="w-4 h-4 text-green-400" />;
     }
@@ -28,7 +40,17 @@ export default function RecentTransactions({ transactions }: RecentTransactionsP
       case 'sell':
         return 'bg-red-500/20';
       case 'dividend':
+      case 'interest':
         return 'bg-blue-500/20';
+      case 'deposit':
+      case 'transfer_in':
+        return 'bg-emerald-500/20';
+      case 'withdrawal':
+      case 'transfer_out':
+        return 'bg-orange-500/20';
+      case 'fee':
+      case 'commission':
+        return 'bg-slate-500/20';
       default:
         return 'bg-green-500/20';
     }
@@ -58,8 +80,10 @@ export default function RecentTransactions({ transactions }: RecentTransactionsP
         return `Sell ${transaction.symbol}`;
       case 'dividend':
         return `Dividend ${transaction.symbol}`;
-      default:
-        return `${transaction.type} ${transaction.symbol}`;
+      default: {
+        const label = transactionTypeLabels[transaction.type as TransactionType] ?? transaction.type;
+        return transaction.symbol ? `${label} ${transaction.symbol}` : label;
+      }
     }
   };
 
@@ -67,8 +91,8 @@ export default function RecentTransactions({ transactions }: RecentTransactionsP
     <GlassPanel>
       <div className="flex items-center justify-between mb-6">
         <h3 className="text-xl font-semibold text-white">Recent Activity</h3>
-        <Button variant="ghost" size="sm" className="text-blue-400 hover:text-blue-300 hover:bg-transparent">
-          View All
+        <Button asChild variant="ghost" size="sm" className="text-blue-400 hover:text-blue-300 hover:bg-transparent">
+          <Link href="/transactions">View All</Link>
         </Button>
       </div>
       <div className="space-y-4">
@@ -90,11 +114,11 @@ export default function RecentTransactions({ transactions }: RecentTransactionsP
               </div>
               <div className="text-right">
                 <div className="text-white font-semibold text-sm">
-                  {parseFloat(transaction.amount) >= 0 ? '+' : ''}${Math.abs(parseFloat(transaction.amount)).toLocaleString()}
+                  {Decimal.from(transaction.amount).isNegative() ? '' : '+'}{formatMoney(Decimal.from(transaction.amount).abs())}
                 </div>
                 {transaction.shares && (
-                  <div className={`text-xs ${parseFloat(transaction.amount) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                    {transaction.shares > 0 ? '+' : ''}{transaction.shares} shares
+                  <div className={`text-xs ${Decimal.from(transaction.amount).isNegative() ? 'text-red-400' : 'text-green-400'}`}>
+                    {Decimal.from(transaction.shares).isPositive() ? '+' : ''}{formatShares(transaction.shares)} shares
                   </div>
                 )}
                 {transaction.type === 'dividend' && (
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import GlassPanel from "./glass-panel";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useAccount } from "@/hooks/use-account";
+import { metricsRanges, type MetricsRange, type PortfolioMetrics } from "@shared/schema";
+
+interface Metric {
+  label: string;
+  value: string;
+  hint: string;
+  // Colors the value green or red; neutral when undefined
+  positive?: boolean;
+}
+
+function signedPercent(value: string | null): string {
+  if (value === null) return "—";
+  return `${parseFloat(value) > 0 ? "+" : ""}${value}%`;
+}
+
+function formatDay(timestamp: string): string {
+  return new Date(timestamp).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+}
+
+function metricsOf(metrics: PortfolioMetrics): Metric[] {
+  const sign = (value: string | null) => (value === null ? undefined : parseFloat(value) >= 0);
+  const drawdown = metrics.maxDrawdown;
+  return [
+    {
+      label: "Time-weighted return",
+      value: signedPercent(metrics.timeWeightedReturn),
+      hint: "Growth of the portfolio with deposits and withdrawals taken out",
+      positive: sign(metrics.timeWeightedReturn),
+    },
+    {
+      label: "Annualized return",
+      value: signedPercent(metrics.annualizedReturn),
+      hint: "The time-weighted return as a yearly rate",
+      positive: sign(metrics.annualizedReturn),
+    },
+    {
+      label: "Money-weighted (IRR)",
+      value: signedPercent(metrics.moneyWeightedReturn),
+      hint: "Yearly rate earned on the money you actually put in, when you put it in",
+      positive: sign(metrics.moneyWeightedReturn),
+    },
+    {
+      label: "Volatility",
+      value: metrics.volatility === null ? "—" : `${metrics.volatility}%`,
+      hint: "Annualized standard deviation of daily returns",
+    },
+    {
+      label: "Sharpe ratio",
+      value: metrics.sharpeRatio ?? "—",
+      hint: `Return above the ${metrics.riskFreeRate}% risk-free rate per unit of volatility`,
+      positive: sign(metrics.sharpeRatio),
+    },
+    {
+      label: "Sortino ratio",
+      value: metrics.sortinoRatio ?? "—",
+      hint: "Like Sharpe, but only counting days below the risk-free rate as risk",
+      positive: sign(metrics.sortinoRatio),
+    },
+    {
+      label: "Calmar ratio",
+      value: metrics.calmarRatio ?? "—",
+      hint: "Annualized return divided by the maximum drawdown",
+      positive: sign(metrics.calmarRatio),
+    },
+    {
+      label: "Max drawdown",
+      value: drawdown ? `${drawdown.percent}%` : "None",
+      hint: drawdown
+        ? `From the ${formatDay(drawdown.peakAt)} peak to the ${formatDay(drawdown.troughAt)} low`
+        : "The portfolio never fell below an earlier peak",
+      positive: drawdown ? false : undefined,
+    },
+    {
+      label: "Drawdown duration",
+      value: drawdown ? `${drawdown.durationDays}d` : "—",
+      hint: drawdown
+        ? drawdown.recoveredAt
+          ? `Recovered on ${formatDay(drawdown.recoveredAt)}`
+          : "Still below the peak"
+        : "No drawdown in this range",
+    },
+  ];
+}
+
+export default function RiskReturn() {
+  const [range, setRange] = useState<MetricsRange>("1Y");
+  const { scoped } = useAccount();
+
+  const { data: metrics, isLoading } = useQuery<PortfolioMetrics>({
+    queryKey: [scoped(`/api/me/portfolio/metrics?range=${range}`)],
+  });
+
+  return (
+    <GlassPanel>
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+        <div>
+          <h3 className="text-xl font-semibold text-white mb-2">Risk &amp; Return</h3>
+          <p className="text-slate-300 text-sm">
+            {metrics ? `${metrics.periods} daily returns since ${formatDay(metrics.from)}` : "Daily returns over the range"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 mt-4 md:mt-0">
+          {metricsRanges.map((option) => (
+            <Button
+              key={option}
+              variant="ghost"
+              size="sm"
+              className={option === range ? "text-white bg-blue-500/30 hover:bg-blue-500/40" : "text-white hover:bg-white/20"}
+              onClick={() => setRange(option)}
+            >
+              {option === "ALL" ? "All" : option}
+            </Button>
+          ))}
+        </div>
+      </div>
+      {isLoading || !metrics ? (
+        <div className="py-8 text-center text-slate-400 text-sm">Loading metrics…</div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {metricsOf(metrics).map((metric) => (
+            <Tooltip key={metric.label}>
+              <TooltipTrigger asChild>
+                <div className="glass-morphism-dark rounded-xl p-4 cursor-help">
+                  <div className="text-slate-300 text-xs mb-1">{metric.label}</div>
+                  <div
+                    className={`text-lg font-semibold ${
+                      metric.positive === undefined ? "text-white" : metric.positive ? "text-green-400" : "text-red-400"
+                    }`}
+                  >
+                    {metric.value}
+                  </div>
+                </div>
+              </TooltipTrigger>
+              <TooltipContent>{metric.hint}</TooltipContent>
+            </Tooltip>
+          ))}
+        </div>
+      )}
+    </GlassPanel>
+  );
+}
@@ -0,0 +1,109 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { ChevronsUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { cn } from "@/lib/utils";
+import type { Security } from "@shared/schema";
+
+const SEARCH_DEBOUNCE_MS = 150;
+
+interface SymbolPickerProps {
+  value?: string;
+  onSelect: (security: Security) => void;
+  placeholder?: string;
+  // Replaces the default trigger, which shows the picked symbol
+  trigger?: ReactNode;
+  // Returns why a result cannot be picked, or undefined when it can
+  disabledReason?: (security: Security) => string | undefined;
+  className?: string;
+}
+
+// Searches the security master as the user types
+export default function SymbolPicker({
+  value,
+  onSelect,
+  placeholder = "Search symbols...",
+  trigger,
+  disabledReason,
+  className,
+}: SymbolPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { data: results = [], isFetching } = useQuery<Security[]>({
+    queryKey: [`/api/securities/search?q=${encodeURIComponent(query)}`],
+    enabled: open && query.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const pick = (security: Security) => {
+    onSelect(security);
+    setOpen(false);
+    setSearch("");
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        {trigger ?? (
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={cn("w-full justify-between bg-white/10 border-white/20 text-white hover:bg-white/20 hover:text-white", className)}
+          >
+            {value || <span className="text-slate-400">Select a symbol</span>}
+            <ChevronsUpDown className="w-4 h-4 opacity-50" />
+          </Button>
+        )}
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0 bg-slate-900/95 backdrop-blur-xl border-white/20 text-white">
+        <Command shouldFilter={false} className="bg-transparent text-white">
+          <CommandInput value={search} onValueChange={setSearch} placeholder={placeholder} />
+          <CommandList>
+            {query.length > 0 && !isFetching && (
+              <CommandEmpty className="py-6 text-center text-sm text-slate-400">No matching securities.</CommandEmpty>
+            )}
+            {query.length > 0 && results.length > 0 && (
+              <CommandGroup>
+                {results.map((security) => {
+                  const reason = disabledReason?.(security);
+                  return (
+                    <CommandItem
+                      key={security.symbol}
+                      value={security.symbol}
+                      disabled={reason !== undefined}
+                      onSelect={() => pick(security)}
+                      className="data-[selected=true]:bg-white/10 data-[selected=true]:text-white"
+                    >
+                      <span className="w-16 font-semibold shrink-0">{security.symbol}</span>
+                      <span className="flex-1 truncate text-slate-300">{security.name}</span>
+                      <span className="text-xs text-slate-400">{reason ?? security.exchange}</span>
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
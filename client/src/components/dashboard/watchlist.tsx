@@ -1,14 +1,172 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import GlassPanel from "./glass-panel";
-import { Search, Plus, TrendingUp, TrendingDown } from "lucide-react";
+import OrderTicketDialog from "./order-ticket";
+import SymbolPicker from "./symbol-picker";
+import {
+  Search,
+  Plus,
+  TrendingUp,
+  TrendingDown,
+  GripVertical,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  X,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import type { Stock } from "@shared/schema";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, invalidateApiQueries, queryClient } from "@/lib/queryClient";
+import type { Stock, WatchlistWithItems } from "@shared/schema";
+
+const WATCHLISTS_KEY = ["/api/me/watchlists"];
 
 interface WatchlistProps {
   stocks: Stock[];
 }
 
+type NameDialog = { mode: "create" } | { mode: "rename"; watchlist: WatchlistWithItems };
+
+// Moves `from` to the slot currently held by `to`
+function moveSymbol(symbols: string[], from: string, to: string): string[] {
+  const next = symbols.filter((symbol) => symbol !== from);
+  next.splice(symbols.indexOf(to), 0, from);
+  return next;
+}
+
 export default function Watchlist({ stocks }: WatchlistProps) {
+  const { toast } = useToast();
+  const [tradeSymbol, setTradeSymbol] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null);
+  const [nameDraft, setNameDraft] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<WatchlistWithItems | null>(null);
+  const [dragSymbol, setDragSymbol] = useState<string | null>(null);
+
+  const { data: watchlists = [], isLoading } = useQuery<WatchlistWithItems[]>({
+    queryKey: WATCHLISTS_KEY,
+  });
+
+  // Fall back to the first list when the active one is deleted or not chosen yet
+  const active = watchlists.find((watchlist) => watchlist.id === activeId) ?? watchlists[0];
+  useEffect(() => {
+    if (active && active.id !== activeId) setActiveId(active.id);
+  }, [active, activeId]);
+
+  const onError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const saveName = useMutation({
+    mutationFn: async ({ dialog, name }: { dialog: NameDialog; name: string }) => {
+      const res =
+        dialog.mode === "create"
+          ? await apiRequest("POST", "/api/me/watchlists", { name })
+          : await apiRequest("PATCH", `/api/me/watchlists/${dialog.watchlist.id}`, { name });
+      return (await res.json()) as WatchlistWithItems;
+    },
+    onSuccess: (watchlist) => {
+      invalidateApiQueries("/api/me/watchlists");
+      setActiveId(watchlist.id);
+      setNameDialog(null);
+    },
+    onError: onError("Could not save watchlist"),
+  });
+
+  const deleteWatchlist = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/me/watchlists/${id}`);
+    },
+    onSuccess: () => invalidateApiQueries("/api/me/watchlists"),
+    onError: onError("Could not delete watchlist"),
+    onSettled: () => setPendingDelete(null),
+  });
+
+  const addSymbol = useMutation({
+    mutationFn: async ({ id, symbol }: { id: number; symbol: string }) => {
+      await apiRequest("POST", `/api/me/watchlists/${id}/items`, { symbol });
+    },
+    onSuccess: () => invalidateApiQueries("/api/me/watchlists"),
+    onError: onError("Could not add symbol"),
+  });
+
+  const removeSymbol = useMutation({
+    mutationFn: async ({ id, symbol }: { id: number; symbol: string }) => {
+      await apiRequest("DELETE", `/api/me/watchlists/${id}/items/${encodeURIComponent(symbol)}`);
+    },
+    onSuccess: () => invalidateApiQueries("/api/me/watchlists"),
+    onError: onError("Could not remove symbol"),
+  });
+
+  // Reorders optimistically and rolls back if the server refuses
+  const reorderSymbols = useMutation({
+    mutationFn: async ({ id, symbols }: { id: number; symbols: string[] }) => {
+      await apiRequest("PUT", `/api/me/watchlists/${id}/items/order`, { symbols });
+    },
+    onMutate: async ({ id, symbols }) => {
+      await queryClient.cancelQueries({ queryKey: WATCHLISTS_KEY });
+      const previous = queryClient.getQueryData<WatchlistWithItems[]>(WATCHLISTS_KEY);
+      queryClient.setQueryData<WatchlistWithItems[]>(WATCHLISTS_KEY, (lists) =>
+        lists?.map((list) => {
+          if (list.id !== id) return list;
+          const bySymbol = new Map(list.items.map((item) => [item.symbol, item]));
+          return {
+            ...list,
+            items: symbols.map((symbol, position) => ({ ...bySymbol.get(symbol)!, position })),
+          };
+        }),
+      );
+      return { previous };
+    },
+    onError: (error: Error, _variables, context) => {
+      queryClient.setQueryData(WATCHLISTS_KEY, context?.previous);
+      onError("Could not reorder symbols")(error);
+    },
+    onSettled: () => invalidateApiQueries("/api/me/watchlists"),
+  });
+
+  const openNameDialog = (dialog: NameDialog) => {
+    setNameDraft(dialog.mode === "rename" ? dialog.watchlist.name : "");
+    setNameDialog(dialog);
+  };
+
+  const submitName = (event: FormEvent) => {
+    event.preventDefault();
+    const name = nameDraft.trim();
+    if (nameDialog && name) saveName.mutate({ dialog: nameDialog, name });
+  };
+
+  const dropOn = (target: string) => {
+    if (!active || !dragSymbol || dragSymbol === target) return;
+    const symbols = active.items.map((item) => item.symbol);
+    reorderSymbols.mutate({ id: active.id, symbols: moveSymbol(symbols, dragSymbol, target) });
+  };
+
   const getGradientColor = (symbol: string) => {
     const gradients = {
       'AAPL': 'from-blue-500 to-blue-600',
@@ -19,30 +177,77 @@ export default function Watchlist({ stocks }: WatchlistProps) {
     return gradients[symbol as keyof typeof gradients] || 'from-gray-500 to-gray-600';
   };
 
+  const quotes = new Map(stocks.map((stock) => [stock.symbol, stock]));
+  const rows = active?.items ?? [];
+
   return (
     <GlassPanel>
-      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-4">
         <h3 className="text-xl font-semibold text-white mb-4 md:mb-0">Market Watchlist</h3>
-        <div className="flex items-center gap-4">
-          <div className="glass-morphism-dark rounded-lg px-4 py-2 flex items-center gap-2">
-            <Search className="w-4 h-4 text-slate-400" />
-            <Input
-              type="text"
-              placeholder="Search symbols..."
-              className="bg-transparent text-white placeholder:text-slate-400 border-none outline-none text-sm w-32 md:w-40 p-0 h-auto focus-visible:ring-0"
-            />
-          </div>
-          <Button
-            variant="ghost"
-            size="sm"
-            className="glass-morphism-dark text-white hover:bg-white/20"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Add Symbol
-          </Button>
-        </div>
+        <SymbolPicker
+          onSelect={(security) => active && addSymbol.mutate({ id: active.id, symbol: security.symbol })}
+          disabledReason={(security) =>
+            active?.items.some((item) => item.symbol === security.symbol) ? "Watching" : undefined}
+          trigger={
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={!active || addSymbol.isPending}
+              className="glass-morphism-dark text-white hover:bg-white/20"
+            >
+              <Search className="w-4 h-4 mr-2 text-slate-400" />
+              Search symbols...
+              <Plus className="w-4 h-4 ml-4" />
+            </Button>
+          }
+        />
+      </div>
+
+      <div className="flex items-center gap-2 mb-6">
+        <Tabs
+          value={active ? String(active.id) : undefined}
+          onValueChange={(value) => setActiveId(parseInt(value))}
+          className="min-w-0 overflow-x-auto"
+        >
+          <TabsList className="glass-morphism-dark">
+            {watchlists.map((watchlist) => (
+              <TabsTrigger key={watchlist.id} value={String(watchlist.id)}>
+                {watchlist.name}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-slate-300 hover:text-white hover:bg-white/10"
+          onClick={() => openNameDialog({ mode: "create" })}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          New List
+        </Button>
+        {active && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="ml-auto text-slate-300 hover:text-white hover:bg-white/10">
+                <MoreHorizontal className="w-4 h-4" />
+                <span className="sr-only">Watchlist options</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => openNameDialog({ mode: "rename", watchlist: active })}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem className="text-red-500" onSelect={() => setPendingDelete(active)}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
       </div>
-      
+
       <div className="overflow-x-auto">
         <div className="min-w-full">
           <div className="grid grid-cols-6 gap-4 pb-4 border-b border-white/10 text-slate-300 text-sm font-medium">
@@ -53,43 +258,122 @@ export default function Watchlist({ stocks }: WatchlistProps) {
             <div>Market Cap</div>
             <div>Action</div>
           </div>
-          
-          {stocks.map((stock) => {
-            const isPositive = parseFloat(stock.changePercent) >= 0;
+
+          {rows.map((item) => {
+            const stock = quotes.get(item.symbol);
+            const isPositive = stock ? parseFloat(stock.changePercent) >= 0 : true;
             return (
-              <div key={stock.symbol} className="grid grid-cols-6 gap-4 py-4 border-b border-white/5 hover:bg-white/5 transition-colors">
+              <div
+                key={item.symbol}
+                draggable
+                onDragStart={() => setDragSymbol(item.symbol)}
+                onDragOver={(event) => event.preventDefault()}
+                onDrop={() => dropOn(item.symbol)}
+                onDragEnd={() => setDragSymbol(null)}
+                className={`grid grid-cols-6 gap-4 py-4 border-b border-white/5 hover:bg-white/5 transition-colors ${dragSymbol === item.symbol ? 'opacity-50' : ''}`}
+              >
                 <div className="flex items-center gap-3">
-                  <div className={`w-8 h-8 rounded-full bg-gradient-to-br ${getGradientColor(stock.symbol)} flex items-center justify-center text-white text-xs font-bold`}>
-                    {stock.symbol.charAt(0)}
-                  </div>
-                  <div>
-                    <div className="text-white font-medium text-sm">{stock.symbol}</div>
-                    <div className="text-slate-400 text-xs">{stock.name}</div>
+                  <GripVertical className="w-4 h-4 text-slate-500 cursor-grab shrink-0" />
+                  <div className={`w-8 h-8 rounded-full bg-gradient-to-br ${getGradientColor(item.symbol)} flex items-center justify-center text-white text-xs font-bold shrink-0`}>
+                    {item.symbol.charAt(0)}
                   </div>
+                  <Link href={`/stocks/${item.symbol}`} draggable={false} className="hover:underline">
+                    <div className="text-white font-medium text-sm">{item.symbol}</div>
+                    <div className="text-slate-400 text-xs">{stock?.name ?? "—"}</div>
+                  </Link>
                 </div>
-                <div className="text-white font-semibold">${stock.price}</div>
-                <div className="flex items-center gap-1">
-                  {isPositive ? <TrendingUp className="w-3 h-3 text-green-400" /> : <TrendingDown className="w-3 h-3 text-red-400" />}
-                  <span className={`font-medium ${isPositive ? 'text-green-400' : 'text-red-400'}`}>
-                    {isPositive ? '+' : ''}{stock.changePercent}%
-                  </span>
-                </div>
-                <div className="text-slate-300">{(stock.volume / 1000000).toFixed(1)}M</div>
-                <div className="text-slate-300">{stock.marketCap}</div>
-                <div>
+                <div className="text-white font-semibold">{stock ? `$${stock.price}` : "—"}</div>
+                {stock ? (
+                  <div className="flex items-center gap-1">
+                    {isPositive ? <TrendingUp className="w-3 h-3 text-green-400" /> : <TrendingDown className="w-3 h-3 text-red-400" />}
+                    <span className={`font-medium ${isPositive ? 'text-green-400' : 'text-red-400'}`}>
+                      {isPositive ? '+' : ''}{stock.changePercent}%
+                    </span>
+                  </div>
+                ) : (
+                  <div className="text-slate-400">—</div>
+                )}
+                <div className="text-slate-300">{stock ? `${(stock.volume / 1000000).toFixed(1)}M` : "—"}</div>
+                <div className="text-slate-300">{stock?.marketCap ?? "—"}</div>
+                <div className="flex items-center gap-2">
                   <Button
                     variant="ghost"
                     size="sm"
-                    className={`glass-morphism-dark text-white hover:bg-white/20 text-xs px-3 py-1 h-auto ${stock.symbol === 'AAPL' ? 'pulse-glow' : ''}`}
+                    disabled={!stock}
+                    className="glass-morphism-dark text-white hover:bg-white/20 text-xs px-3 py-1 h-auto"
+                    onClick={() => setTradeSymbol(item.symbol)}
                   >
                     Trade
                   </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-slate-400 hover:text-white hover:bg-white/10"
+                    onClick={() => active && removeSymbol.mutate({ id: active.id, symbol: item.symbol })}
+                  >
+                    <X className="w-4 h-4" />
+                    <span className="sr-only">Remove {item.symbol}</span>
+                  </Button>
                 </div>
               </div>
             );
           })}
+
+          {!isLoading && rows.length === 0 && (
+            <div className="py-8 text-center text-slate-400 text-sm">
+              {active
+                ? "This watchlist is empty. Search for a symbol to add it."
+                : "Create a watchlist to start tracking symbols."}
+            </div>
+          )}
         </div>
       </div>
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent>
+          <form onSubmit={submitName}>
+            <DialogHeader>
+              <DialogTitle>{nameDialog?.mode === "rename" ? "Rename watchlist" : "New watchlist"}</DialogTitle>
+            </DialogHeader>
+            <Input
+              autoFocus
+              value={nameDraft}
+              onChange={(event) => setNameDraft(event.target.value)}
+              placeholder="Watchlist name"
+              maxLength={40}
+              className="my-4"
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={!nameDraft.trim() || saveName.isPending}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The list and its symbols are removed. Your holdings are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingDelete && deleteWatchlist.mutate(pendingDelete.id)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <OrderTicketDialog
+        open={tradeSymbol !== null}
+        onOpenChange={(open) => !open && setTradeSymbol(null)}
+        defaultSymbol={tradeSymbol ?? undefined}
+      />
     </GlassPanel>
   );
 }
@@ -0,0 +1,68 @@
+import { createContext, useCallback, useContext, useEffect, useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import type { Portfolio } from "@shared/schema";
+
+const STORAGE_KEY = "selectedAccount";
+
+type AccountContextType = {
+  accounts: Portfolio[];
+  // The account the dashboard shows, or null for the household of all accounts
+  account: Portfolio | null;
+  selectAccount: (portfolioId: number | null) => void;
+  // Adds the selected account to a portfolio API URL
+  scoped: (url: string) => string;
+};
+
+const AccountContext = createContext<AccountContextType | null>(null);
+
+function readSelection(): number | null {
+  const saved = Number(localStorage.getItem(STORAGE_KEY));
+  return Number.isInteger(saved) && saved > 0 ? saved : null;
+}
+
+export function AccountProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [portfolioId, setPortfolioId] = useState<number | null>(readSelection);
+
+  const { data: accounts } = useQuery<Portfolio[]>({
+    queryKey: ["/api/me/portfolios"],
+    enabled: !!user,
+  });
+
+  // A selection the user no longer owns falls back to the household view
+  const account = accounts?.find((candidate) => candidate.id === portfolioId) ?? null;
+  useEffect(() => {
+    if (accounts && portfolioId !== null && !account) {
+      setPortfolioId(null);
+    }
+  }, [accounts, portfolioId, account]);
+
+  const selectAccount = useCallback((id: number | null) => {
+    setPortfolioId(id);
+    if (id === null) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, String(id));
+    }
+  }, []);
+
+  const scoped = useCallback(
+    (url: string) => (account ? `${url}${url.includes("?") ? "&" : "?"}portfolioId=${account.id}` : url),
+    [account],
+  );
+
+  return (
+    <AccountContext.Provider value={{ accounts: accounts ?? [], account, selectAccount, scoped }}>
+      {children}
+    </AccountContext.Provider>
+  );
+}
+
+export function useAccount() {
+  const context = useContext(AccountContext);
+  if (!context) {
+    throw new Error("useAccount must be used within an AccountProvider");
+  }
+  return context;
+}
@@ -0,0 +1,80 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { InsertUser, LoginCredentials, SafeUser } from "@shared/schema";
+
+type AuthContextType = {
+  user: SafeUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<SafeUser, Error, LoginCredentials>;
+  registerMutation: UseMutationResult<SafeUser, Error, InsertUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<SafeUser | null>({
+    queryKey: ["/api/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginCredentials) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as SafeUser;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/me"], user);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Login failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (newUser: InsertUser) => {
+      const res = await apiRequest("POST", "/api/register", newUser);
+      return (await res.json()) as SafeUser;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/me"], user);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Registration failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // Drop every cached response so the next user starts clean
+      queryClient.clear();
+      queryClient.setQueryData(["/api/me"], null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Logout failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{ user: user ?? null, isLoading, loginMutation, registerMutation, logoutMutation }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,61 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { QuoteStreamClientMessage, QuoteStreamServerMessage, Stock } from "@shared/schema";
+
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+// Replaces matching rows in the cached /api/stocks list with streamed quotes.
+function patchStocks(updates: Stock[]) {
+  queryClient.setQueryData<Stock[]>(["/api/stocks"], (stocks) => {
+    if (!stocks) return stocks;
+    const bySymbol = new Map(updates.map((stock) => [stock.symbol, stock]));
+    return stocks.map((stock) => bySymbol.get(stock.symbol) ?? stock);
+  });
+}
+
+// Subscribes to live quotes for the given symbols over /ws and keeps the
+// React Query cache current, reconnecting with backoff when the socket drops.
+export function useQuoteStream(symbols: string[]) {
+  const key = [...symbols].sort().join(",");
+
+  useEffect(() => {
+    if (!key) return;
+
+    let socket: WebSocket | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        attempts = 0;
+        const message: QuoteStreamClientMessage = { type: "subscribe", symbols: key.split(",") };
+        socket?.send(JSON.stringify(message));
+      };
+
+      socket.onmessage = (event) => {
+        const message = JSON.parse(event.data) as QuoteStreamServerMessage;
+        if (message.type === "quotes") {
+          patchStocks(message.stocks);
+        }
+      };
+
+      socket.onclose = () => {
+        if (closed) return;
+        const delay = Math.min(1000 * 2 ** attempts++, MAX_RECONNECT_DELAY_MS);
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [key]);
+}
@@ -0,0 +1,23 @@
+import type { ComponentType } from "react";
+import { Redirect, Route } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export function ProtectedRoute({ path, component: Component }: { path: string; component: ComponentType }) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="fixed inset-0 gradient-bg -z-10" />
+          <Loader2 className="w-8 h-8 text-white animate-spin" />
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/auth" />
+      )}
+    </Route>
+  );
+}
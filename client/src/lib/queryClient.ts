@@ -55,3 +55,12 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Invalidates every cached query whose URL starts with one of the prefixes,
+// so "/api/me/portfolio" also refreshes "/api/me/portfolio/history?range=1M".
+export function invalidateApiQueries(...prefixes: string[]) {
+  return queryClient.invalidateQueries({
+    predicate: (query) =>
+      prefixes.some((prefix) => String(query.queryKey[0]).startsWith(prefix)),
+  });
+}
@@ -0,0 +1,128 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Redirect } from "wouter";
+import { Activity } from "lucide-react";
+import GlassPanel from "@/components/dashboard/glass-panel";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { insertUserSchema, loginSchema, type InsertUser, type LoginCredentials } from "@shared/schema";
+
+const inputClassName = "bg-white/10 border-white/20 text-white placeholder:text-slate-400";
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  const loginForm = useForm<LoginCredentials>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const registerForm = useForm<InsertUser>({
+    resolver: zodResolver(insertUserSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen relative flex items-center justify-center p-4">
+      <div className="fixed inset-0 gradient-bg -z-10" />
+
+      <GlassPanel className="w-full max-w-md">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 rounded-full glass-morphism flex items-center justify-center">
+            <Activity className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-white">Financial Analytics</h1>
+            <p className="text-slate-200 text-sm">Sign in to manage your portfolio</p>
+          </div>
+        </div>
+
+        <Tabs defaultValue="login">
+          <TabsList className="grid grid-cols-2 w-full glass-morphism-dark mb-6">
+            <TabsTrigger value="login">Sign In</TabsTrigger>
+            <TabsTrigger value="register">Create Account</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="login">
+            <Form {...loginForm}>
+              <form onSubmit={loginForm.handleSubmit((values) => loginMutation.mutate(values))} className="space-y-4 text-white">
+                <FormField
+                  control={loginForm.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="username" className={inputClassName} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={loginForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="current-password" className={inputClassName} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full bg-blue-500 hover:bg-blue-600" disabled={loginMutation.isPending}>
+                  {loginMutation.isPending ? "Signing in…" : "Sign In"}
+                </Button>
+              </form>
+            </Form>
+          </TabsContent>
+
+          <TabsContent value="register">
+            <Form {...registerForm}>
+              <form onSubmit={registerForm.handleSubmit((values) => registerMutation.mutate(values))} className="space-y-4 text-white">
+                <FormField
+                  control={registerForm.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="username" className={inputClassName} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={registerForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" className={inputClassName} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full bg-blue-500 hover:bg-blue-600" disabled={registerMutation.isPending}>
+                  {registerMutation.isPending ? "Creating account…" : "Create Account"}
+                </Button>
+              </form>
+            </Form>
+          </TabsContent>
+        </Tabs>
+      </GlassPanel>
+    </div>
+  );
+}
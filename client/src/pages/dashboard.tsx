@@ -3,26 +3,50 @@ import GlassPanel from "@/components/dashboard/glass-panel";
 import KPICard from "@/components/dashboard/kpi-card";
 import PortfolioChart from "@/components/dashboard/portfolio-chart";
 import AllocationChart from "@/components/dashboard/allocation-chart";
+import Holdings from "@/components/dashboard/holdings";
+import RiskReturn from "@/components/dashboard/risk-return";
+import OpenOrders from "@/components/dashboard/open-orders";
 import MarketOverview from "@/components/dashboard/market-overview";
 import RecentTransactions from "@/components/dashboard/recent-transactions";
 import Watchlist from "@/components/dashboard/watchlist";
 import QuickActions from "@/components/dashboard/quick-actions";
-import { Wallet, TrendingUp, Target, Activity } from "lucide-react";
-import type { Portfolio, Stock, Transaction } from "@shared/schema";
+import AccountSwitcher from "@/components/dashboard/account-switcher";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { useAccount } from "@/hooks/use-account";
+import { useQuoteStream } from "@/hooks/use-quote-stream";
+import { Wallet, TrendingUp, Target, Activity, LogOut, Banknote } from "lucide-react";
+import { Decimal, formatMoney, percentOf } from "@shared/decimal";
+import type { PortfolioMetrics, PortfolioSummary, Stock, Transaction } from "@shared/schema";
 
 export default function Dashboard() {
-  const { data: portfolio } = useQuery<Portfolio>({
-    queryKey: ["/api/portfolio/1"],
+  const { user, logoutMutation } = useAuth();
+  const { scoped } = useAccount();
+
+  const { data: portfolio } = useQuery<PortfolioSummary>({
+    queryKey: [scoped("/api/me/portfolio")],
+  });
+
+  // Shares its cache with the Risk & Return panel's default range
+  const { data: metrics } = useQuery<PortfolioMetrics>({
+    queryKey: [scoped("/api/me/portfolio/metrics?range=1Y")],
   });
 
-  const { data: stocks } = useQuery<Stock[]>({
+  const { data: stocks, dataUpdatedAt: stocksUpdatedAt } = useQuery<Stock[]>({
     queryKey: ["/api/stocks"],
   });
 
+  useQuoteStream(stocks?.map((stock) => stock.symbol) ?? []);
+
   const { data: transactions } = useQuery<Transaction[]>({
-    queryKey: ["/api/transactions/1"],
+    queryKey: [scoped("/api/me/transactions")],
   });
 
+  const dailyPnL = Decimal.from(portfolio?.dailyPnL ?? 0);
+  const dailyPnLSign = dailyPnL.isNegative() ? "-" : "+";
+  const cash = Decimal.from(portfolio?.cashBalance ?? 0);
+  const yearReturn = metrics?.timeWeightedReturn ?? null;
+
   return (
     <div className="min-h-screen relative">
       {/* Animated gradient background */}
@@ -41,14 +65,18 @@ export default function Dashboard() {
               </p>
             </div>
             <div className="flex flex-col md:flex-row items-start md:items-center gap-4">
+              <AccountSwitcher />
               <div className="glass-morphism-dark rounded-xl px-4 py-2">
                 <span className="text-slate-300 text-sm">Last Updated: </span>
                 <span className="text-white font-medium">
-                  {new Date().toLocaleTimeString('en-US', {
+                  {new Date(stocksUpdatedAt || Date.now()).toLocaleTimeString('en-US', {
                     hour: 'numeric',
                     minute: '2-digit',
-                    hour12: true
-                  })} EST
+                    second: '2-digit',
+                    hour12: true,
+                    timeZone: 'America/New_York',
+                    timeZoneName: 'short'
+                  })}
                 </span>
               </div>
               <div className="flex items-center gap-3">
@@ -56,46 +84,64 @@ export default function Dashboard() {
                   <Activity className="w-5 h-5 text-white" />
                 </div>
                 <div className="text-white">
-                  <div className="font-medium">John Portfolio</div>
+                  <div className="font-medium">{user?.username}</div>
                   <div className="text-xs text-slate-300">Premium Account</div>
                 </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-white hover:bg-white/20"
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  title="Sign out"
+                >
+                  <LogOut className="w-4 h-4" />
+                </Button>
               </div>
             </div>
           </div>
         </GlassPanel>
 
         {/* KPI Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-6 mb-8">
           <KPICard
             icon={<Wallet className="w-6 h-6 text-white" />}
             title="Total Portfolio"
-            value={portfolio ? `$${parseFloat(portfolio.totalValue).toLocaleString()}` : "$847,293"}
-            change="+12.5%"
-            isPositive={true}
+            value={portfolio ? formatMoney(portfolio.totalValue) : "—"}
+            change={yearReturn !== null ? `${parseFloat(yearReturn) >= 0 ? "+" : ""}${yearReturn}% 1Y` : ""}
+            isPositive={yearReturn === null || parseFloat(yearReturn) >= 0}
             gradient="from-blue-500 to-blue-600"
           />
+          <KPICard
+            icon={<Banknote className="w-6 h-6 text-white" />}
+            title="Cash"
+            value={portfolio ? formatMoney(cash) : "—"}
+            change={portfolio ? `${percentOf(cash, portfolio.totalValue)}% of account` : ""}
+            isPositive={!cash.isNegative()}
+            gradient="from-teal-500 to-cyan-600"
+          />
           <KPICard
             icon={<TrendingUp className="w-6 h-6 text-white" />}
             title="Today's P&L"
-            value={portfolio ? `+$${parseFloat(portfolio.dailyPnL).toLocaleString()}` : "+$4,832.50"}
-            change={portfolio ? `+$${parseFloat(portfolio.dailyPnL).toFixed(2)}` : "+$4,832"}
-            isPositive={true}
+            value={portfolio ? formatMoney(dailyPnL, { signed: true }) : "—"}
+            change={portfolio ? `${dailyPnLSign}${Math.abs(parseFloat(portfolio.dailyPnLPercent)).toFixed(2)}%` : ""}
+            isPositive={!dailyPnL.isNegative()}
             gradient="from-green-500 to-emerald-600"
           />
           <KPICard
             icon={<Activity className="w-6 h-6 text-white" />}
             title="Active Positions"
-            value={portfolio?.activePositions?.toString() || "24"}
-            change="24 Active"
+            value={portfolio?.activePositions?.toString() || "—"}
+            change={portfolio ? `${portfolio.activePositions} Active` : ""}
             isPositive={true}
             gradient="from-purple-500 to-purple-600"
           />
           <KPICard
             icon={<Target className="w-6 h-6 text-white" />}
             title="Success Rate"
-            value={portfolio ? `${parseFloat(portfolio.successRate).toFixed(1)}%` : "78.6%"}
-            change="High"
-            isPositive={true}
+            value={portfolio ? `${parseFloat(portfolio.successRate).toFixed(1)}%` : "—"}
+            change={portfolio ? `${portfolio.winningTrades}/${portfolio.closedTrades} wins` : ""}
+            isPositive={portfolio ? parseFloat(portfolio.successRate) >= 50 : true}
             gradient="from-orange-500 to-red-500"
           />
         </div>
@@ -105,6 +151,9 @@ export default function Dashboard() {
           {/* Left Column - Charts */}
           <div className="lg:col-span-2 space-y-6">
             <PortfolioChart />
+            <RiskReturn />
+            <Holdings />
+            <OpenOrders />
             <MarketOverview stocks={stocks || []} />
           </div>
 
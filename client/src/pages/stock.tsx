@@ -0,0 +1,354 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import GlassPanel from "@/components/dashboard/glass-panel";
+import CandlestickChart from "@/components/dashboard/candlestick-chart";
+import OrderTicketDialog from "@/components/dashboard/order-ticket";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAccount } from "@/hooks/use-account";
+import { useQuoteStream } from "@/hooks/use-quote-stream";
+import { ArrowLeft, TrendingDown, TrendingUp } from "lucide-react";
+import { Decimal, formatMoney, formatShares } from "@shared/decimal";
+import {
+  transactionTypeLabels,
+  type BarInterval,
+  type Holding,
+  type PositionLots,
+  type PriceBar,
+  type Stock,
+  type StockStats,
+  type TransactionPage,
+  type TransactionType,
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ChartRange = "1M" | "3M" | "6M" | "1Y";
+
+// Daily candles up to six months, weekly ones for the year
+const chartRanges: { value: ChartRange; days: number; interval: BarInterval }[] = [
+  { value: "1M", days: 30, interval: "1d" },
+  { value: "3M", days: 91, interval: "1d" },
+  { value: "6M", days: 182, interval: "1d" },
+  { value: "1Y", days: 365, interval: "1w" },
+];
+
+function formatVolume(volume: number | null): string {
+  if (volume === null) return "—";
+  if (volume >= 1_000_000) return `${(volume / 1_000_000).toFixed(2)}M`;
+  if (volume >= 1_000) return `${(volume / 1_000).toFixed(1)}K`;
+  return String(volume);
+}
+
+function formatRange(low: string | null, high: string | null): string {
+  return low && high ? `${formatMoney(low)} – ${formatMoney(high)}` : "—";
+}
+
+// Where the price sits between a range's low and high, as a bar
+function RangeBar({ label, low, high, price }: { label: string; low: string | null; high: string | null; price: string | undefined }) {
+  const span = low && high ? Decimal.from(high).minus(low) : Decimal.ZERO;
+  const position = low && price && span.isPositive()
+    ? Math.min(Math.max(Decimal.from(price).minus(low).div(span).toNumber() * 100, 0), 100)
+    : null;
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-2">
+        <span className="text-slate-300">{label}</span>
+        <span className="text-white">{formatRange(low, high)}</span>
+      </div>
+      <div className="relative h-1 rounded-full bg-slate-700/50">
+        {position !== null && (
+          <div
+            className="absolute -top-1 w-3 h-3 rounded-full bg-blue-400 border-2 border-white"
+            style={{ left: `calc(${position}% - 6px)` }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function StockDetail() {
+  const params = useParams<{ symbol: string }>();
+  const symbol = params.symbol.toUpperCase();
+  const [range, setRange] = useState<ChartRange>("3M");
+  const [trading, setTrading] = useState(false);
+  const { account, scoped } = useAccount();
+
+  const { data: stocks } = useQuery<Stock[]>({
+    queryKey: ["/api/stocks"],
+  });
+  useQuoteStream([symbol]);
+  const stock = stocks?.find((candidate) => candidate.symbol === symbol);
+
+  const chartRange = chartRanges.find((option) => option.value === range)!;
+  // Rounded to the day so the bars query key stays stable between renders
+  const from = new Date(Math.floor((Date.now() - chartRange.days * DAY_MS) / DAY_MS) * DAY_MS).toISOString();
+  const { data: bars, isLoading: barsLoading } = useQuery<PriceBar[]>({
+    queryKey: [`/api/stocks/${symbol}/bars?interval=${chartRange.interval}&from=${from}`],
+    enabled: !!stock,
+  });
+
+  const { data: stats } = useQuery<StockStats>({
+    queryKey: [`/api/stocks/${symbol}/stats`],
+    enabled: !!stock,
+    refetchInterval: 60 * 1000,
+  });
+
+  const { data: holdings } = useQuery<Holding[]>({
+    queryKey: [scoped("/api/me/positions")],
+  });
+  const holding = holdings?.find((candidate) => candidate.symbol === symbol && Decimal.from(candidate.quantity).isPositive());
+
+  const { data: positionLots } = useQuery<PositionLots>({
+    queryKey: [scoped(`/api/me/positions/${symbol}/lots`)],
+    enabled: !!holding,
+  });
+
+  const { data: history } = useQuery<TransactionPage>({
+    queryKey: [scoped(`/api/me/transactions?symbol=${encodeURIComponent(symbol)}&limit=50`)],
+  });
+  const transactions = history?.transactions ?? [];
+
+  if (stocks && !stock) {
+    return (
+      <div className="min-h-screen relative">
+        <div className="fixed inset-0 gradient-bg -z-10" />
+        <div className="p-4 md:p-6 lg:p-8">
+          <GlassPanel className="text-center space-y-4">
+            <h1 className="text-2xl font-bold text-white">{symbol} is not quoted</h1>
+            <p className="text-slate-300 text-sm">There is no market data for this symbol.</p>
+            <Button asChild variant="ghost" className="glass-morphism-dark text-white hover:bg-white/20">
+              <Link href="/">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Dashboard
+              </Link>
+            </Button>
+          </GlassPanel>
+        </div>
+      </div>
+    );
+  }
+
+  const isPositive = stock ? parseFloat(stock.changePercent) >= 0 : true;
+  const unrealized = Decimal.from(holding?.unrealizedPnL ?? 0);
+
+  return (
+    <div className="min-h-screen relative">
+      <div className="fixed inset-0 gradient-bg -z-10" />
+
+      <div className="p-4 md:p-6 lg:p-8 space-y-6">
+        <GlassPanel className="floating-panel">
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-white mb-2">
+                {symbol}
+                <span className="text-slate-300 text-lg font-normal ml-3">{stock?.name}</span>
+              </h1>
+              {stock && (
+                <div className="flex items-baseline gap-3">
+                  <span className="text-3xl font-semibold text-white">${stock.price}</span>
+                  <span className={`flex items-center gap-1 font-medium ${isPositive ? "text-green-400" : "text-red-400"}`}>
+                    {isPositive ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+                    {isPositive ? "+" : ""}{stock.change} ({isPositive ? "+" : ""}{stock.changePercent}%)
+                  </span>
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Button className="bg-blue-500 hover:bg-blue-600" disabled={!stock} onClick={() => setTrading(true)}>
+                Trade
+              </Button>
+              <Button asChild variant="ghost" className="glass-morphism-dark text-white hover:bg-white/20">
+                <Link href="/">
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Dashboard
+                </Link>
+              </Button>
+            </div>
+          </div>
+        </GlassPanel>
+
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          <GlassPanel className="xl:col-span-2">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-xl font-semibold text-white">Price</h3>
+              <div className="flex items-center gap-2">
+                {chartRanges.map((option) => (
+                  <Button
+                    key={option.value}
+                    variant="ghost"
+                    size="sm"
+                    className={option.value === range ? "text-white bg-blue-500/30 hover:bg-blue-500/40" : "text-white hover:bg-white/20"}
+                    onClick={() => setRange(option.value)}
+                  >
+                    {option.value}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="h-72 md:h-96">
+              {barsLoading ? (
+                <div className="h-full flex items-center justify-center text-slate-400 text-sm">Loading bars…</div>
+              ) : bars && bars.length > 0 ? (
+                <CandlestickChart bars={bars} interval={chartRange.interval} />
+              ) : (
+                <div className="h-full flex items-center justify-center text-slate-400 text-sm">No price history yet</div>
+              )}
+            </div>
+          </GlassPanel>
+
+          <GlassPanel>
+            <h3 className="text-xl font-semibold text-white mb-6">Key Stats</h3>
+            <div className="space-y-6">
+              <RangeBar label="Day range" low={stats?.dayLow ?? null} high={stats?.dayHigh ?? null} price={stock?.price} />
+              <RangeBar
+                label="52-week range"
+                low={stats?.fiftyTwoWeekLow ?? null}
+                high={stats?.fiftyTwoWeekHigh ?? null}
+                price={stock?.price}
+              />
+              <div className="space-y-3 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-slate-300">Open</span>
+                  <span className="text-white">{stats?.open ? formatMoney(stats.open) : "—"}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-300">Previous close</span>
+                  <span className="text-white">{stats?.previousClose ? formatMoney(stats.previousClose) : "—"}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-300">Volume</span>
+                  <span className="text-white">{stock ? formatVolume(stock.volume) : "—"}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-300">
+                    Avg volume{stats && stats.averageVolumeSessions > 0 ? ` (${stats.averageVolumeSessions}d)` : ""}
+                  </span>
+                  <span className="text-white">{formatVolume(stats?.averageVolume ?? null)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-300">Market cap</span>
+                  <span className="text-white">{stock?.marketCap ?? "—"}</span>
+                </div>
+              </div>
+            </div>
+          </GlassPanel>
+        </div>
+
+        <GlassPanel>
+          <h3 className="text-xl font-semibold text-white mb-4">
+            Your Position
+            <span className="text-slate-400 text-sm font-normal ml-2">{account ? account.name : "All accounts"}</span>
+          </h3>
+          {!holding ? (
+            <div className="py-8 text-center text-slate-400 text-sm">You don't hold {symbol}</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                {[
+                  ["Shares", formatShares(holding.quantity)],
+                  ["Avg cost", formatMoney(holding.averageCost)],
+                  ["Market value", formatMoney(holding.marketValue)],
+                ].map(([label, value]) => (
+                  <div key={label} className="glass-morphism-dark rounded-xl p-4">
+                    <div className="text-slate-300 text-xs mb-1">{label}</div>
+                    <div className="text-white font-semibold">{value}</div>
+                  </div>
+                ))}
+                <div className="glass-morphism-dark rounded-xl p-4">
+                  <div className="text-slate-300 text-xs mb-1">Unrealized</div>
+                  <div className={`font-semibold ${unrealized.isNegative() ? "text-red-400" : "text-green-400"}`}>
+                    {formatMoney(unrealized, { signed: true })} ({holding.unrealizedPnLPercent}%)
+                  </div>
+                </div>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-white/10 hover:bg-transparent">
+                    <TableHead className="text-slate-300">Lot opened</TableHead>
+                    <TableHead className="text-slate-300 text-right">Shares</TableHead>
+                    <TableHead className="text-slate-300 text-right">Cost / Share</TableHead>
+                    <TableHead className="text-slate-300 text-right">Cost Basis</TableHead>
+                    <TableHead className="text-slate-300 text-right">Unrealized</TableHead>
+                    <TableHead className="text-slate-300">Term</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {positionLots?.lots.map((lot) => {
+                    const gain = Decimal.from(lot.unrealizedGain);
+                    return (
+                      <TableRow key={lot.lotId} className="border-white/5 hover:bg-white/5">
+                        <TableCell className="text-slate-300">{new Date(lot.openedAt).toLocaleDateString()}</TableCell>
+                        <TableCell className="text-white text-right">
+                          {formatShares(lot.remaining)}
+                          {lot.remaining !== lot.shares && <span className="text-slate-400"> / {formatShares(lot.shares)}</span>}
+                        </TableCell>
+                        <TableCell className="text-slate-300 text-right">{formatMoney(lot.costPerShare)}</TableCell>
+                        <TableCell className="text-slate-300 text-right">{formatMoney(lot.costBasis)}</TableCell>
+                        <TableCell className={`text-right font-medium ${gain.isNegative() ? "text-red-400" : "text-green-400"}`}>
+                          {formatMoney(gain, { signed: true })}
+                        </TableCell>
+                        <TableCell className="text-slate-300 capitalize">{lot.term}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </GlassPanel>
+
+        <GlassPanel>
+          <h3 className="text-xl font-semibold text-white mb-4">{symbol} Transactions</h3>
+          {transactions.length === 0 ? (
+            <div className="py-8 text-center text-slate-400 text-sm">No transactions in {symbol}</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-white/10 hover:bg-transparent">
+                  <TableHead className="text-slate-300">Date</TableHead>
+                  <TableHead className="text-slate-300">Type</TableHead>
+                  <TableHead className="text-slate-300 text-right">Shares</TableHead>
+                  <TableHead className="text-slate-300 text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transactions.map((transaction) => {
+                  const amount = Decimal.from(transaction.amount);
+                  return (
+                    <TableRow key={transaction.id} className="border-white/5 hover:bg-white/5">
+                      <TableCell className="text-slate-300">
+                        {transaction.timestamp ? new Date(transaction.timestamp).toLocaleString() : "—"}
+                      </TableCell>
+                      <TableCell className="text-white">
+                        {transactionTypeLabels[transaction.type as TransactionType] ?? transaction.type}
+                      </TableCell>
+                      <TableCell className="text-slate-300 text-right">
+                        {transaction.shares ? formatShares(transaction.shares) : "—"}
+                      </TableCell>
+                      <TableCell className={`text-right font-semibold ${amount.isNegative() ? "text-red-400" : "text-green-400"}`}>
+                        {formatMoney(amount, { signed: true })}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+          {history?.nextCursor && (
+            <div className="flex justify-center mt-4">
+              <Button asChild variant="ghost" className="glass-morphism-dark text-white hover:bg-white/20">
+                <Link href="/transactions">View all transactions</Link>
+              </Button>
+            </div>
+          )}
+        </GlassPanel>
+      </div>
+
+      <OrderTicketDialog open={trading} onOpenChange={setTrading} defaultSymbol={symbol} />
+    </div>
+  );
+}
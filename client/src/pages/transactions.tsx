@@ -0,0 +1,237 @@
+import { useEffect, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import GlassPanel from "@/components/dashboard/glass-panel";
+import RealizedGains from "@/components/dashboard/realized-gains";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAccount } from "@/hooks/use-account";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowDown, ArrowLeft, ArrowUp, ArrowUpDown, Loader2, RotateCcw } from "lucide-react";
+import { Decimal, formatMoney, formatShares } from "@shared/decimal";
+import { transactionTypeLabels, transactionTypes, type TransactionPage, type TransactionType, type TransactionSortField } from "@shared/schema";
+
+const PAGE_SIZE = 25;
+const SYMBOL_DEBOUNCE_MS = 300;
+
+interface Filters {
+  type: string;
+  symbol: string;
+  from: string;
+  to: string;
+}
+
+const emptyFilters: Filters = { type: "all", symbol: "", from: "", to: "" };
+
+const typeStyles: Record<string, string> = {
+  buy: "bg-green-500/20 text-green-300",
+  sell: "bg-red-500/20 text-red-300",
+  dividend: "bg-blue-500/20 text-blue-300",
+  deposit: "bg-emerald-500/20 text-emerald-300",
+  withdrawal: "bg-orange-500/20 text-orange-300",
+  interest: "bg-blue-500/20 text-blue-300",
+  transfer_in: "bg-emerald-500/20 text-emerald-300",
+  transfer_out: "bg-orange-500/20 text-orange-300",
+};
+
+// Query string for the transactions API. Date inputs are local days, so the
+// range runs from the start of `from` to the end of `to`.
+function toSearchParams(filters: Filters, sort: TransactionSortField, order: "asc" | "desc") {
+  const params = new URLSearchParams({ sort, order, limit: String(PAGE_SIZE) });
+  if (filters.type !== "all") params.set("type", filters.type);
+  if (filters.symbol.trim()) params.set("symbol", filters.symbol.trim().toUpperCase());
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+}
+
+export default function Transactions() {
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [symbol, setSymbol] = useState("");
+  const [sort, setSort] = useState<TransactionSortField>("timestamp");
+  const [order, setOrder] = useState<"asc" | "desc">("desc");
+
+  useEffect(() => {
+    const timer = setTimeout(() => setFilters((current) => ({ ...current, symbol })), SYMBOL_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [symbol]);
+
+  const { accounts, account, scoped } = useAccount();
+  const accountNames = new Map(accounts.map((candidate) => [candidate.id, candidate.name]));
+
+  const url = scoped(`/api/me/transactions?${toSearchParams(filters, sort, order)}`);
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading, error } = useInfiniteQuery({
+    queryKey: [url],
+    queryFn: async ({ pageParam }) => {
+      const res = await apiRequest("GET", pageParam ? `${url}&cursor=${encodeURIComponent(pageParam)}` : url);
+      return (await res.json()) as TransactionPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (page) => page.nextCursor,
+  });
+
+  const transactions = data?.pages.flatMap((page) => page.transactions) ?? [];
+
+  const toggleSort = (field: TransactionSortField) => {
+    if (field === sort) {
+      setOrder(order === "asc" ? "desc" : "asc");
+    } else {
+      setSort(field);
+      setOrder(field === "symbol" ? "asc" : "desc");
+    }
+  };
+
+  const resetFilters = () => {
+    setFilters(emptyFilters);
+    setSymbol("");
+  };
+
+  const sortHeader = (field: TransactionSortField, label: string, className: string) => {
+    const Icon = field !== sort ? ArrowUpDown : order === "asc" ? ArrowUp : ArrowDown;
+    return (
+      <TableHead className={className}>
+        <button
+          type="button"
+          className={`inline-flex items-center gap-1 hover:text-white ${field === sort ? "text-white" : ""}`}
+          onClick={() => toggleSort(field)}
+        >
+          {label}
+          <Icon className="w-3 h-3" />
+        </button>
+      </TableHead>
+    );
+  };
+
+  return (
+    <div className="min-h-screen relative">
+      <div className="fixed inset-0 gradient-bg -z-10" />
+
+      <div className="p-4 md:p-6 lg:p-8 space-y-6">
+        <GlassPanel className="floating-panel">
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-white mb-2">Transaction History</h1>
+              <p className="text-slate-200 text-sm md:text-base">
+                Every trade and cash movement in {account ? account.name : "all your accounts"}
+              </p>
+            </div>
+            <Button asChild variant="ghost" className="glass-morphism-dark text-white hover:bg-white/20">
+              <Link href="/">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Dashboard
+              </Link>
+            </Button>
+          </div>
+        </GlassPanel>
+
+        <GlassPanel>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+            <Select value={filters.type} onValueChange={(type) => setFilters({ ...filters, type })}>
+              <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                <SelectValue placeholder="All types" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                {transactionTypes.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {transactionTypeLabels[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={symbol}
+              onChange={(event) => setSymbol(event.target.value)}
+              placeholder="Symbol"
+              className="bg-white/10 border-white/20 text-white placeholder:text-slate-400 uppercase"
+            />
+            <Input
+              type="date"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(event) => setFilters({ ...filters, from: event.target.value })}
+              className="bg-white/10 border-white/20 text-white"
+              aria-label="From date"
+            />
+            <Input
+              type="date"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(event) => setFilters({ ...filters, to: event.target.value })}
+              className="bg-white/10 border-white/20 text-white"
+              aria-label="To date"
+            />
+            <Button variant="ghost" className="glass-morphism-dark text-white hover:bg-white/20" onClick={resetFilters}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow className="border-white/10 hover:bg-transparent">
+                {sortHeader("timestamp", "Date", "text-slate-300")}
+                {!account && <TableHead className="text-slate-300">Account</TableHead>}
+                <TableHead className="text-slate-300">Type</TableHead>
+                {sortHeader("symbol", "Symbol", "text-slate-300")}
+                <TableHead className="text-slate-300 text-right">Shares</TableHead>
+                {sortHeader("amount", "Amount", "text-slate-300 text-right")}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.map((transaction) => {
+                const amount = Decimal.from(transaction.amount);
+                return (
+                  <TableRow key={transaction.id} className="border-white/5 hover:bg-white/5">
+                    <TableCell className="text-slate-300">
+                      {transaction.timestamp ? new Date(transaction.timestamp).toLocaleString() : "—"}
+                    </TableCell>
+                    {!account && (
+                      <TableCell className="text-slate-300">{accountNames.get(transaction.portfolioId) ?? "—"}</TableCell>
+                    )}
+                    <TableCell>
+                      <span className={`rounded-full px-2 py-1 text-xs font-medium ${typeStyles[transaction.type] ?? "bg-slate-500/20 text-slate-300"}`}>
+                        {transactionTypeLabels[transaction.type as TransactionType] ?? transaction.type}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-white font-medium">{transaction.symbol ?? "—"}</TableCell>
+                    <TableCell className="text-slate-300 text-right">{transaction.shares ? formatShares(transaction.shares) : "—"}</TableCell>
+                    <TableCell className={`text-right font-semibold ${amount.isNegative() ? "text-red-400" : "text-green-400"}`}>
+                      {formatMoney(amount, { signed: true })}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          {isLoading && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 text-white animate-spin" />
+            </div>
+          )}
+          {error && <div className="py-8 text-center text-red-400 text-sm">{(error as Error).message}</div>}
+          {!isLoading && !error && transactions.length === 0 && (
+            <div className="py-8 text-center text-slate-400 text-sm">No transactions match these filters.</div>
+          )}
+          {hasNextPage && (
+            <div className="flex justify-center mt-6">
+              <Button
+                variant="ghost"
+                className="glass-morphism-dark text-white hover:bg-white/20"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+              >
+                {isFetchingNextPage ? "Loading…" : "Load more"}
+              </Button>
+            </div>
+          )}
+        </GlassPanel>
+
+        <RealizedGains />
+      </div>
+    </div>
+  );
+}
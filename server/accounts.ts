@@ -0,0 +1,111 @@
+import type { Express, Request, Response } from "express";
+import { fromZodError } from "zod-validation-error";
+import {
+  newAccountSchema,
+  portfolioScopeQuerySchema,
+  portfolioSettingsSchema,
+  type Portfolio,
+  type PortfolioScope,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { requireUserAccess, targetUserId } from "./auth";
+import { portfolioValuator } from "./valuation";
+
+// The accounts a portfolio read covers. ?portfolioId= must name one of the
+// target user's accounts, and others answer 404 so their ids are not
+// revealed; without it the read covers every account (the household view).
+export async function portfolioScope(req: Request, res: Response): Promise<PortfolioScope | undefined> {
+  const parsed = portfolioScopeQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ message: fromZodError(parsed.error).message });
+    return undefined;
+  }
+
+  const userId = targetUserId(req);
+  const { portfolioId } = parsed.data;
+  if (portfolioId !== undefined) {
+    const portfolio = await storage.getPortfolio(portfolioId);
+    if (!portfolio || portfolio.userId !== userId) {
+      res.status(404).json({ message: "Account not found" });
+      return undefined;
+    }
+  }
+  return { userId, portfolioId };
+}
+
+// The accounts a scope covers
+export async function scopedAccounts(scope: PortfolioScope): Promise<Portfolio[]> {
+  const accounts = await storage.getPortfolios(scope.userId);
+  return accounts.filter((account) => scope.portfolioId === undefined || account.id === scope.portfolioId);
+}
+
+// The account a write goes to: the requested one if the session user owns it,
+// else their first account. An id parsed from a path that is not a number
+// finds no account.
+export async function writableAccount(userId: number, portfolioId?: number): Promise<Portfolio | undefined> {
+  if (portfolioId !== undefined) {
+    if (Number.isNaN(portfolioId)) return undefined;
+    const portfolio = await storage.getPortfolio(portfolioId);
+    return portfolio?.userId === userId ? portfolio : undefined;
+  }
+  const [first] = await storage.getPortfolios(userId);
+  return first;
+}
+
+export function registerAccountRoutes(app: Express) {
+  // Get the signed-in user's accounts
+  app.get("/api/me/portfolios", requireUserAccess, async (req, res) => {
+    try {
+      res.json(await storage.getPortfolios(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch accounts" });
+    }
+  });
+
+  // Open a new brokerage, IRA, 401(k) or paper account
+  app.post("/api/me/portfolios", requireUserAccess, async (req, res) => {
+    const parsed = newAccountSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const portfolio = await storage.createPortfolio({ ...parsed.data, userId: req.user!.id });
+      portfolioValuator.invalidate(req.user!.id);
+      res.status(201).json(portfolio);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create account" });
+    }
+  });
+
+  // Rename an account, change the cost-basis method its sells use or set the
+  // benchmark it is compared with
+  app.patch("/api/me/portfolios/:portfolioId", requireUserAccess, async (req, res) => {
+    const parsed = portfolioSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const userId = req.user!.id;
+      const existing = await writableAccount(userId, parseInt(req.params.portfolioId));
+      if (!existing) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      const unquoted: string[] = [];
+      for (const component of parsed.data.benchmark ?? []) {
+        if (!(await storage.getStock(component.symbol))) unquoted.push(component.symbol);
+      }
+      if (unquoted.length > 0) {
+        return res.status(400).json({ message: `No price history for ${unquoted.join(", ")}` });
+      }
+
+      const portfolio = await storage.updatePortfolio(existing.id, parsed.data);
+      portfolioValuator.invalidate(userId);
+      res.json(portfolio);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update account" });
+    }
+  });
+}
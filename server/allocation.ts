@@ -0,0 +1,77 @@
+import type {
+  AllocationGrouping,
+  AllocationSlice,
+  AssetType,
+  Holding,
+  PortfolioAllocation,
+  Security,
+} from "@shared/schema";
+import { Decimal, percentOf, toMoney } from "@shared/decimal";
+
+const UNCLASSIFIED = "Unclassified";
+
+const assetTypeLabels: Record<AssetType, string> = {
+  equity: "Equities",
+  etf: "ETFs",
+  fund: "Funds",
+  bond: "Bonds",
+};
+
+// The group a symbol falls into. Symbols missing from the security master
+// are treated as unclassified equities.
+export function groupOf(symbol: string, security: Security | undefined, by: AllocationGrouping) {
+  switch (by) {
+    case "sector": {
+      const sector = security?.sector ?? UNCLASSIFIED;
+      return { key: sector, label: sector };
+    }
+    case "assetType": {
+      const assetType = (security?.assetType ?? "equity") as AssetType;
+      return { key: assetType, label: assetTypeLabels[assetType] ?? assetType };
+    }
+    case "security":
+      return { key: symbol, label: security?.name ?? symbol };
+  }
+}
+
+// Groups open holdings by market value, largest group first, with each
+// group's holdings listed largest first for drill-down.
+export function computeAllocation(
+  holdings: Holding[],
+  securities: Security[],
+  by: AllocationGrouping,
+): PortfolioAllocation {
+  const bySymbol = new Map(securities.map((security) => [security.symbol, security]));
+  const totalValue = Decimal.sum(holdings.map((holding) => holding.marketValue));
+  const groups = new Map<string, { label: string; marketValue: Decimal; holdings: Holding[] }>();
+
+  for (const holding of holdings) {
+    const { key, label } = groupOf(holding.symbol, bySymbol.get(holding.symbol), by);
+    const group = groups.get(key) || { label, marketValue: Decimal.ZERO, holdings: [] };
+    group.marketValue = group.marketValue.plus(holding.marketValue);
+    group.holdings.push(holding);
+    groups.set(key, group);
+  }
+
+  const slices: AllocationSlice[] = Array.from(groups.entries()).map(([key, group]) => ({
+    key,
+    label: group.label,
+    marketValue: toMoney(group.marketValue),
+    weight: percentOf(group.marketValue, totalValue),
+    holdings: group.holdings
+      .map((holding) => ({
+        symbol: holding.symbol,
+        name: bySymbol.get(holding.symbol)?.name ?? holding.symbol,
+        marketValue: holding.marketValue,
+        weight: percentOf(holding.marketValue, totalValue),
+        groupWeight: percentOf(holding.marketValue, group.marketValue),
+      }))
+      .sort((a, b) => Decimal.from(b.marketValue).cmp(a.marketValue)),
+  }));
+
+  return {
+    by,
+    totalValue: toMoney(totalValue),
+    slices: slices.sort((a, b) => Decimal.from(b.marketValue).cmp(a.marketValue)),
+  };
+}
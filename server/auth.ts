@@ -0,0 +1,174 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { fromZodError } from "zod-validation-error";
+import { insertUserSchema, loginSchema, type SafeUser, type User as SelectUser } from "@shared/schema";
+import { storage } from "./storage";
+import { comparePasswords, hashPassword } from "./password";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function toSafeUser(user: SelectUser): SafeUser {
+  const { password: _password, ...safeUser } = user;
+  return safeUser;
+}
+
+// Lets a request through only with a session. On routes addressed by
+// :userId the session user must also own that id or be an admin.
+export function requireUserAccess(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  if (req.params.userId !== undefined) {
+    const userId = parseInt(req.params.userId);
+    if (Number.isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+    if (userId !== req.user.id && !req.user.isAdmin) {
+      return res.status(403).json({ message: "Not allowed to access this user's data" });
+    }
+  }
+
+  next();
+}
+
+// The user a request acts on: the :userId of an admin route, else the session user.
+export function targetUserId(req: Request): number {
+  return req.params.userId !== undefined ? parseInt(req.params.userId) : req.user!.id;
+}
+
+// Sessions live in Postgres in production when a database is configured and
+// in a pruned in-process store otherwise.
+function createSessionStore(app: Express): session.Store {
+  if (app.get("env") === "production" && process.env.DATABASE_URL) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+      ttl: SESSION_TTL_MS / 1000,
+    });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+export function setupAuth(app: Express) {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      secret: secret || "dev-session-secret",
+      resave: false,
+      saveUninitialized: false,
+      store: createSessionStore(app),
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: app.get("env") === "production",
+        maxAge: SESSION_TTL_MS,
+      },
+    }),
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Create an account with an empty portfolio and sign it in
+  app.post("/api/register", async (req, res, next) => {
+    const parsed = insertUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        ...parsed.data,
+        password: await hashPassword(parsed.data.password),
+      });
+      await storage.createPortfolio({ userId: user.id, name: "Brokerage", accountType: "brokerage" });
+
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toSafeUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    passport.authenticate("local", (error: unknown, user: SelectUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toSafeUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => res.sendStatus(204));
+    });
+  });
+
+  // Get the signed-in user
+  app.get("/api/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    res.json(toSafeUser(req.user));
+  });
+}
@@ -0,0 +1,91 @@
+import type { BarInterval, InsertPriceBar, PriceBar } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Start of the bar a moment falls into. Days and weeks are UTC-aligned and
+// weeks start on Monday.
+export function barStart(date: Date, interval: BarInterval): Date {
+  const time = date.getTime();
+  switch (interval) {
+    case "1m":
+      return new Date(time - (time % MINUTE_MS));
+    case "1d":
+      return new Date(time - (time % DAY_MS));
+    case "1w": {
+      const day = new Date(time - (time % DAY_MS));
+      const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+      return new Date(day.getTime() - daysSinceMonday * DAY_MS);
+    }
+  }
+}
+
+// Aggregates finer bars into the given interval. Input must be sorted by time.
+export function rollupBars(bars: PriceBar[], interval: BarInterval): InsertPriceBar[] {
+  const rolled: InsertPriceBar[] = [];
+  let current: InsertPriceBar | undefined;
+
+  for (const bar of bars) {
+    const start = barStart(bar.timestamp, interval);
+    if (current && current.timestamp.getTime() === start.getTime()) {
+      current.high = Math.max(parseFloat(current.high), parseFloat(bar.high)).toFixed(2);
+      current.low = Math.min(parseFloat(current.low), parseFloat(bar.low)).toFixed(2);
+      current.close = bar.close;
+      current.volume += bar.volume;
+      continue;
+    }
+
+    current = {
+      symbol: bar.symbol,
+      interval,
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume,
+      timestamp: start,
+    };
+    rolled.push(current);
+  }
+
+  return rolled;
+}
+
+function withIds(bars: InsertPriceBar[]): PriceBar[] {
+  // Rolled-up bars are never stored, so they carry a placeholder id
+  return bars.map((bar) => ({ id: 0, ...bar }));
+}
+
+// Bars for a symbol between two dates, oldest first. Daily bars come from
+// stored history, with days that only have minute bars rolled up from those;
+// weekly bars are always rolled up from the daily series.
+export async function loadBars(
+  storage: IStorage,
+  symbol: string,
+  interval: BarInterval,
+  from?: Date,
+  to?: Date,
+): Promise<PriceBar[]> {
+  if (interval === "1m") {
+    return storage.getPriceBars(symbol, "1m", from, to);
+  }
+
+  if (interval === "1w") {
+    const rangeStart = from ? barStart(from, "1w") : undefined;
+    const daily = await loadBars(storage, symbol, "1d", rangeStart, to);
+    return withIds(rollupBars(daily, "1w"));
+  }
+
+  const rangeStart = from ? barStart(from, "1d") : undefined;
+  const [daily, minutes] = await Promise.all([
+    storage.getPriceBars(symbol, "1d", rangeStart, to),
+    storage.getPriceBars(symbol, "1m", rangeStart, to),
+  ]);
+  const storedDays = new Set(daily.map((bar) => bar.timestamp.getTime()));
+  const rolledDays = withIds(rollupBars(minutes, "1d")).filter(
+    (bar) => !storedDays.has(bar.timestamp.getTime()),
+  );
+
+  return [...daily, ...rolledDays].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
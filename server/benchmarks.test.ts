@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MemStorage } from "./storage";
+import { compareWithBenchmark } from "./benchmarks";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("compareWithBenchmark", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("spreads the weight of an unpriced leg over the priced ones", async () => {
+    const store = new MemStorage();
+    const user = await store.createUser({ username: "benchmarked", password: "hash" });
+    const portfolio = await store.createPortfolio({ userId: user.id, name: "Paper", accountType: "paper" });
+    const scope = { userId: user.id, portfolioId: portfolio.id };
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-01T12:00:00Z"));
+    await store.createTransaction({ ...scope, type: "deposit", amount: "1000" });
+    vi.useRealTimers();
+
+    // QQQ gains 1% a day; NOPE has neither a quote nor any bars
+    let close = 100;
+    const bars = [];
+    for (let day = Date.parse("2026-02-20T00:00:00Z"); day <= Date.parse("2026-03-09T00:00:00Z"); day += DAY_MS) {
+      close *= 1.01;
+      const price = close.toFixed(2);
+      bars.push({ symbol: "QQQ", interval: "1d" as const, timestamp: new Date(day), open: price, high: price, low: price, close: price, volume: 100 });
+    }
+    await store.upsertPriceBars(bars);
+    const qqq = (await store.getStock("QQQ"))!;
+    await store.updateStock("QQQ", { ...qqq, price: bars[bars.length - 1].close });
+
+    const benchmark = [{ symbol: "QQQ", weight: 50 }, { symbol: "NOPE", weight: 50 }];
+    const comparison = await compareWithBenchmark(store, scope, [{ benchmark }], "7D", 0, new Date("2026-03-10T12:00:00Z"));
+
+    expect(comparison.label).toBe("50% QQQ / 50% NOPE");
+    expect(comparison.portfolioReturn).toBe("0.00");
+    expect(comparison.benchmarkReturn).toBe("6.15");
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  DEFAULT_BENCHMARK,
+  type BenchmarkComparison,
+  type BenchmarkComponent,
+  type HistoryRange,
+  type Portfolio,
+  type PortfolioScope,
+} from "@shared/schema";
+import { Decimal } from "@shared/decimal";
+import type { IStorage } from "./storage";
+import { closeAt, loadCloses, portfolioValueSeries } from "./history";
+import { PERIODS_PER_YEAR, mean, percent, periodReturns, ratio } from "./metrics";
+
+function sameBenchmark(a: BenchmarkComponent[], b: BenchmarkComponent[]): boolean {
+  return a.length === b.length
+    && a.every((component, index) => component.symbol === b[index].symbol && component.weight === b[index].weight);
+}
+
+// The benchmark every account in a view shares, or null (compared with
+// DEFAULT_BENCHMARK) when they differ or none is set
+export function sharedBenchmark(accounts: Pick<Portfolio, "benchmark">[]): BenchmarkComponent[] | null {
+  const [first, ...rest] = accounts.map((account) => account.benchmark ?? DEFAULT_BENCHMARK);
+  if (!first || !rest.every((benchmark) => sameBenchmark(benchmark, first))) return null;
+  return accounts[0].benchmark;
+}
+
+// "SPY", or "60% QQQ / 40% SPY" for a blend
+export function benchmarkLabel(components: BenchmarkComponent[]): string {
+  return components.length === 1
+    ? components[0].symbol
+    : components.map((component) => `${component.weight}% ${component.symbol}`).join(" / ");
+}
+
+function covariance(a: number[], b: number[]): number {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return a.reduce((total, value, index) => total + (value - meanA) * (b[index] - meanB), 0) / (a.length - 1);
+}
+
+// Compares a view's time-weighted return with its benchmark's, period by
+// period. Benchmark prices come from bar history, valued at the same moments
+// as the portfolio; the last sample uses current quotes. Alpha is Jensen's
+// alpha over `riskFreeRate`, an annual fraction.
+export async function compareWithBenchmark(
+  storage: IStorage,
+  scope: PortfolioScope,
+  accounts: Pick<Portfolio, "benchmark">[],
+  range: HistoryRange,
+  riskFreeRate = 0,
+  now = new Date(),
+): Promise<BenchmarkComparison> {
+  const components = sharedBenchmark(accounts) ?? DEFAULT_BENCHMARK;
+  const [points, stocks] = await Promise.all([
+    portfolioValueSeries(storage, scope, range, now),
+    storage.getAllStocks(),
+  ]);
+  const quotes = new Map(stocks.map((stock) => [stock.symbol, Decimal.from(stock.price)]));
+  const legs = await Promise.all(components.map(async (component) => ({
+    weight: component.weight / 100,
+    quote: quotes.get(component.symbol),
+    closes: await loadCloses(storage, component.symbol, points[0].asOf, now, range === "1D"),
+  })));
+
+  // A leg without a price at either end of a period sits it out, and its
+  // weight is spread over the legs that have one rather than counted as flat
+  const priceAt = (leg: (typeof legs)[number], asOf: number) =>
+    (asOf >= now.getTime() ? leg.quote : undefined) ?? closeAt(leg.closes, asOf) ?? leg.quote;
+  const returns = periodReturns(points).map((period) => {
+    const start = points[period.index - 1].asOf;
+    const end = points[period.index].asOf;
+    let pricedWeight = 0;
+    let weightedReturn = 0;
+    legs.forEach((leg) => {
+      const from = priceAt(leg, start);
+      const to = priceAt(leg, end);
+      if (from && to && from.isPositive()) {
+        pricedWeight += leg.weight;
+        weightedReturn += leg.weight * (to.div(from).toNumber() - 1);
+      }
+    });
+    return { ...period, benchmark: pricedWeight > 0 ? weightedReturn / pricedWeight : 0 };
+  });
+
+  const rebased: BenchmarkComparison["points"] = [];
+  let portfolioLevel = 100;
+  let benchmarkLevel = 100;
+  returns.forEach((period, position) => {
+    if (position === 0) {
+      const start = points[period.index - 1].timestamp.toISOString();
+      rebased.push({ timestamp: start, portfolio: "100.00", benchmark: "100.00" });
+    }
+    portfolioLevel *= 1 + period.value;
+    benchmarkLevel *= 1 + period.benchmark;
+    rebased.push({
+      timestamp: points[period.index].timestamp.toISOString(),
+      portfolio: portfolioLevel.toFixed(2),
+      benchmark: benchmarkLevel.toFixed(2),
+    });
+  });
+
+  const portfolioReturn = returns.length > 0 ? portfolioLevel / 100 - 1 : null;
+  const benchmarkReturn = returns.length > 0 ? benchmarkLevel / 100 - 1 : null;
+  let alpha: number | null = null;
+  let beta: number | null = null;
+  let trackingError: number | null = null;
+  let informationRatio: number | null = null;
+  if (range !== "1D" && returns.length >= 2) {
+    const portfolioDaily = returns.map((period) => period.value);
+    const benchmarkDaily = returns.map((period) => period.benchmark);
+    const active = returns.map((period) => period.value - period.benchmark);
+    const dailyRiskFree = Math.pow(1 + riskFreeRate, 1 / PERIODS_PER_YEAR) - 1;
+    const benchmarkVariance = covariance(benchmarkDaily, benchmarkDaily);
+
+    beta = benchmarkVariance > 0 ? covariance(portfolioDaily, benchmarkDaily) / benchmarkVariance : null;
+    alpha = beta !== null
+      ? (mean(portfolioDaily) - dailyRiskFree - beta * (mean(benchmarkDaily) - dailyRiskFree)) * PERIODS_PER_YEAR
+      : null;
+    trackingError = Math.sqrt(covariance(active, active) * PERIODS_PER_YEAR);
+    informationRatio = trackingError > 0 ? (mean(active) * PERIODS_PER_YEAR) / trackingError : null;
+  }
+
+  return {
+    range,
+    benchmark: components,
+    label: benchmarkLabel(components),
+    points: rebased,
+    portfolioReturn: percent(portfolioReturn),
+    benchmarkReturn: percent(benchmarkReturn),
+    relativeReturn: percent(portfolioReturn !== null && benchmarkReturn !== null ? portfolioReturn - benchmarkReturn : null),
+    alpha: percent(alpha),
+    beta: ratio(beta),
+    trackingError: percent(trackingError),
+    informationRatio: ratio(informationRatio),
+  };
+}
@@ -0,0 +1,45 @@
+import type { Transaction, TransactionType } from "@shared/schema";
+import { Decimal } from "@shared/decimal";
+
+// Direction each transaction type moves cash. Buys and sells keep the
+// ledger's share-side sign (buys positive, sells negative); every other type
+// is stored with the sign of its cash effect.
+const cashDirections: Record<TransactionType, 1 | -1> = {
+  buy: -1,
+  sell: 1,
+  dividend: 1,
+  deposit: 1,
+  withdrawal: -1,
+  fee: -1,
+  interest: 1,
+  transfer_in: 1,
+  transfer_out: -1,
+  commission: -1,
+};
+
+export function cashDirection(type: string): 1 | -1 {
+  return cashDirections[type as TransactionType] ?? 1;
+}
+
+// Signed change in cash caused by a transaction
+export function cashEffect(transaction: Pick<Transaction, "type" | "amount">): Decimal {
+  return Decimal.from(transaction.amount).abs().times(cashDirection(transaction.type));
+}
+
+// The amount as the ledger stores it for a type, from a request's magnitude
+export function ledgerAmount(type: TransactionType, amount: Decimal): Decimal {
+  const magnitude = amount.abs();
+  if (type === "buy") return magnitude;
+  if (type === "sell") return magnitude.neg();
+  return magnitude.times(cashDirection(type));
+}
+
+// Money entering or leaving the account from outside. Everything else moves
+// value between cash and holdings or is income and cost of the account.
+export function isExternalFlow(type: string): boolean {
+  return type === "deposit" || type === "withdrawal" || type === "transfer_in" || type === "transfer_out";
+}
+
+export function cashBalance(transactions: Transaction[]): Decimal {
+  return Decimal.sum(transactions.map(cashEffect));
+}
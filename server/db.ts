@@ -0,0 +1,16 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any Drizzle Postgres database built with our schema. DatabaseStorage only
+// depends on this, so tests can hand it a PGlite or node-postgres instance.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createDb(connectionString: string): Database {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
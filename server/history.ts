@@ -0,0 +1,212 @@
+import type { HistoryRange, PortfolioHistory, PortfolioScope, Transaction } from "@shared/schema";
+import { Decimal, percentOf, toMoney } from "@shared/decimal";
+import type { IStorage } from "./storage";
+import { barStart, loadBars } from "./bars";
+import { cashEffect, isExternalFlow } from "./cash";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const BUCKET_MS = 5 * MINUTE_MS;
+
+const RANGE_DAYS: Record<Exclude<HistoryRange, "1D" | "ALL">, number> = {
+  "7D": 7,
+  "1M": 30,
+  "3M": 91,
+  "1Y": 365,
+};
+
+// A moment to value the portfolio at, and the timestamp to label it with
+interface Sample {
+  timestamp: Date;
+  asOf: number;
+}
+
+// A close and the time it became known, i.e. the end of its bar
+export interface Close {
+  time: number;
+  price: Decimal;
+}
+
+function transactionTime(transaction: Transaction): number {
+  return transaction.timestamp ? new Date(transaction.timestamp).getTime() : 0;
+}
+
+function isTrade(transaction: Transaction): boolean {
+  return (transaction.type === "buy" || transaction.type === "sell") && transaction.symbol !== null;
+}
+
+// 1D samples every five minutes over the last 24 hours. Longer ranges take
+// each day's close, labelled with that day, starting from the close before
+// the range (or before the first trade for ALL) and ending at `now`.
+function samplePoints(range: HistoryRange, now: Date, firstTrade?: number): Sample[] {
+  const end = now.getTime();
+  const samples: Sample[] = [];
+
+  if (range === "1D") {
+    for (let time = Math.ceil((end - DAY_MS) / BUCKET_MS) * BUCKET_MS; time < end; time += BUCKET_MS) {
+      samples.push({ timestamp: new Date(time), asOf: time });
+    }
+    samples.push({ timestamp: now, asOf: end });
+    return samples;
+  }
+
+  const today = barStart(now, "1d").getTime();
+  const days =
+    range === "ALL"
+      ? firstTrade !== undefined ? (today - barStart(new Date(firstTrade), "1d").getTime()) / DAY_MS + 1 : 0
+      : RANGE_DAYS[range];
+  for (let day = today - days * DAY_MS; day < today; day += DAY_MS) {
+    samples.push({ timestamp: new Date(day), asOf: day + DAY_MS });
+  }
+  samples.push({ timestamp: new Date(today), asOf: end });
+  return samples;
+}
+
+// Daily closes, plus minute closes for intraday ranges, oldest first
+export async function loadCloses(storage: IStorage, symbol: string, from: number, to: Date, intraday: boolean): Promise<Close[]> {
+  const daily = await loadBars(storage, symbol, "1d", new Date(from - 7 * DAY_MS), to);
+  const closes = daily.map((bar) => ({ time: bar.timestamp.getTime() + DAY_MS, price: Decimal.from(bar.close) }));
+  if (!intraday) {
+    return closes;
+  }
+
+  const minutes = await storage.getPriceBars(symbol, "1m", new Date(from - 60 * MINUTE_MS), to);
+  return closes
+    .concat(minutes.map((bar) => ({ time: bar.timestamp.getTime() + MINUTE_MS, price: Decimal.from(bar.close) })))
+    .sort((a, b) => a.time - b.time);
+}
+
+// A sampled account value, the moment it was valued at, and the deposits,
+// withdrawals and transfers made since the previous sample (zero for the
+// first, whose value already holds earlier flows). Inflows are the positive
+// flows alone.
+export interface ValuePoint {
+  timestamp: Date;
+  asOf: number;
+  value: Decimal;
+  flow: Decimal;
+  inflow: Decimal;
+}
+
+// Latest close known at `time`, by binary search
+export function closeAt(closes: Close[], time: number): Decimal | undefined {
+  let low = 0;
+  let high = closes.length - 1;
+  let found: Decimal | undefined;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (closes[mid].time <= time) {
+      found = closes[mid].price;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+// Values an account's holdings plus cash (or every account's, for the
+// household view) over a range by replaying the ledger up to each sample and
+// pricing holdings from bar history. Symbols without a bar yet fall back to
+// the last trade price, then the current quote; the final sample always uses
+// current quotes so it matches the portfolio summary.
+export async function portfolioValueSeries(
+  storage: IStorage,
+  scope: PortfolioScope,
+  range: HistoryRange,
+  now = new Date(),
+): Promise<ValuePoint[]> {
+  const [transactions, stocks] = await Promise.all([storage.getTransactions(scope), storage.getAllStocks()]);
+  const ledger = transactions
+    .filter((transaction) => transactionTime(transaction) <= now.getTime())
+    .sort((a, b) => transactionTime(a) - transactionTime(b) || a.id - b.id);
+  const samples = samplePoints(range, now, ledger.length > 0 ? transactionTime(ledger[0]) : undefined);
+
+  const quotes = new Map(stocks.map((stock) => [stock.symbol, Decimal.from(stock.price)]));
+  const symbols = Array.from(new Set(
+    ledger.filter(isTrade).map((transaction) => transaction.symbol!),
+  ));
+  const closes = new Map<string, Close[]>();
+  for (const symbol of symbols) {
+    closes.set(symbol, await loadCloses(storage, symbol, samples[0].asOf, now, range === "1D"));
+  }
+
+  const quantities = new Map<string, Decimal>();
+  const tradePrices = new Map<string, Decimal>();
+  let cash = Decimal.ZERO;
+  let cursor = 0;
+
+  return samples.map((sample, index) => {
+    let flow = Decimal.ZERO;
+    let inflow = Decimal.ZERO;
+    for (; cursor < ledger.length && transactionTime(ledger[cursor]) <= sample.asOf; cursor++) {
+      const transaction = ledger[cursor];
+      const symbol = transaction.symbol;
+      cash = cash.plus(cashEffect(transaction));
+
+      // Only deposits, withdrawals and transfers flow in or out; flows before
+      // the first sample are already part of the start value
+      if (index > 0 && isExternalFlow(transaction.type)) {
+        const effect = cashEffect(transaction);
+        flow = flow.plus(effect);
+        if (effect.isPositive()) inflow = inflow.plus(effect);
+      }
+      if (!symbol || !isTrade(transaction)) {
+        continue;
+      }
+      const shares = Decimal.from(transaction.shares ?? 0).abs();
+      const amount = Decimal.from(transaction.amount).abs();
+      const held = quantities.get(symbol) ?? Decimal.ZERO;
+
+      if (transaction.type === "buy") {
+        quantities.set(symbol, held.plus(shares));
+      } else if (transaction.type === "sell") {
+        quantities.set(symbol, Decimal.max(Decimal.ZERO, held.minus(shares)));
+      }
+      if (shares.isPositive()) {
+        tradePrices.set(symbol, amount.div(shares));
+      }
+    }
+
+    const live = sample.asOf >= now.getTime();
+    let value = cash;
+    quantities.forEach((quantity, symbol) => {
+      if (quantity.isZero()) return;
+      const price = (live ? quotes.get(symbol) : undefined)
+        ?? closeAt(closes.get(symbol) ?? [], sample.asOf)
+        ?? tradePrices.get(symbol)
+        ?? quotes.get(symbol)
+        ?? Decimal.ZERO;
+      value = value.plus(quantity.times(price));
+    });
+
+    return { timestamp: sample.timestamp, asOf: sample.asOf, value, flow, inflow };
+  });
+}
+
+// The value series for /api/portfolio/history with the period's change net of
+// money moved in or out
+export async function computePortfolioHistory(
+  storage: IStorage,
+  scope: PortfolioScope,
+  range: HistoryRange,
+  now = new Date(),
+): Promise<PortfolioHistory> {
+  const points = await portfolioValueSeries(storage, scope, range, now);
+  const netFlows = Decimal.sum(points.map((point) => point.flow));
+  const inflows = Decimal.sum(points.map((point) => point.inflow));
+  const startValue = points[0].value;
+  const endValue = points[points.length - 1].value;
+  const change = endValue.minus(startValue).minus(netFlows);
+
+  return {
+    range,
+    granularity: range === "1D" ? "5m" : "1d",
+    points: points.map((point) => ({ timestamp: point.timestamp.toISOString(), value: toMoney(point.value) })),
+    startValue: toMoney(startValue),
+    endValue: toMoney(endValue),
+    netFlows: toMoney(netFlows),
+    change: toMoney(change),
+    changePercent: percentOf(change, startValue.plus(inflows)),
+  };
+}
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { marketDataScheduler } from "./market-data";
 
 const app = express();
 app.use(express.json());
@@ -67,4 +68,6 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  await marketDataScheduler?.start();
 })();
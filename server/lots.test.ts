@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { Transaction } from "@shared/schema";
+import { Decimal } from "@shared/decimal";
+import { realizedGainsReport, replayLots, selectLots } from "./lots";
+
+function trade(id: number, type: "buy" | "sell", shares: string, amount: string, timestamp: string, lots?: Transaction["lots"]): Transaction {
+  const sign = type === "sell" ? "-" : "";
+  return {
+    id,
+    userId: 1,
+    portfolioId: 1,
+    type,
+    symbol: "AAPL",
+    amount: `${sign}${amount}`,
+    shares: `${sign}${shares}`,
+    timestamp: new Date(timestamp),
+    lots: lots ?? null,
+    orderId: null,
+  };
+}
+
+// Three lots at 100, 150 and 120 a share
+const buys = [
+  trade(1, "buy", "10", "1000.00", "2024-01-02T15:00:00Z"),
+  trade(2, "buy", "10", "1500.00", "2024-06-03T15:00:00Z"),
+  trade(3, "buy", "10", "1200.00", "2025-01-02T15:00:00Z"),
+];
+const sell = trade(4, "sell", "15", "2100.00", "2025-03-03T15:00:00Z");
+
+describe("selectLots", () => {
+  const { lots } = replayLots(buys, [{ id: 1, costBasisMethod: "fifo" }]);
+
+  it.each([
+    ["fifo", [{ lotId: 1, shares: "10.000000" }, { lotId: 2, shares: "5.000000" }]],
+    ["lifo", [{ lotId: 3, shares: "10.000000" }, { lotId: 2, shares: "5.000000" }]],
+    ["hifo", [{ lotId: 2, shares: "10.000000" }, { lotId: 3, shares: "5.000000" }]],
+  ] as const)("closes lots in %s order", (method, expected) => {
+    expect(selectLots(lots, Decimal.from(15), method)).toEqual(expected);
+  });
+
+  it("takes requested lots first and the rest by the method", () => {
+    const selections = selectLots(lots, Decimal.from(15), "specific", [{ lotId: 3, shares: "4" }]);
+    expect(selections).toEqual([
+      { lotId: 3, shares: "4.000000" },
+      { lotId: 1, shares: "10.000000" },
+      { lotId: 2, shares: "1.000000" },
+    ]);
+  });
+
+  it("never takes more than a lot has left", () => {
+    const selections = selectLots(lots, Decimal.from(40), "fifo", [{ lotId: 2, shares: "25" }]);
+    expect(selections.map((selection) => selection.shares)).toEqual(["10.000000", "10.000000", "10.000000"]);
+  });
+});
+
+describe("replayLots", () => {
+  it("closes a sell's lots under its account's method", () => {
+    const { lots, closed } = replayLots([...buys, sell], [{ id: 1, costBasisMethod: "lifo" }]);
+
+    expect(closed.map((entry) => [entry.lot.lotId, entry.shares.toString(), entry.costBasis.toFixed(2)]))
+      .toEqual([[3, "10", "1200.00"], [2, "5", "750.00"]]);
+    expect(lots.map((lot) => [lot.remaining.toString(), lot.remainingCost.toFixed(2)]))
+      .toEqual([["10", "1000.00"], ["5", "750.00"], ["0", "0.00"]]);
+  });
+
+  it("honours the lots recorded on a sell", () => {
+    const recorded = { ...sell, lots: [{ lotId: 1, shares: "15" }] };
+    const { closed } = replayLots([...buys, recorded], [{ id: 1, costBasisMethod: "hifo" }]);
+    expect(closed.map((entry) => [entry.lot.lotId, entry.shares.toString()])).toEqual([[1, "10"], [2, "5"]]);
+  });
+
+  it("splits proceeds in cents so they add up to the sale", () => {
+    const odd = trade(4, "sell", "3", "100.00", "2025-03-03T15:00:00Z", [
+      { lotId: 1, shares: "1" },
+      { lotId: 2, shares: "1" },
+      { lotId: 3, shares: "1" },
+    ]);
+    const { closed } = replayLots([...buys, odd], [{ id: 1, costBasisMethod: "fifo" }]);
+    expect(closed.map((entry) => entry.proceeds.toFixed(2))).toEqual(["33.33", "33.33", "33.34"]);
+  });
+});
+
+describe("realizedGainsReport", () => {
+  it("splits gains by holding term", () => {
+    const report = realizedGainsReport([...buys, sell], [{ id: 1, costBasisMethod: "fifo" }]);
+    expect(report.method).toBe("fifo");
+    expect(report.longTerm).toEqual({ proceeds: "1400.00", costBasis: "1000.00", gain: "400.00" });
+    expect(report.shortTerm).toEqual({ proceeds: "700.00", costBasis: "750.00", gain: "-50.00" });
+    expect(report.total.gain).toBe("350.00");
+  });
+});
@@ -0,0 +1,219 @@
+import type {
+  CostBasisMethod,
+  GainTotals,
+  HoldingTerm,
+  LotSelection,
+  Portfolio,
+  RealizedGainsReport,
+  RealizedLot,
+  TaxLot,
+  Transaction,
+} from "@shared/schema";
+import { COST_DP, Decimal, MONEY_DP, toMoney, toShares } from "@shared/decimal";
+
+// Shares bought by one buy transaction, identified by that buy's id
+export interface OpenLot {
+  lotId: number;
+  portfolioId: number;
+  symbol: string;
+  openedAt: Date;
+  shares: Decimal;
+  remaining: Decimal;
+  cost: Decimal;
+  remainingCost: Decimal;
+  costPerShare: Decimal;
+}
+
+interface ClosedLot {
+  sellTransactionId: number;
+  lot: OpenLot;
+  shares: Decimal;
+  closedAt: Date;
+  proceeds: Decimal;
+  costBasis: Decimal;
+}
+
+function transactionTime(transaction: Transaction): Date {
+  return transaction.timestamp ? new Date(transaction.timestamp) : new Date(0);
+}
+
+// Long-term once held for more than one year
+export function holdingTerm(openedAt: Date, closedAt: Date): HoldingTerm {
+  const anniversary = new Date(openedAt);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return closedAt.getTime() > anniversary.getTime() ? "long" : "short";
+}
+
+// The order a method sells lots in. Specific identification falls back to
+// FIFO for shares the sell did not assign to a lot.
+function orderLots(lots: OpenLot[], method: CostBasisMethod): OpenLot[] {
+  const byAge = (a: OpenLot, b: OpenLot) => a.openedAt.getTime() - b.openedAt.getTime() || a.lotId - b.lotId;
+  switch (method) {
+    case "lifo":
+      return [...lots].sort((a, b) => byAge(b, a));
+    case "hifo":
+      return [...lots].sort((a, b) => b.costPerShare.cmp(a.costPerShare) || byAge(a, b));
+    default:
+      return [...lots].sort(byAge);
+  }
+}
+
+// Picks the lots a sell of `shares` closes under a method, taking the
+// requested selections first. Lots must be the symbol's open lots.
+export function selectLots(
+  lots: OpenLot[],
+  shares: Decimal,
+  method: CostBasisMethod,
+  requested: LotSelection[] = [],
+): LotSelection[] {
+  const available = new Map(lots.map((lot) => [lot.lotId, lot.remaining]));
+  const taken = new Map<number, Decimal>();
+  let left = shares;
+
+  const take = (lotId: number, wanted: Decimal) => {
+    const amount = Decimal.min(Decimal.min(wanted, available.get(lotId) ?? Decimal.ZERO), left);
+    if (!amount.isPositive()) return;
+    available.set(lotId, (available.get(lotId) ?? Decimal.ZERO).minus(amount));
+    left = left.minus(amount);
+    taken.set(lotId, (taken.get(lotId) ?? Decimal.ZERO).plus(amount));
+  };
+
+  requested.forEach((selection) => take(selection.lotId, Decimal.from(selection.shares)));
+  orderLots(lots, method).forEach((lot) => take(lot.lotId, left));
+  return Array.from(taken.entries()).map(([lotId, amount]) => ({ lotId, shares: toShares(amount) }));
+}
+
+// The cost-basis method an account's sells use, fifo when unknown
+export function accountMethod(accounts: Pick<Portfolio, "id" | "costBasisMethod">[], portfolioId: number): CostBasisMethod {
+  return (accounts.find((account) => account.id === portfolioId)?.costBasisMethod ?? "fifo") as CostBasisMethod;
+}
+
+// The method shared by every account in a view, or null when they differ
+export function sharedMethod(accounts: Pick<Portfolio, "id" | "costBasisMethod">[]): CostBasisMethod | null {
+  const methods = Array.from(new Set(accounts.map((account) => account.costBasisMethod)));
+  return methods.length === 1 ? methods[0] as CostBasisMethod : null;
+}
+
+// Replays the ledger oldest-first into tax lots. Each buy opens a lot in its
+// account; each sell closes the lots recorded on it, then any remainder by
+// its account's method.
+export function replayLots(transactions: Transaction[], accounts: Pick<Portfolio, "id" | "costBasisMethod">[]) {
+  const ledger = [...transactions].sort((a, b) =>
+    transactionTime(a).getTime() - transactionTime(b).getTime() || a.id - b.id);
+  const lots: OpenLot[] = [];
+  const closed: ClosedLot[] = [];
+
+  for (const transaction of ledger) {
+    const symbol = transaction.symbol;
+    const shares = Decimal.from(transaction.shares ?? 0).abs();
+    const amount = Decimal.from(transaction.amount).abs();
+    if (!symbol || shares.isZero()) {
+      continue;
+    }
+
+    if (transaction.type === "buy") {
+      lots.push({
+        lotId: transaction.id,
+        portfolioId: transaction.portfolioId,
+        symbol,
+        openedAt: transactionTime(transaction),
+        shares,
+        remaining: shares,
+        cost: amount,
+        remainingCost: amount,
+        costPerShare: amount.div(shares),
+      });
+    } else if (transaction.type === "sell") {
+      // Amounts are split in cents: closing the rest of a lot releases the
+      // rest of its cost, and the last lot takes the rest of the proceeds, so
+      // the report adds up to the ledger exactly.
+      const symbolLots = lots.filter((lot) =>
+        lot.portfolioId === transaction.portfolioId && lot.symbol === symbol && lot.remaining.isPositive());
+      const method = accountMethod(accounts, transaction.portfolioId);
+      const selections = selectLots(symbolLots, shares, method, transaction.lots ?? []);
+      let unallocated = amount;
+      selections.forEach((selection, index) => {
+        const lot = symbolLots.find((candidate) => candidate.lotId === selection.lotId)!;
+        const costBasis = lot.remaining.eq(selection.shares)
+          ? lot.remainingCost
+          : lot.cost.times(selection.shares).div(lot.shares).round(MONEY_DP);
+        const proceeds = index === selections.length - 1
+          ? unallocated
+          : amount.times(selection.shares).div(shares).round(MONEY_DP);
+        lot.remaining = lot.remaining.minus(selection.shares);
+        lot.remainingCost = lot.remainingCost.minus(costBasis);
+        unallocated = unallocated.minus(proceeds);
+        closed.push({
+          sellTransactionId: transaction.id,
+          lot,
+          shares: Decimal.from(selection.shares),
+          closedAt: transactionTime(transaction),
+          proceeds,
+          costBasis,
+        });
+      });
+    }
+  }
+
+  return { lots, closed };
+}
+
+// A symbol's open lots, oldest first, marked to `price`
+export function markLots(lots: OpenLot[], symbol: string, price: Decimal, now = new Date()): TaxLot[] {
+  return lots
+    .filter((lot) => lot.symbol === symbol && lot.remaining.isPositive())
+    .map((lot) => {
+      const costBasis = lot.remainingCost;
+      const marketValue = price.times(lot.remaining);
+      return {
+        lotId: lot.lotId,
+        symbol: lot.symbol,
+        openedAt: lot.openedAt.toISOString(),
+        shares: toShares(lot.shares),
+        remaining: toShares(lot.remaining),
+        costPerShare: lot.costPerShare.toFixed(COST_DP),
+        costBasis: toMoney(costBasis),
+        marketValue: toMoney(marketValue),
+        unrealizedGain: toMoney(marketValue.minus(costBasis)),
+        term: holdingTerm(lot.openedAt, now),
+      };
+    });
+}
+
+function totals(lots: RealizedLot[]): GainTotals {
+  const sum = (field: "proceeds" | "costBasis" | "gain") => toMoney(Decimal.sum(lots.map((lot) => lot[field])));
+  return { proceeds: sum("proceeds"), costBasis: sum("costBasis"), gain: sum("gain") };
+}
+
+// Realized gains of the given accounts split into short and long term, newest
+// sale first, optionally limited to sales in one calendar year (UTC)
+export function realizedGainsReport(
+  transactions: Transaction[],
+  accounts: Pick<Portfolio, "id" | "costBasisMethod">[],
+  year?: number,
+): RealizedGainsReport {
+  const lots: RealizedLot[] = replayLots(transactions, accounts).closed
+    .filter((entry) => year === undefined || entry.closedAt.getUTCFullYear() === year)
+    .map((entry) => ({
+      sellTransactionId: entry.sellTransactionId,
+      lotId: entry.lot.lotId,
+      symbol: entry.lot.symbol,
+      shares: toShares(entry.shares),
+      openedAt: entry.lot.openedAt.toISOString(),
+      closedAt: entry.closedAt.toISOString(),
+      proceeds: toMoney(entry.proceeds),
+      costBasis: toMoney(entry.costBasis),
+      gain: toMoney(entry.proceeds.minus(entry.costBasis)),
+      term: holdingTerm(entry.lot.openedAt, entry.closedAt),
+    }))
+    .reverse();
+
+  return {
+    method: sharedMethod(accounts),
+    year: year ?? null,
+    shortTerm: totals(lots.filter((lot) => lot.term === "short")),
+    longTerm: totals(lots.filter((lot) => lot.term === "long")),
+    total: totals(lots),
+    lots,
+  };
+}
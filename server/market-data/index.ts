@@ -0,0 +1,45 @@
+import { storage } from "../storage";
+import type { MarketDataProvider } from "./provider";
+import { SimulatedMarketDataProvider } from "./simulated";
+import { ReplayMarketDataProvider } from "./replay";
+import { MarketDataScheduler } from "./scheduler";
+
+export type { MarketDataProvider, Quote } from "./provider";
+export { SimulatedMarketDataProvider } from "./simulated";
+export { ReplayMarketDataProvider, parseTickCsv } from "./replay";
+export { MarketDataScheduler } from "./scheduler";
+
+const intervalMs = parseInt(process.env.MARKET_DATA_INTERVAL_MS || "5000");
+
+// MARKET_DATA_PROVIDER picks the feed: "simulated" (default), "replay" with
+// MARKET_DATA_REPLAY_FILE, or "off" to keep prices static.
+function createProvider(): MarketDataProvider | undefined {
+  switch (process.env.MARKET_DATA_PROVIDER || "simulated") {
+    case "off":
+      return undefined;
+    case "replay": {
+      const file = process.env.MARKET_DATA_REPLAY_FILE;
+      if (!file) {
+        throw new Error("MARKET_DATA_REPLAY_FILE must point at a tick CSV for the replay provider");
+      }
+      return ReplayMarketDataProvider.fromFile(file, {
+        speed: parseFloat(process.env.MARKET_DATA_REPLAY_SPEED || "1"),
+        loop: process.env.MARKET_DATA_REPLAY_LOOP !== "false",
+      });
+    }
+    case "simulated":
+      return new SimulatedMarketDataProvider({
+        seed: parseInt(process.env.MARKET_DATA_SEED || "42"),
+        stepMs: intervalMs,
+      });
+    default:
+      throw new Error(`Unknown MARKET_DATA_PROVIDER "${process.env.MARKET_DATA_PROVIDER}"`);
+  }
+}
+
+function createScheduler(): MarketDataScheduler | undefined {
+  const provider = createProvider();
+  return provider && new MarketDataScheduler(storage, provider, { intervalMs, backfillDays: 365 });
+}
+
+export const marketDataScheduler = createScheduler();
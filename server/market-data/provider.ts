@@ -0,0 +1,21 @@
+import type { InsertPriceBar, Stock } from "@shared/schema";
+
+export interface Quote {
+  symbol: string;
+  price: number;
+  // Shares traded since the previous quote for this symbol
+  volume: number;
+  timestamp: Date;
+}
+
+// A source of live prices. The scheduler polls getQuotes() with the current
+// stock rows; providers that can fabricate history also implement backfill().
+export interface MarketDataProvider {
+  readonly name: string;
+
+  getQuotes(stocks: Stock[], at: Date): Promise<Quote[]>;
+
+  // Bars leading up to `until` for a stock that has no stored history yet,
+  // ending at the stock's current price.
+  backfill?(stock: Stock, until: Date, days: number): InsertPriceBar[];
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import type { Stock } from "@shared/schema";
+import { ReplayMarketDataProvider, type Tick } from "./replay";
+
+const stocks = [{ symbol: "AAPL" }, { symbol: "MSFT" }] as Stock[];
+const recorded = new Date("2026-01-02T15:00:00Z").getTime();
+const tick = (offsetMs: number, symbol: string, price: number): Tick => ({
+  timestamp: new Date(recorded + offsetMs),
+  symbol,
+  price,
+  volume: 100,
+});
+
+describe("ReplayMarketDataProvider", () => {
+  it("plays ticks back at the recorded pace", async () => {
+    const provider = new ReplayMarketDataProvider([tick(0, "AAPL", 170), tick(500, "AAPL", 171), tick(600, "AAPL", 172)]);
+    const start = Date.now();
+
+    expect(await provider.getQuotes(stocks, new Date(start))).toMatchObject([{ symbol: "AAPL", price: 170 }]);
+    expect(await provider.getQuotes(stocks, new Date(start + 700))).toMatchObject([
+      { symbol: "AAPL", price: 172, volume: 200 },
+    ]);
+    expect(await provider.getQuotes(stocks, new Date(start + 5000))).toEqual([]);
+  });
+
+  it("does not skip the ticks before a loop wraps around", async () => {
+    const provider = new ReplayMarketDataProvider(
+      [tick(0, "AAPL", 170), tick(500, "AAPL", 171), tick(1000, "MSFT", 380)],
+      { loop: true },
+    );
+    const start = Date.now();
+
+    await provider.getQuotes(stocks, new Date(start));
+    await provider.getQuotes(stocks, new Date(start + 900));
+    // Past the end of the recording: MSFT's last tick, then AAPL from the top
+    const wrapped = await provider.getQuotes(stocks, new Date(start + 1100));
+    expect(wrapped).toEqual(expect.arrayContaining([
+      expect.objectContaining({ symbol: "MSFT", price: 380 }),
+      expect.objectContaining({ symbol: "AAPL", price: 170 }),
+    ]));
+  });
+});
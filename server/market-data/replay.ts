@@ -0,0 +1,108 @@
+import { readFileSync } from "fs";
+import type { Stock } from "@shared/schema";
+import type { MarketDataProvider, Quote } from "./provider";
+
+export interface Tick {
+  timestamp: Date;
+  symbol: string;
+  price: number;
+  volume: number;
+}
+
+// Parses recorded ticks from CSV with a `timestamp,symbol,price[,volume]`
+// header. Timestamps are anything Date can parse; rows are sorted by time.
+export function parseTickCsv(text: string): Tick[] {
+  const [header, ...rows] = text.trim().split(/\r?\n/);
+  const columns = header.split(",").map((column) => column.trim().toLowerCase());
+  const index = (name: string) => columns.indexOf(name);
+  if (index("timestamp") < 0 || index("symbol") < 0 || index("price") < 0) {
+    throw new Error("Tick CSV needs timestamp, symbol and price columns");
+  }
+
+  return rows
+    .filter((row) => row.trim() !== "")
+    .map((row, line) => {
+      const cells = row.split(",").map((cell) => cell.trim());
+      const tick: Tick = {
+        timestamp: new Date(cells[index("timestamp")]),
+        symbol: cells[index("symbol")].toUpperCase(),
+        price: parseFloat(cells[index("price")]),
+        volume: index("volume") >= 0 ? parseInt(cells[index("volume")]) || 0 : 0,
+      };
+      if (Number.isNaN(tick.timestamp.getTime()) || Number.isNaN(tick.price)) {
+        throw new Error(`Invalid tick on line ${line + 2}: ${row}`);
+      }
+      return tick;
+    })
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+export interface ReplayOptions {
+  // Recorded milliseconds played back per wall-clock millisecond
+  speed?: number;
+  // Start over from the first tick once the recording is exhausted
+  loop?: boolean;
+}
+
+// Plays back recorded ticks in real time (or faster). Each call returns the
+// latest tick per symbol recorded since the previous call, stamped with the
+// live time so bars line up with the rest of the history.
+export class ReplayMarketDataProvider implements MarketDataProvider {
+  readonly name = "replay";
+  private cursor = 0;
+  private cycle = 0;
+  private startedAt?: number;
+
+  constructor(private ticks: Tick[], private options: ReplayOptions = {}) {}
+
+  static fromFile(path: string, options?: ReplayOptions) {
+    return new ReplayMarketDataProvider(parseTickCsv(readFileSync(path, "utf8")), options);
+  }
+
+  async getQuotes(stocks: Stock[], at: Date): Promise<Quote[]> {
+    if (this.ticks.length === 0) {
+      return [];
+    }
+
+    this.startedAt ??= at.getTime();
+    const recordedStart = this.ticks[0].timestamp.getTime();
+    const recordedSpan = this.ticks[this.ticks.length - 1].timestamp.getTime() - recordedStart + 1;
+    let elapsed = (at.getTime() - this.startedAt) * (this.options.speed ?? 1);
+    const wanted = new Set(stocks.map((stock) => stock.symbol));
+    const latest = new Map<string, Quote>();
+
+    if (this.options.loop) {
+      const cycle = Math.floor(elapsed / recordedSpan);
+      if (cycle !== this.cycle) {
+        // Play out the rest of the previous pass before starting over, so the
+        // ticks recorded just before the wrap are not skipped
+        this.play(Infinity, wanted, latest, at);
+        this.cycle = cycle;
+        this.cursor = 0;
+      }
+      elapsed %= recordedSpan;
+    }
+
+    this.play(recordedStart + elapsed, wanted, latest, at);
+    return Array.from(latest.values());
+  }
+
+  // Advances the cursor through the ticks recorded up to `clock`, keeping the
+  // latest per wanted symbol and summing their volume
+  private play(clock: number, wanted: Set<string>, latest: Map<string, Quote>, at: Date) {
+    while (this.cursor < this.ticks.length && this.ticks[this.cursor].timestamp.getTime() <= clock) {
+      const tick = this.ticks[this.cursor++];
+      if (!wanted.has(tick.symbol)) {
+        continue;
+      }
+
+      const previous = latest.get(tick.symbol);
+      latest.set(tick.symbol, {
+        symbol: tick.symbol,
+        price: tick.price,
+        volume: (previous?.volume ?? 0) + tick.volume,
+        timestamp: at,
+      });
+    }
+  }
+}
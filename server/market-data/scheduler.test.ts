@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import type { InsertPriceBar, Stock } from "@shared/schema";
+import { MemStorage } from "../storage";
+import type { MarketDataProvider } from "./provider";
+import { MarketDataScheduler } from "./scheduler";
+
+// Quotes every stock at its current price
+const flatProvider: MarketDataProvider = {
+  name: "flat",
+  async getQuotes(stocks: Stock[], at: Date) {
+    return stocks.map((stock) => ({ symbol: stock.symbol, price: parseFloat(stock.price), volume: 10, timestamp: at }));
+  },
+};
+
+function minuteBar(timestamp: string, close: string): InsertPriceBar {
+  return { symbol: "AAPL", interval: "1m", open: close, high: close, low: close, close, volume: 5, timestamp: new Date(timestamp) };
+}
+
+describe("MarketDataScheduler", () => {
+  // At 00:01 on 3 March the 1D range and its hour of lookback reach back to
+  // 23:01 on 1 March, so 28 February's minutes are no longer needed
+  it("folds minute bars older than the 1D range into daily bars when a day starts", async () => {
+    const storage = new MemStorage();
+    await storage.upsertPriceBars([
+      minuteBar("2026-02-28T14:30:00Z", "170.00"),
+      minuteBar("2026-02-28T20:59:00Z", "172.00"),
+      minuteBar("2026-03-01T23:30:00Z", "174.00"),
+    ]);
+    const scheduler = new MarketDataScheduler(storage, flatProvider, { intervalMs: 1000, backfillDays: 0 });
+
+    await scheduler.tick(new Date("2026-03-02T23:59:00Z"));
+    expect(await storage.getPriceBars("AAPL", "1m")).toHaveLength(4);
+
+    await scheduler.tick(new Date("2026-03-03T00:01:00Z"));
+    const minutes = await storage.getPriceBars("AAPL", "1m");
+    expect(minutes.map((bar) => bar.timestamp.toISOString())).toEqual([
+      "2026-03-01T23:30:00.000Z",
+      "2026-03-02T23:59:00.000Z",
+      "2026-03-03T00:01:00.000Z",
+    ]);
+    expect(await storage.getPriceBars("AAPL", "1d")).toMatchObject([
+      { timestamp: new Date("2026-02-28T00:00:00Z"), open: "170.00", close: "172.00", volume: 10 },
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+import { EventEmitter } from "events";
+import type { InsertPriceBar, Stock } from "@shared/schema";
+import type { IStorage } from "../storage";
+import { barStart, rollupBars } from "../bars";
+import { log } from "../vite";
+import type { MarketDataProvider, Quote } from "./provider";
+
+// Minute bars are kept for the 1D history range and the hour before it;
+// whole days older than that are folded into daily bars
+const MINUTE_BAR_RETENTION_MS = 25 * 60 * 60 * 1000;
+
+export interface SchedulerOptions {
+  intervalMs: number;
+  // Days of daily history to backfill for symbols without any stored bars
+  backfillDays: number;
+}
+
+// Polls a provider on an interval, writes each quote into the stock row and
+// the current 1-minute bar, and emits "quotes" with the updated stocks and the
+// quotes behind them.
+export class MarketDataScheduler extends EventEmitter {
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+  private sessionDay?: number;
+  private previousCloses: Map<string, number>;
+  private minuteBars: Map<string, InsertPriceBar>;
+
+  constructor(
+    private storage: IStorage,
+    readonly provider: MarketDataProvider,
+    private options: SchedulerOptions,
+  ) {
+    super();
+    this.previousCloses = new Map();
+    this.minuteBars = new Map();
+  }
+
+  async start() {
+    if (this.timer) {
+      return;
+    }
+
+    await this.backfill(new Date());
+    await this.trimMinuteBars(new Date());
+    this.timer = setInterval(() => void this.tick(), this.options.intervalMs);
+    log(`${this.provider.name} feed every ${this.options.intervalMs}ms`, "market-data");
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async backfill(until: Date) {
+    if (!this.provider.backfill) {
+      return;
+    }
+
+    for (const stock of await this.storage.getAllStocks()) {
+      const history = await this.storage.getPriceBars(stock.symbol, "1d");
+      if (history.length === 0) {
+        await this.storage.upsertPriceBars(this.provider.backfill(stock, until, this.options.backfillDays));
+      }
+    }
+  }
+
+  async tick(at = new Date()) {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      const stocks = await this.storage.getAllStocks();
+      const quotes = await this.provider.getQuotes(stocks, at);
+
+      // A new UTC day makes the last price the previous close
+      const day = barStart(at, "1d").getTime();
+      const newSession = this.sessionDay !== undefined && this.sessionDay !== day;
+      this.sessionDay = day;
+
+      const bySymbol = new Map(stocks.map((stock) => [stock.symbol, stock]));
+      const updated: Stock[] = [];
+      const bars: InsertPriceBar[] = [];
+
+      for (const quote of quotes) {
+        const stock = bySymbol.get(quote.symbol);
+        if (!stock) {
+          continue;
+        }
+
+        const price = parseFloat(stock.price);
+        if (newSession || !this.previousCloses.has(stock.symbol)) {
+          this.previousCloses.set(stock.symbol, newSession ? price : price - parseFloat(stock.change));
+        }
+        const previousClose = this.previousCloses.get(stock.symbol)!;
+        const change = quote.price - previousClose;
+
+        const { id: _id, ...fields } = stock;
+        updated.push(await this.storage.updateStock(stock.symbol, {
+          ...fields,
+          price: quote.price.toFixed(2),
+          change: change.toFixed(2),
+          changePercent: (previousClose > 0 ? (change / previousClose) * 100 : 0).toFixed(2),
+          volume: (newSession ? 0 : stock.volume) + quote.volume,
+        }));
+        bars.push(this.recordMinute(quote));
+      }
+
+      await this.storage.upsertPriceBars(bars);
+      if (newSession) {
+        await this.trimMinuteBars(at);
+      }
+      if (updated.length > 0) {
+        this.emit("quotes", updated, quotes);
+      }
+    } catch (error) {
+      log(`tick failed: ${(error as Error).message}`, "market-data");
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Rolls the minute bars of days before the retention window up into daily
+  // bars, for days that have none stored, then deletes them
+  private async trimMinuteBars(now: Date) {
+    const cutoff = barStart(new Date(now.getTime() - MINUTE_BAR_RETENTION_MS), "1d");
+    const lastKept = new Date(cutoff.getTime() - 1);
+
+    for (const stock of await this.storage.getAllStocks()) {
+      const minutes = await this.storage.getPriceBars(stock.symbol, "1m", undefined, lastKept);
+      if (minutes.length === 0) {
+        continue;
+      }
+      const daily = await this.storage.getPriceBars(stock.symbol, "1d", barStart(minutes[0].timestamp, "1d"), lastKept);
+      const storedDays = new Set(daily.map((bar) => bar.timestamp.getTime()));
+      await this.storage.upsertPriceBars(
+        rollupBars(minutes, "1d").filter((bar) => !storedDays.has(bar.timestamp.getTime())),
+      );
+    }
+
+    const trimmed = await this.storage.deletePriceBars("1m", cutoff);
+    if (trimmed > 0) {
+      log(`trimmed ${trimmed} minute bars before ${cutoff.toISOString()}`, "market-data");
+    }
+  }
+
+  // Folds a quote into the symbol's current 1-minute bar
+  private recordMinute(quote: Quote): InsertPriceBar {
+    const start = barStart(quote.timestamp, "1m");
+    const price = quote.price.toFixed(2);
+    const current = this.minuteBars.get(quote.symbol);
+
+    const bar: InsertPriceBar = current && current.timestamp.getTime() === start.getTime()
+      ? {
+          ...current,
+          high: Math.max(parseFloat(current.high), quote.price).toFixed(2),
+          low: Math.min(parseFloat(current.low), quote.price).toFixed(2),
+          close: price,
+          volume: current.volume + quote.volume,
+        }
+      : {
+          symbol: quote.symbol,
+          interval: "1m",
+          open: price,
+          high: price,
+          low: price,
+          close: price,
+          volume: quote.volume,
+          timestamp: start,
+        };
+
+    this.minuteBars.set(quote.symbol, bar);
+    return bar;
+  }
+}
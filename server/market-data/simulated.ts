@@ -0,0 +1,153 @@
+import type { InsertPriceBar, Stock } from "@shared/schema";
+import { barStart } from "../bars";
+import type { MarketDataProvider, Quote } from "./provider";
+import { createRandom, hashString, normal } from "./random";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const TRADING_DAYS_PER_YEAR = 252;
+const TRADING_YEAR_MS = TRADING_DAYS_PER_YEAR * 6.5 * 60 * MINUTE_MS;
+
+export interface SimulatedFeedOptions {
+  seed: number;
+  // Market time each getQuotes() call advances, so the path depends only on
+  // the seed and the number of calls, never on wall-clock jitter.
+  stepMs: number;
+  // Annualised drift and volatility of the geometric Brownian motion
+  drift?: number;
+  volatility?: number;
+}
+
+interface SymbolState {
+  price: number;
+  random: () => number;
+  volumePerStep: number;
+}
+
+function toPrice(value: number): string {
+  return value.toFixed(2);
+}
+
+// Offline price feed: every symbol follows its own seeded geometric Brownian
+// motion starting from the price stored when the symbol is first seen.
+export class SimulatedMarketDataProvider implements MarketDataProvider {
+  readonly name = "simulated";
+  private states: Map<string, SymbolState>;
+  private drift: number;
+  private volatility: number;
+
+  constructor(private options: SimulatedFeedOptions) {
+    this.states = new Map();
+    this.drift = options.drift ?? 0.08;
+    this.volatility = options.volatility ?? 0.3;
+  }
+
+  private stateFor(stock: Stock): SymbolState {
+    let state = this.states.get(stock.symbol);
+    if (!state) {
+      const stepsPerSession = (6.5 * 60 * MINUTE_MS) / this.options.stepMs;
+      state = {
+        price: parseFloat(stock.price),
+        random: createRandom(hashString(stock.symbol, this.options.seed)),
+        volumePerStep: stock.volume / stepsPerSession,
+      };
+      this.states.set(stock.symbol, state);
+    }
+    return state;
+  }
+
+  // One GBM step of dtYears for a log-price
+  private logStep(random: () => number, dtYears: number): number {
+    const sigma = this.volatility;
+    return (this.drift - (sigma * sigma) / 2) * dtYears + sigma * Math.sqrt(dtYears) * normal(random);
+  }
+
+  async getQuotes(stocks: Stock[], at: Date): Promise<Quote[]> {
+    const dtYears = this.options.stepMs / TRADING_YEAR_MS;
+
+    return stocks.map((stock) => {
+      const state = this.stateFor(stock);
+      state.price *= Math.exp(this.logStep(state.random, dtYears));
+
+      return {
+        symbol: stock.symbol,
+        price: Math.round(state.price * 100) / 100,
+        volume: Math.round(state.volumePerStep * (0.5 + state.random())),
+        timestamp: at,
+      };
+    });
+  }
+
+  // Daily bars for the `days` days before `until` ending at the previous close
+  // (price - change), then minute bars for the current UTC day ending at the
+  // current price. Paths are pinned to those anchors with a linear drift fix
+  // in log space, and use their own seed so live quotes are unaffected.
+  backfill(stock: Stock, until: Date, days: number): InsertPriceBar[] {
+    const random = createRandom(hashString(`${stock.symbol}:history`, this.options.seed));
+    const price = parseFloat(stock.price);
+    const previousClose = price - parseFloat(stock.change);
+    const today = barStart(until, "1d").getTime();
+    const bars: InsertPriceBar[] = [];
+
+    const dailyPath = this.pinnedPath(random, days, 1 / TRADING_DAYS_PER_YEAR, previousClose, false);
+    const dailySigma = this.volatility / Math.sqrt(TRADING_DAYS_PER_YEAR);
+    for (let i = 1; i <= days; i++) {
+      const open = dailyPath[i - 1];
+      const close = dailyPath[i];
+      bars.push({
+        symbol: stock.symbol,
+        interval: "1d",
+        open: toPrice(open),
+        high: toPrice(Math.max(open, close) * (1 + Math.abs(normal(random)) * dailySigma * 0.5)),
+        low: toPrice(Math.min(open, close) * (1 - Math.abs(normal(random)) * dailySigma * 0.5)),
+        close: toPrice(close),
+        volume: Math.round(stock.volume * (0.7 + 0.6 * random())),
+        timestamp: new Date(today - (days - i + 1) * DAY_MS),
+      });
+    }
+
+    const minutes = Math.floor((until.getTime() - today) / MINUTE_MS);
+    if (minutes > 0) {
+      const minutePath = this.pinnedPath(random, minutes, MINUTE_MS / TRADING_YEAR_MS, previousClose, true, price);
+      for (let i = 1; i <= minutes; i++) {
+        const open = minutePath[i - 1];
+        const close = minutePath[i];
+        bars.push({
+          symbol: stock.symbol,
+          interval: "1m",
+          open: toPrice(open),
+          high: toPrice(Math.max(open, close)),
+          low: toPrice(Math.min(open, close)),
+          close: toPrice(close),
+          volume: Math.round((stock.volume / (24 * 60)) * (0.5 + random())),
+          timestamp: new Date(today + (i - 1) * MINUTE_MS),
+        });
+      }
+    }
+
+    return bars;
+  }
+
+  // A GBM path of `steps` steps. Pinned at the end to `anchor`, or, when
+  // startsAtAnchor is set, running from `anchor` to `target`.
+  private pinnedPath(
+    random: () => number,
+    steps: number,
+    dtYears: number,
+    anchor: number,
+    startsAtAnchor: boolean,
+    target = anchor,
+  ): number[] {
+    const logs = [0];
+    for (let i = 1; i <= steps; i++) {
+      logs.push(logs[i - 1] + this.logStep(random, dtYears));
+    }
+
+    const end = logs[steps];
+    if (startsAtAnchor) {
+      const shift = Math.log(target / anchor) - end;
+      return logs.map((value, i) => anchor * Math.exp(value + (shift * i) / steps));
+    }
+    return logs.map((value) => anchor * Math.exp(value - end));
+  }
+}
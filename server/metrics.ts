@@ -0,0 +1,200 @@
+import type { Drawdown, MetricsRange, PortfolioMetrics, PortfolioScope } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { portfolioValueSeries, type ValuePoint } from "./history";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// History samples every calendar day, so a year has 365 daily returns
+export const PERIODS_PER_YEAR = 365;
+const YEAR_MS = PERIODS_PER_YEAR * DAY_MS;
+const IRR_ITERATIONS = 200;
+const IRR_LOWEST_RATE = -0.9999;
+const IRR_HIGHEST_RATE = 1e6;
+
+// The return from the sample before `index` to the one at it
+export interface PeriodReturn {
+  index: number;
+  time: number;
+  value: number;
+}
+
+interface IndexLevel {
+  time: number;
+  level: number;
+}
+
+interface CashFlow {
+  time: number;
+  amount: number;
+}
+
+// Two decimal places, without the sign on values that round to zero
+function fixed(value: number | null): string | null {
+  if (value === null || !Number.isFinite(value)) return null;
+  const text = value.toFixed(2);
+  return text === "-0.00" ? "0.00" : text;
+}
+
+export function percent(value: number | null): string | null {
+  return fixed(value === null ? null : value * 100);
+}
+
+export function ratio(value: number | null): string | null {
+  return fixed(value);
+}
+
+export function mean(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+// Returns between samples with the period's deposits, withdrawals and
+// transfers taken out of the closing value, so money moving in or out is not
+// counted as gain. Periods that start with nothing in the account have none.
+export function periodReturns(points: ValuePoint[]): PeriodReturn[] {
+  const returns: PeriodReturn[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const start = points[i - 1].value.toNumber();
+    if (start <= 0) continue;
+    const end = points[i].value.minus(points[i].flow).toNumber();
+    returns.push({ index: i, time: points[i].timestamp.getTime(), value: end / start - 1 });
+  }
+  return returns;
+}
+
+// Growth of one unit under the daily returns, starting the day before the
+// first of them
+function returnIndex(returns: PeriodReturn[]): IndexLevel[] {
+  if (returns.length === 0) return [];
+  const levels: IndexLevel[] = [{ time: returns[0].time - DAY_MS, level: 1 }];
+  returns.forEach((period) => {
+    levels.push({ time: period.time, level: levels[levels.length - 1].level * (1 + period.value) });
+  });
+  return levels;
+}
+
+// The deepest fall from a running peak, as a negative fraction, and how long
+// it took to win back; null if the index never fell
+function maxDrawdown(levels: IndexLevel[]): { depth: number; drawdown: Drawdown } | null {
+  let peak = levels[0];
+  let worst: { peak: IndexLevel; trough: IndexLevel; depth: number } | undefined;
+  levels.forEach((point) => {
+    if (point.level >= peak.level) {
+      peak = point;
+      return;
+    }
+    const depth = point.level / peak.level - 1;
+    if (!worst || depth < worst.depth) {
+      worst = { peak, trough: point, depth };
+    }
+  });
+  if (!worst) return null;
+
+  const { peak: top, trough, depth } = worst;
+  const recovery = levels.find((point) => point.time > trough.time && point.level >= top.level);
+  const end = recovery ?? levels[levels.length - 1];
+  return {
+    depth,
+    drawdown: {
+      percent: percent(depth)!,
+      peakAt: new Date(top.time).toISOString(),
+      troughAt: new Date(trough.time).toISOString(),
+      recoveredAt: recovery ? new Date(recovery.time).toISOString() : null,
+      durationDays: Math.round((end.time - top.time) / DAY_MS),
+    },
+  };
+}
+
+function presentValue(flows: CashFlow[], rate: number): number {
+  const start = flows[0].time;
+  return flows.reduce((total, flow) => total + flow.amount / Math.pow(1 + rate, (flow.time - start) / YEAR_MS), 0);
+}
+
+// The annual rate that discounts the flows to zero, by bisection. Null when
+// the flows do not change sign or no rate in range balances them.
+function internalRateOfReturn(flows: CashFlow[]): number | null {
+  if (!flows.some((flow) => flow.amount < 0) || !flows.some((flow) => flow.amount > 0)) return null;
+  if (flows[flows.length - 1].time <= flows[0].time) return null;
+
+  let low = IRR_LOWEST_RATE;
+  let high = IRR_HIGHEST_RATE;
+  const lowValue = presentValue(flows, low);
+  if (Math.sign(lowValue) === Math.sign(presentValue(flows, high))) return null;
+
+  for (let i = 0; i < IRR_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(presentValue(flows, mid)) === Math.sign(lowValue)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// The investor's side of the range: the starting value paid in, each
+// deposit paid in and withdrawal taken out, and the ending value taken out
+function investorFlows(points: ValuePoint[]): CashFlow[] {
+  const flows: CashFlow[] = [];
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first.value.isZero()) {
+    flows.push({ time: first.timestamp.getTime(), amount: -first.value.toNumber() });
+  }
+  points.slice(1).forEach((point) => {
+    if (!point.flow.isZero()) {
+      flows.push({ time: point.timestamp.getTime(), amount: -point.flow.toNumber() });
+    }
+  });
+  flows.push({ time: last.timestamp.getTime(), amount: last.value.toNumber() });
+  return flows;
+}
+
+// Time- and money-weighted returns and risk statistics over a range of daily
+// values. Sharpe and Sortino measure returns above `riskFreeRate`, an annual
+// fraction; Sortino only counts days below it as risk.
+export async function computePortfolioMetrics(
+  storage: IStorage,
+  scope: PortfolioScope,
+  range: MetricsRange,
+  riskFreeRate = 0,
+  now = new Date(),
+): Promise<PortfolioMetrics> {
+  const points = await portfolioValueSeries(storage, scope, range, now);
+  const returns = periodReturns(points);
+  const levels = returnIndex(returns);
+  const worst = levels.length > 0 ? maxDrawdown(levels) : null;
+
+  const twr = levels.length > 0 ? levels[levels.length - 1].level - 1 : null;
+  const years = levels.length > 0 ? (levels[levels.length - 1].time - levels[0].time) / YEAR_MS : 0;
+  const annualized = twr !== null && years > 0 ? Math.pow(1 + twr, 1 / years) - 1 : null;
+
+  const dailyRiskFree = Math.pow(1 + riskFreeRate, 1 / PERIODS_PER_YEAR) - 1;
+  const excess = returns.map((period) => period.value - dailyRiskFree);
+  let volatility: number | null = null;
+  let sharpe: number | null = null;
+  let sortino: number | null = null;
+  if (returns.length >= 2) {
+    const average = mean(returns.map((period) => period.value));
+    const variance = returns.reduce((total, period) => total + (period.value - average) ** 2, 0) / (returns.length - 1);
+    const annualExcess = mean(excess) * PERIODS_PER_YEAR;
+    const downside = Math.sqrt(mean(excess.map((value) => Math.min(value, 0) ** 2)) * PERIODS_PER_YEAR);
+    volatility = Math.sqrt(variance * PERIODS_PER_YEAR);
+    sharpe = volatility > 0 ? annualExcess / volatility : null;
+    sortino = downside > 0 ? annualExcess / downside : null;
+  }
+
+  return {
+    range,
+    from: points[0].timestamp.toISOString(),
+    to: points[points.length - 1].timestamp.toISOString(),
+    periods: returns.length,
+    riskFreeRate: percent(riskFreeRate)!,
+    timeWeightedReturn: percent(twr),
+    annualizedReturn: percent(annualized),
+    moneyWeightedReturn: percent(internalRateOfReturn(investorFlows(points))),
+    volatility: percent(volatility),
+    sharpeRatio: ratio(sharpe),
+    sortinoRatio: ratio(sortino),
+    calmarRatio: ratio(annualized !== null && worst ? annualized / Math.abs(worst.depth) : null),
+    maxDrawdown: worst?.drawdown ?? null,
+  };
+}
@@ -0,0 +1,182 @@
+import { EventEmitter } from "events";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { InsertOrder } from "@shared/schema";
+import { storage } from "./storage";
+import { executeTrade } from "./trades";
+import { OrderMatchingEngine, OrderStateError } from "./order-matching";
+import type { MarketDataScheduler } from "./market-data";
+
+let feed: EventEmitter;
+let engine: OrderMatchingEngine;
+
+beforeEach(async () => {
+  feed = new EventEmitter();
+  engine = new OrderMatchingEngine(storage, 0.1);
+  engine.attach(feed as unknown as MarketDataScheduler);
+  await quote("JNJ", "158.72");
+});
+
+// Moves a stock's quote without a tick
+async function quote(symbol: string, price: string) {
+  const stock = (await storage.getStock(symbol))!;
+  return storage.updateStock(symbol, { ...stock, price });
+}
+
+// A quote from the feed; the engine matches it in the background
+async function tick(symbol: string, price: string, volume: number) {
+  const stock = await quote(symbol, price);
+  feed.emit("quotes", [stock], [{ symbol, price: Number(price), volume, timestamp: new Date() }]);
+}
+
+async function expectOrder(id: number, expected: object) {
+  await vi.waitFor(async () => expect(await storage.getOrder(id)).toMatchObject(expected));
+}
+
+// A fresh paper account of the sample user with $100,000 and, optionally,
+// 10 JNJ in it
+async function paperAccount(withShares = false) {
+  const portfolio = await storage.createPortfolio({ userId: 1, name: "Test", accountType: "paper" });
+  const account = { userId: 1, portfolioId: portfolio.id };
+  await storage.createTransaction({ ...account, type: "deposit", amount: "100000" });
+  if (withShares) {
+    await executeTrade({ ...account, type: "buy", symbol: "JNJ", shares: "10" });
+  }
+  return account;
+}
+
+function order(account: { userId: number; portfolioId: number }, terms: Partial<InsertOrder>): InsertOrder {
+  return { ...account, symbol: "JNJ", side: "buy", type: "market", quantity: "10", ...terms };
+}
+
+describe("OrderMatchingEngine", () => {
+  it("only places orders in paper trading accounts", async () => {
+    const brokerage = { userId: 1, portfolioId: 1 };
+    await expect(engine.place(order(brokerage, { type: "limit", limitPrice: "150" })))
+      .rejects.toThrow("Orders can only be placed in paper trading accounts");
+    await expect(engine.placeOco([
+      order(brokerage, { side: "sell", type: "limit", limitPrice: "170" }),
+      order(brokerage, { side: "sell", type: "stop", stopPrice: "150" }),
+    ])).rejects.toThrow("Orders can only be placed in paper trading accounts");
+    expect(await storage.getOrders(brokerage, { status: "all", limit: 50 })).toEqual([]);
+  });
+
+  it("fills a marketable limit at the quote when it is placed", async () => {
+    const account = await paperAccount();
+    const placed = await engine.place(order(account, { type: "limit", limitPrice: "160" }));
+
+    expect(placed).toMatchObject({ status: "filled", filledQuantity: "10.000000", averageFillPrice: "158.7200" });
+    const [fill] = await storage.getTransactions(account);
+    expect(fill).toMatchObject({ type: "buy", amount: "1587.20", orderId: placed.id });
+  });
+
+  it("rests a limit until the quote reaches it and fills it by the volume on offer", async () => {
+    const account = await paperAccount();
+    const placed = await engine.place(order(account, { type: "limit", limitPrice: "150" }));
+    expect(placed.status).toBe("working");
+
+    await tick("JNJ", "149.50", 40);
+    await expectOrder(placed.id, { status: "partially_filled", filledQuantity: "4.000000" });
+    await tick("JNJ", "151.00", 1000);
+    await tick("JNJ", "149.00", 1000);
+    await expectOrder(placed.id, { status: "filled", filledQuantity: "10.000000", averageFillPrice: "149.2000" });
+  });
+
+  it("rejects sells of shares the account does not hold", async () => {
+    const account = await paperAccount();
+    await expect(engine.place(order(account, { side: "sell", type: "limit", limitPrice: "170" })))
+      .rejects.toThrow("Cannot sell 10 JNJ: 0 held and not on open orders");
+  });
+
+  it("raises a trailing stop with the price and sells once it is hit", async () => {
+    const account = await paperAccount(true);
+    const placed = await engine.place(order(account, { side: "sell", type: "trailing_stop", trailPercent: "5" }));
+    expect(placed).toMatchObject({ status: "working", stopPrice: "150.78" });
+
+    await tick("JNJ", "170.00", 1000);
+    await expectOrder(placed.id, { stopPrice: "161.50", triggered: false });
+    await tick("JNJ", "161.00", 1000);
+    await expectOrder(placed.id, { status: "filled", triggered: true, averageFillPrice: "161.0000" });
+  });
+
+  it("cancels the other leg of a one-cancels-other pair when one fills", async () => {
+    const account = await paperAccount(true);
+    const [takeProfit, stopLoss] = await engine.placeOco([
+      order(account, { side: "sell", type: "limit", limitPrice: "170" }),
+      order(account, { side: "sell", type: "stop", stopPrice: "150" }),
+    ]);
+
+    await tick("JNJ", "171.00", 1000);
+    await expectOrder(takeProfit.id, { status: "filled" });
+    await expectOrder(stopLoss.id, { status: "cancelled", statusReason: `One-cancels-other: #${takeProfit.id} filled` });
+  });
+
+  it("holds a bracket's exits until the entry fills, then works them for its shares", async () => {
+    const account = await paperAccount();
+    const exit = { side: "sell" as const, timeInForce: "GTC" as const };
+    const [entry, takeProfit, stopLoss] = await engine.placeBracket(
+      order(account, { type: "limit", limitPrice: "150" }),
+      [
+        order(account, { ...exit, type: "limit", limitPrice: "170" }),
+        order(account, { ...exit, type: "stop", stopPrice: "140" }),
+      ],
+    );
+    expect([entry.status, takeProfit.status, stopLoss.status]).toEqual(["working", "held", "held"]);
+
+    await tick("JNJ", "149.00", 1000);
+    await expectOrder(entry.id, { status: "filled" });
+    await expectOrder(takeProfit.id, { status: "working", quantity: "10.000000" });
+    await expectOrder(stopLoss.id, { status: "working", quantity: "10.000000" });
+  });
+
+  it("cancels a bracket's exits when the entry is cancelled unfilled", async () => {
+    const account = await paperAccount();
+    const [entry, takeProfit] = await engine.placeBracket(
+      order(account, { type: "limit", limitPrice: "150" }),
+      [
+        order(account, { side: "sell", type: "limit", limitPrice: "170" }),
+        order(account, { side: "sell", type: "stop", stopPrice: "140" }),
+      ],
+    );
+
+    await engine.cancel(entry);
+    await expectOrder(takeProfit.id, { status: "cancelled", statusReason: `Entry #${entry.id} cancelled without filling` });
+  });
+
+  it("replaces an open order with new terms in its place", async () => {
+    const account = await paperAccount();
+    const placed = await engine.place(order(account, { type: "limit", limitPrice: "150" }));
+    const replacement = await engine.replace(placed, { limitPrice: "155", quantity: "6" });
+
+    expect(replacement).toMatchObject({ status: "working", limitPrice: "155.00", quantity: "6.000000", replacesOrderId: placed.id });
+    await expectOrder(placed.id, { status: "cancelled", statusReason: `Replaced by #${replacement.id}` });
+    await expect(engine.replace(placed, { limitPrice: "152" })).rejects.toThrow(OrderStateError);
+  });
+
+  it.each([0, 1])("replaces leg %i of a covered one-cancels-other pair", async (index) => {
+    const account = await paperAccount(true);
+    const legs = await engine.placeOco([
+      order(account, { side: "sell", type: "limit", limitPrice: "170" }),
+      order(account, { side: "sell", type: "stop", stopPrice: "150" }),
+    ]);
+    const partner = legs[1 - index];
+
+    const replacement = await engine.replace(legs[index], index === 0 ? { limitPrice: "175" } : { stopPrice: "152" });
+    expect(replacement).toMatchObject({ status: "working", ocoOrderId: partner.id });
+    await expectOrder(partner.id, { status: "working", ocoOrderId: replacement.id });
+  });
+
+  it("replaces a released bracket exit", async () => {
+    const account = await paperAccount();
+    const [entry, takeProfit, stopLoss] = await engine.placeBracket(
+      order(account, { type: "limit", limitPrice: "160" }),
+      [
+        order(account, { side: "sell", type: "limit", limitPrice: "170" }),
+        order(account, { side: "sell", type: "stop", stopPrice: "140" }),
+      ],
+    );
+    expect(entry.status).toBe("filled");
+
+    const replacement = await engine.replace((await storage.getOrder(stopLoss.id))!, { stopPrice: "145" });
+    expect(replacement).toMatchObject({ stopPrice: "145.00", parentOrderId: entry.id, ocoOrderId: takeProfit.id });
+  });
+});
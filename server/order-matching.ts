@@ -0,0 +1,419 @@
+import { allowsTimeInForce, openOrderStatuses, orderTypeLabels, type InsertOrder, type Order, type OrderReplace, type OrderSide, type OrderStatus, type OrderType, type Stock, type TimeInForce } from "@shared/schema";
+import { COST_DP, Decimal, formatMoney, formatShares, toMoney, toShares } from "@shared/decimal";
+import { storage, type IStorage } from "./storage";
+import { executeTrade, TradeRejectedError } from "./trades";
+import { barStart } from "./bars";
+import { log } from "./vite";
+import type { MarketDataScheduler, Quote } from "./market-data";
+
+// An order that cannot be changed because it is already closed
+export class OrderStateError extends TradeRejectedError {
+  status = 409;
+}
+
+function isOpenOrder(order: Order): boolean {
+  return openOrderStatuses.includes(order.status as OrderStatus);
+}
+
+export function remainingQuantity(order: Order): Decimal {
+  return Decimal.from(order.quantity).minus(order.filledQuantity);
+}
+
+function hasStop(order: Pick<Order, "type">): boolean {
+  return order.type === "stop" || order.type === "stop_limit" || order.type === "trailing_stop";
+}
+
+// A stop triggers once the market trades through it: at or above the stop for
+// buys, at or below for sells
+function stopReached(order: Order, price: Decimal): boolean {
+  return order.side === "buy" ? price.gte(order.stopPrice!) : price.lte(order.stopPrice!);
+}
+
+// The stop a trailing stop sets at `price`: its trail below for sells, above
+// for buys
+function trailingStop(order: Order, price: Decimal): Decimal {
+  const trail = order.trailAmount !== null ? Decimal.from(order.trailAmount) : price.times(order.trailPercent!).div(100);
+  return Decimal.from(toMoney(order.side === "sell" ? price.minus(trail) : price.plus(trail)));
+}
+
+// Limit prices cap what a buy pays and floor what a sell receives
+function marketable(order: Order, price: Decimal): boolean {
+  if (order.limitPrice === null) return true;
+  return order.side === "buy" ? price.lte(order.limitPrice) : price.gte(order.limitPrice);
+}
+
+// The price an open buy is expected to pay, for reserving cash against it
+function reservePrice(order: Pick<Order, "limitPrice" | "stopPrice">, price: Decimal): Decimal {
+  if (order.limitPrice !== null) return Decimal.from(order.limitPrice);
+  if (order.stopPrice !== null) return Decimal.max(order.stopPrice, price);
+  return price;
+}
+
+// Works open orders against the market data feed. Each quote offers a share of
+// the volume it reports (ORDER_FILL_PARTICIPATION, 0.1 by default) to the open
+// orders on its symbol, oldest first, so large orders fill over several ticks.
+// Without a feed, or before a symbol's first tick, liquidity is unlimited.
+//
+// Placing, cancelling and replacing run one at a time with the ticks, so a
+// fill never races a change to the order it fills.
+export class OrderMatchingEngine {
+  private queue: Promise<unknown> = Promise.resolve();
+  private liquidity: Map<string, Decimal>;
+
+  constructor(private storage: IStorage, private participation: number) {
+    this.liquidity = new Map();
+  }
+
+  attach(scheduler?: MarketDataScheduler) {
+    scheduler?.on("quotes", (stocks: Stock[], quotes: Quote[]) => {
+      void this.serialize(() => this.matchQuotes(stocks, quotes, new Date())).catch((error) => {
+        log(`matching failed: ${(error as Error).message}`, "orders");
+      });
+    });
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Opens an order after checking the account can cover it alongside its
+  // other open orders, then matches it against the latest quote
+  place(order: InsertOrder): Promise<Order> {
+    return this.serialize(async () => {
+      await this.checkPaperAccount(order.portfolioId);
+      const stock = await this.quoted(order.symbol);
+      await this.checkCoverage(order, Decimal.from(stock.price));
+      return this.work(await this.storage.createOrder(order), stock);
+    });
+  }
+
+  // Opens a bracket's entry with its two exits held as a one-cancels-other
+  // pair until the entry closes. Returns the entry, then the exits.
+  placeBracket(entry: InsertOrder, exits: [InsertOrder, InsertOrder]): Promise<Order[]> {
+    return this.serialize(async () => {
+      await this.checkPaperAccount(entry.portfolioId);
+      const stock = await this.quoted(entry.symbol);
+      await this.checkCoverage(entry, Decimal.from(stock.price));
+      const parent = await this.storage.createOrder(entry);
+      const legs = await this.createPair(exits.map((exit) => ({ ...exit, status: "held" as const, parentOrderId: parent.id })));
+      await this.work(parent, stock);
+      return this.reload([parent, ...legs]);
+    });
+  }
+
+  // Opens two orders for the same shares; a fill on either cancels the other
+  placeOco(legs: [InsertOrder, InsertOrder]): Promise<Order[]> {
+    return this.serialize(async () => {
+      await this.checkPaperAccount(legs[0].portfolioId);
+      const stock = await this.quoted(legs[0].symbol);
+      for (const leg of legs) {
+        await this.checkCoverage(leg, Decimal.from(stock.price));
+      }
+      const pair = await this.createPair(legs);
+      // A fill on the first leg may already have cancelled the second
+      for (const leg of pair) {
+        const [current] = await this.reload([leg]);
+        await this.work(current, stock);
+      }
+      return this.reload(pair);
+    });
+  }
+
+  cancel(order: Order, reason = "Cancelled by user"): Promise<Order> {
+    return this.serialize(async () => this.close(await this.openOrder(order.id), "cancelled", reason));
+  }
+
+  // Cancels an open order and opens one with the new terms for what is left
+  // to fill. Prices, trail and time in force default to the original's, and
+  // the replacement takes over its bracket and one-cancels-other links.
+  replace(order: Order, terms: OrderReplace): Promise<Order> {
+    return this.serialize(async () => {
+      const current = await this.openOrder(order.id);
+      await this.checkPaperAccount(current.portfolioId);
+      const stock = await this.quoted(current.symbol);
+      const children = await this.storage.getChildOrders(current.id);
+      const label = orderTypeLabels[current.type as OrderType];
+
+      if (children.length > 0 && Decimal.from(current.filledQuantity).isPositive()) {
+        throw new TradeRejectedError("A bracket entry that has started to fill can only be cancelled, which releases its exits");
+      }
+      if (terms.limitPrice !== undefined && current.limitPrice === null) {
+        throw new TradeRejectedError(`${label} orders have no limit price`);
+      }
+      if (terms.stopPrice !== undefined && (current.type === "trailing_stop" || !hasStop(current))) {
+        throw new TradeRejectedError(
+          current.type === "trailing_stop" ? "Trailing stops set their own stop price" : `${label} orders have no stop price`,
+        );
+      }
+      if (terms.trailAmount !== undefined && current.trailAmount === null) {
+        throw new TradeRejectedError("Only trailing stops that trail by an amount can change it");
+      }
+      if (terms.trailPercent !== undefined && current.trailPercent === null) {
+        throw new TradeRejectedError("Only trailing stops that trail by a percent can change it");
+      }
+
+      // A new trail re-arms the stop from the current price
+      const trailChanged = terms.trailAmount !== undefined || terms.trailPercent !== undefined;
+      const replacement: InsertOrder = {
+        userId: current.userId,
+        portfolioId: current.portfolioId,
+        symbol: current.symbol,
+        side: current.side as OrderSide,
+        type: current.type as OrderType,
+        quantity: terms.quantity ?? toShares(remainingQuantity(current)),
+        limitPrice: current.limitPrice !== null ? terms.limitPrice ?? current.limitPrice : null,
+        stopPrice: current.stopPrice !== null && !trailChanged ? terms.stopPrice ?? current.stopPrice : null,
+        trailAmount: current.trailAmount !== null ? terms.trailAmount ?? current.trailAmount : null,
+        trailPercent: current.trailPercent !== null ? terms.trailPercent ?? current.trailPercent : null,
+        timeInForce: terms.timeInForce ?? (current.timeInForce as TimeInForce),
+        status: current.status === "held" ? "held" : "new",
+        triggered: current.triggered && terms.stopPrice === undefined && !trailChanged,
+        replacesOrderId: current.id,
+        parentOrderId: current.parentOrderId,
+        ocoOrderId: current.ocoOrderId,
+      };
+      if (!allowsTimeInForce(replacement.type, replacement.timeInForce as TimeInForce)) {
+        throw new TradeRejectedError("IOC is only available for market and limit orders");
+      }
+      // Held exits are covered by the shares their entry fills
+      if (replacement.status !== "held") {
+        await this.checkCoverage(replacement, Decimal.from(stock.price), current.id);
+      }
+
+      const opened = await this.storage.createOrder(replacement);
+      await this.storage.updateOrder(current.id, { status: "cancelled", statusReason: `Replaced by #${opened.id}` });
+      if (current.ocoOrderId !== null) {
+        await this.storage.updateOrder(current.ocoOrderId, { ocoOrderId: opened.id });
+      }
+      for (const child of children) {
+        await this.storage.updateOrder(child.id, { parentOrderId: opened.id });
+      }
+      return this.work(opened, stock);
+    });
+  }
+
+  private async quoted(symbol: string): Promise<Stock> {
+    const stock = await this.storage.getStock(symbol);
+    if (!stock) {
+      throw new TradeRejectedError(`Unknown symbol ${symbol}`);
+    }
+    return stock;
+  }
+
+  // Resting orders fill against the simulated feed, so only paper accounts
+  // may place them; brokerage and retirement accounts trade at the quote
+  // through POST /api/transactions
+  private async checkPaperAccount(portfolioId: number) {
+    const portfolio = await this.storage.getPortfolio(portfolioId);
+    if (portfolio?.accountType !== "paper") {
+      throw new TradeRejectedError("Orders can only be placed in paper trading accounts");
+    }
+  }
+
+  private async openOrder(id: number): Promise<Order> {
+    const order = await this.storage.getOrder(id);
+    if (!order || !isOpenOrder(order)) {
+      throw new OrderStateError(`Order #${id} is ${order?.status ?? "gone"} and can no longer be changed`);
+    }
+    return order;
+  }
+
+  private async reload(orders: Order[]): Promise<Order[]> {
+    return Promise.all(orders.map(async (order) => (await this.storage.getOrder(order.id)) ?? order));
+  }
+
+  // Creates two orders that point at each other
+  private async createPair(legs: InsertOrder[]): Promise<Order[]> {
+    const first = await this.storage.createOrder(legs[0]);
+    const second = await this.storage.createOrder({ ...legs[1], ocoOrderId: first.id });
+    return [(await this.storage.updateOrder(first.id, { ocoOrderId: second.id }))!, second];
+  }
+
+  // Matches a newly opened order once; IOC orders give up what did not fill
+  private async work(order: Order, stock: Stock): Promise<Order> {
+    if (order.status === "held" || !isOpenOrder(order)) {
+      return order;
+    }
+    const worked = await this.match(order, Decimal.from(stock.price));
+    if (worked.timeInForce === "IOC" && isOpenOrder(worked)) {
+      return this.close(worked, "cancelled", "Unfilled quantity cancelled (IOC)");
+    }
+    return worked;
+  }
+
+  private async close(order: Order, status: "cancelled" | "expired", reason: string): Promise<Order> {
+    const closed = (await this.storage.updateOrder(order.id, { status, statusReason: reason }))!;
+    await this.cascade(closed);
+    return closed;
+  }
+
+  // Carries a fill or a close over to linked orders: the other leg of a
+  // one-cancels-other pair is cancelled, and once a bracket's entry closes its
+  // exits are released for the shares it filled, or cancelled if none
+  private async cascade(order: Order) {
+    const filled = Decimal.from(order.filledQuantity);
+    if (order.ocoOrderId !== null && (filled.isPositive() || !isOpenOrder(order))) {
+      const other = await this.storage.getOrder(order.ocoOrderId);
+      if (other && isOpenOrder(other)) {
+        await this.storage.updateOrder(other.id, {
+          status: "cancelled",
+          statusReason: `One-cancels-other: #${order.id} ${filled.isPositive() ? "filled" : order.status}`,
+        });
+      }
+    }
+
+    if (isOpenOrder(order)) return;
+    for (const child of await this.storage.getChildOrders(order.id)) {
+      if (child.status !== "held") continue;
+      await this.storage.updateOrder(child.id, filled.isPositive()
+        ? { status: "new", quantity: toShares(filled) }
+        : { status: "cancelled", statusReason: `Entry #${order.id} ${order.status} without filling` });
+    }
+  }
+
+  // Sells may not exceed the shares held less those already on open sells;
+  // buys may not exceed the cash left after open buys at their expected price.
+  // Held exits do not count yet, and a one-cancels-other pair counts once. A
+  // replacement takes the place of `excludeId` in its pair, so neither leg of
+  // that pair counts against it.
+  private async checkCoverage(order: InsertOrder, price: Decimal, excludeId?: number) {
+    const scope = { userId: order.userId, portfolioId: order.portfolioId };
+    const quantity = Decimal.from(order.quantity);
+    const open = (await this.storage.getOrders(scope, { status: "open", limit: 200 }))
+      .filter((other) =>
+        other.id !== excludeId &&
+        other.side === order.side &&
+        other.status !== "held" &&
+        (excludeId === undefined || other.ocoOrderId !== excludeId) &&
+        !(other.ocoOrderId !== null && other.ocoOrderId < other.id));
+
+    if (order.side === "sell") {
+      const positions = await this.storage.getPositions(scope);
+      const held = Decimal.from(positions.find((position) => position.symbol === order.symbol)?.quantity ?? 0);
+      const committed = Decimal.sum(open.filter((other) => other.symbol === order.symbol).map(remainingQuantity));
+      const free = Decimal.max(held.minus(committed), 0);
+      if (quantity.gt(free)) {
+        throw new TradeRejectedError(
+          `Cannot sell ${formatShares(quantity)} ${order.symbol}: ${formatShares(free)} held and not on open orders`,
+        );
+      }
+      return;
+    }
+
+    const [portfolio, stocks] = await Promise.all([
+      this.storage.getPortfolio(order.portfolioId),
+      this.storage.getAllStocks(),
+    ]);
+    const prices = new Map(stocks.map((stock) => [stock.symbol, Decimal.from(stock.price)]));
+    const committed = Decimal.sum(open.map((other) =>
+      remainingQuantity(other).times(reservePrice(other, prices.get(other.symbol) ?? Decimal.ZERO))));
+    const available = Decimal.max(Decimal.from(portfolio?.cashBalance ?? 0).minus(committed), 0);
+    const needed = quantity.times(reservePrice({ limitPrice: order.limitPrice ?? null, stopPrice: order.stopPrice ?? null }, price));
+    if (needed.gt(available)) {
+      throw new TradeRejectedError(
+        `Insufficient cash: ${formatMoney(needed)} needed, ${formatMoney(available)} available after open orders`,
+      );
+    }
+  }
+
+  private async matchQuotes(stocks: Stock[], quotes: Quote[], now: Date) {
+    quotes.forEach((quote) => this.liquidity.set(quote.symbol, Decimal.from(quote.volume).times(this.participation)));
+    const prices = new Map(stocks.map((stock) => [stock.symbol, Decimal.from(stock.price)]));
+    const session = barStart(now, "1d").getTime();
+
+    for (const { id } of await this.storage.getOpenOrders()) {
+      try {
+        // Earlier fills this tick may have cancelled or released the order
+        const order = await this.storage.getOrder(id);
+        if (!order || !isOpenOrder(order) || order.status === "held") continue;
+
+        // DAY orders expire when the UTC session they were placed in ends
+        if (order.timeInForce === "DAY" && barStart(order.createdAt ?? now, "1d").getTime() < session) {
+          await this.close(order, "expired", "Day order expired at session close");
+          continue;
+        }
+        const price = prices.get(order.symbol);
+        if (price) {
+          await this.match(order, price);
+        }
+      } catch (error) {
+        log(`order #${id}: ${(error as Error).message}`, "orders");
+      }
+    }
+  }
+
+  // Moves a trailing stop, triggers stops, then fills as much of an order as
+  // the price and the symbol's remaining liquidity allow. A fill the account
+  // can no longer cover cancels the rest of the order.
+  private async match(order: Order, price: Decimal): Promise<Order> {
+    let current = order;
+    if (current.type === "trailing_stop" && !current.triggered) {
+      current = await this.trail(current, price);
+    }
+    if (hasStop(current) && !current.triggered) {
+      if (!stopReached(current, price)) {
+        return this.markWorking(current);
+      }
+      current = (await this.storage.updateOrder(current.id, { triggered: true }))!;
+    }
+
+    const available = this.liquidity.get(current.symbol);
+    const remaining = remainingQuantity(current);
+    const quantity = Decimal.from(toShares(available === undefined ? remaining : Decimal.min(remaining, available)));
+    if (!marketable(current, price) || !quantity.isPositive()) {
+      return this.markWorking(current);
+    }
+
+    try {
+      await executeTrade({
+        type: current.side as OrderSide,
+        symbol: current.symbol,
+        shares: toShares(quantity),
+        price,
+        userId: current.userId,
+        portfolioId: current.portfolioId,
+        orderId: current.id,
+      });
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return this.close(current, "cancelled", error.message);
+      }
+      throw error;
+    }
+
+    if (available !== undefined) {
+      this.liquidity.set(current.symbol, available.minus(quantity));
+    }
+    const filled = Decimal.from(current.filledQuantity).plus(quantity);
+    const cost = Decimal.from(current.averageFillPrice ?? 0).times(current.filledQuantity).plus(quantity.times(price));
+    const updated = (await this.storage.updateOrder(current.id, {
+      filledQuantity: toShares(filled),
+      averageFillPrice: cost.div(filled).toFixed(COST_DP),
+      status: filled.gte(current.quantity) ? "filled" : "partially_filled",
+    }))!;
+    await this.cascade(updated);
+    return updated;
+  }
+
+  // A trailing stop follows the price: a sell's stop only ever rises with it
+  // and a buy's only falls
+  private async trail(order: Order, price: Decimal): Promise<Order> {
+    const stop = trailingStop(order, price);
+    if (order.stopPrice !== null && (order.side === "sell" ? stop.lte(order.stopPrice) : stop.gte(order.stopPrice))) {
+      return order;
+    }
+    return (await this.storage.updateOrder(order.id, { stopPrice: toMoney(stop) }))!;
+  }
+
+  private async markWorking(order: Order): Promise<Order> {
+    if (order.status !== "new") return order;
+    return (await this.storage.updateOrder(order.id, { status: "working" }))!;
+  }
+}
+
+export const orderMatcher = new OrderMatchingEngine(
+  storage,
+  parseFloat(process.env.ORDER_FILL_PARTICIPATION || "0.1"),
+);
@@ -0,0 +1,196 @@
+import type { Express, Request, Response } from "express";
+import { fromZodError } from "zod-validation-error";
+import {
+  bracketOrderSchema,
+  ocoOrderSchema,
+  orderQuerySchema,
+  orderReplaceSchema,
+  orderRequestSchema,
+  type InsertOrder,
+  type Order,
+  type StopLoss,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { requireUserAccess } from "./auth";
+import { portfolioScope, writableAccount } from "./accounts";
+import { TradeRejectedError } from "./trades";
+import { orderMatcher } from "./order-matching";
+
+// The order named by :id if the session user placed it. Sends the 404 itself,
+// also for ids that are not numbers.
+async function ownedOrder(req: Request, res: Response): Promise<Order | undefined> {
+  const id = parseInt(req.params.id);
+  const order = Number.isNaN(id) ? undefined : await storage.getOrder(id);
+  if (!order || order.userId !== req.user!.id) {
+    res.status(404).json({ message: "Order not found" });
+    return undefined;
+  }
+  return order;
+}
+
+// A stop loss is a stop, a stop-limit when it has a limit price, or a
+// trailing stop
+function stopLossTerms(stopLoss: StopLoss): Pick<InsertOrder, "type" | "stopPrice" | "limitPrice" | "trailAmount" | "trailPercent"> {
+  return {
+    type: stopLoss.stopPrice === undefined ? "trailing_stop" : stopLoss.limitPrice !== undefined ? "stop_limit" : "stop",
+    stopPrice: stopLoss.stopPrice ?? null,
+    limitPrice: stopLoss.limitPrice ?? null,
+    trailAmount: stopLoss.trailAmount ?? null,
+    trailPercent: stopLoss.trailPercent ?? null,
+  };
+}
+
+export function registerOrderRoutes(app: Express) {
+  // Get the signed-in user's orders, newest first, e.g. ?status=open for the
+  // ones still working. ?portfolioId= narrows them to one account.
+  app.get("/api/me/orders", requireUserAccess, async (req, res) => {
+    const parsed = orderQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const scope = await portfolioScope(req, res);
+      if (!scope) return;
+
+      res.json(await storage.getOrders(scope, parsed.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch orders" });
+    }
+  });
+
+  // Place an order. It is matched against the latest quote straight away, so
+  // the response may already show it filled.
+  app.post("/api/me/orders", requireUserAccess, async (req, res) => {
+    const parsed = orderRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const userId = req.user!.id;
+      const { portfolioId, ...terms } = parsed.data;
+      const portfolio = await writableAccount(userId, portfolioId);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      res.status(201).json(await orderMatcher.place({
+        ...terms,
+        userId,
+        portfolioId: portfolio.id,
+        limitPrice: terms.limitPrice ?? null,
+        stopPrice: terms.stopPrice ?? null,
+      }));
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to place order" });
+    }
+  });
+
+  // Place an entry with a take-profit and a stop loss that wait for it to
+  // fill, then cancel each other. Answers with the entry and both exits.
+  app.post("/api/me/orders/bracket", requireUserAccess, async (req, res) => {
+    const parsed = bracketOrderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const userId = req.user!.id;
+      const { portfolioId, takeProfit, stopLoss, ...entry } = parsed.data;
+      const portfolio = await writableAccount(userId, portfolioId);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      // Exits close the position the entry opens and stay on until one fills
+      const exit = {
+        userId,
+        portfolioId: portfolio.id,
+        symbol: entry.symbol,
+        side: entry.side === "buy" ? "sell" as const : "buy" as const,
+        quantity: entry.quantity,
+        timeInForce: "GTC" as const,
+      };
+      res.status(201).json(await orderMatcher.placeBracket(
+        { ...entry, userId, portfolioId: portfolio.id, limitPrice: entry.limitPrice ?? null },
+        [
+          { ...exit, type: "limit", limitPrice: takeProfit.limitPrice },
+          { ...exit, ...stopLossTerms(stopLoss) },
+        ],
+      ));
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to place bracket order" });
+    }
+  });
+
+  // Place a take-profit limit and a stop loss for the same shares, where a
+  // fill on either cancels the other. Answers with both legs.
+  app.post("/api/me/orders/oco", requireUserAccess, async (req, res) => {
+    const parsed = ocoOrderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const userId = req.user!.id;
+      const { portfolioId, takeProfit, stopLoss, ...terms } = parsed.data;
+      const portfolio = await writableAccount(userId, portfolioId);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      const leg = { ...terms, userId, portfolioId: portfolio.id };
+      res.status(201).json(await orderMatcher.placeOco([
+        { ...leg, type: "limit", limitPrice: takeProfit.limitPrice },
+        { ...leg, ...stopLossTerms(stopLoss) },
+      ]));
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to place OCO order" });
+    }
+  });
+
+  app.post("/api/me/orders/:id/cancel", requireUserAccess, async (req, res) => {
+    try {
+      const order = await ownedOrder(req, res);
+      if (!order) return;
+
+      res.json(await orderMatcher.cancel(order));
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to cancel order" });
+    }
+  });
+
+  // Cancel/replace: the order is cancelled and a new one with the changed
+  // terms takes its place, pointing back at it through replacesOrderId
+  app.patch("/api/me/orders/:id", requireUserAccess, async (req, res) => {
+    const parsed = orderReplaceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const order = await ownedOrder(req, res);
+      if (!order) return;
+
+      res.json(await orderMatcher.replace(order, parsed.data));
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to replace order" });
+    }
+  });
+}
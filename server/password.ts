@@ -0,0 +1,29 @@
+import { randomBytes, scrypt, scryptSync, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+const KEY_LENGTH = 64;
+
+// Stored passwords look like "<hex hash>.<hex salt>".
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+// Synchronous variant for seeding the in-memory store at startup.
+export function hashPasswordSync(password: string): string {
+  const salt = randomBytes(16).toString("hex");
+  return `${scryptSync(password, salt, KEY_LENGTH).toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+
+  const storedHash = Buffer.from(hashed, "hex");
+  const suppliedHash = (await scryptAsync(supplied, salt, KEY_LENGTH)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { Transaction } from "@shared/schema";
+import { realizedGainsReport } from "./lots";
+import { replayClosedTrades, replayTransactions } from "./positions";
+
+function trade(id: number, type: "buy" | "sell", shares: string, amount: string, timestamp: string): Transaction {
+  const sign = type === "sell" ? "-" : "";
+  return {
+    id,
+    userId: 1,
+    portfolioId: 1,
+    type,
+    symbol: "TSLA",
+    amount: `${sign}${amount}`,
+    shares: `${sign}${shares}`,
+    timestamp: new Date(timestamp),
+    lots: null,
+    orderId: null,
+  };
+}
+
+// Lots at 200 and 250 a share, then half of them sold at 240
+const ledger = [
+  trade(1, "buy", "10", "2000.00", "2025-01-02T15:00:00Z"),
+  trade(2, "buy", "10", "2500.00", "2025-02-03T15:00:00Z"),
+  trade(3, "sell", "10", "2400.00", "2025-03-03T15:00:00Z"),
+];
+
+describe("replayTransactions", () => {
+  it.each([
+    ["fifo", "2500.00", "400.00"],
+    ["lifo", "2000.00", "-100.00"],
+  ] as const)("keeps the basis of the lots %s leaves open", (costBasisMethod, costBasis, realizedPnL) => {
+    const account = { id: 1, userId: 1, costBasisMethod };
+    const [position] = replayTransactions(account, ledger);
+
+    expect(position).toMatchObject({ symbol: "TSLA", quantity: "10.000000", costBasis, realizedPnL });
+    expect(realizedGainsReport(ledger, [account]).total.gain).toBe(realizedPnL);
+  });
+
+  it("ignores other accounts' transactions", () => {
+    expect(replayTransactions({ id: 2, userId: 1, costBasisMethod: "fifo" }, ledger)).toEqual([]);
+  });
+});
+
+describe("replayClosedTrades", () => {
+  it("counts a sell that closes several lots as one trade", () => {
+    const sellAll = trade(4, "sell", "10", "2600.00", "2025-04-01T15:00:00Z");
+    const trades = replayClosedTrades([...ledger, sellAll], [{ id: 1, costBasisMethod: "lifo" }]);
+
+    expect(trades.map((closed) => [closed.transactionId, closed.shares.toString(), closed.realizedPnL.toFixed(2)]))
+      .toEqual([[3, "10", "-100.00"], [4, "10", "600.00"]]);
+  });
+});
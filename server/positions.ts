@@ -0,0 +1,146 @@
+import type { Holding, InsertPosition, Portfolio, Position, Stock, Transaction } from "@shared/schema";
+import { COST_DP, Decimal, percentOf, toMoney, toShares } from "@shared/decimal";
+import { replayLots } from "./lots";
+
+interface RunningPosition {
+  quantity: Decimal;
+  costBasis: Decimal;
+  realizedPnL: Decimal;
+}
+
+// A sell matched against the lots it closed under its account's method.
+export interface ClosedTrade {
+  transactionId: number;
+  symbol: string;
+  shares: Decimal;
+  proceeds: Decimal;
+  costBasis: Decimal;
+  realizedPnL: Decimal;
+}
+
+// Positions are kept per account: what is left of each account's tax lots,
+// plus the gains of the lots its sells closed. Building them from the lots
+// keeps holdings, the lots view and the realized-gains report in agreement.
+function replay(transactions: Transaction[], accounts: Pick<Portfolio, "id" | "costBasisMethod">[]) {
+  const { lots, closed } = replayLots(transactions, accounts);
+  const running = new Map<string, RunningPosition>();
+  const closedTrades = new Map<number, ClosedTrade>();
+
+  const positionOf = (portfolioId: number, symbol: string) => {
+    const key = `${portfolioId}:${symbol}`;
+    const position = running.get(key)
+      || { quantity: Decimal.ZERO, costBasis: Decimal.ZERO, realizedPnL: Decimal.ZERO };
+    running.set(key, position);
+    return position;
+  };
+
+  lots.forEach((lot) => {
+    const position = positionOf(lot.portfolioId, lot.symbol);
+    position.quantity = position.quantity.plus(lot.remaining);
+    position.costBasis = position.costBasis.plus(lot.remainingCost);
+  });
+
+  closed.forEach((entry) => {
+    const realizedPnL = entry.proceeds.minus(entry.costBasis);
+    const position = positionOf(entry.lot.portfolioId, entry.lot.symbol);
+    position.realizedPnL = position.realizedPnL.plus(realizedPnL);
+
+    // A sell that closed several lots is still one round trip
+    const trade = closedTrades.get(entry.sellTransactionId);
+    closedTrades.set(entry.sellTransactionId, trade
+      ? {
+        ...trade,
+        shares: trade.shares.plus(entry.shares),
+        proceeds: trade.proceeds.plus(entry.proceeds),
+        costBasis: trade.costBasis.plus(entry.costBasis),
+        realizedPnL: trade.realizedPnL.plus(realizedPnL),
+      }
+      : {
+        transactionId: entry.sellTransactionId,
+        symbol: entry.lot.symbol,
+        shares: entry.shares,
+        proceeds: entry.proceeds,
+        costBasis: entry.costBasis,
+        realizedPnL,
+      });
+  });
+
+  return { running, closedTrades: Array.from(closedTrades.values()) };
+}
+
+// Replays an account's transactions oldest-first into per-symbol positions
+// under the account's cost-basis method. Shares and amounts are read as
+// magnitudes: sells are stored with negative values, buys with positive ones.
+export function replayTransactions(
+  account: Pick<Portfolio, "id" | "userId" | "costBasisMethod">,
+  transactions: Transaction[],
+): InsertPosition[] {
+  const { running } = replay(transactions.filter((transaction) => transaction.portfolioId === account.id), [account]);
+
+  return Array.from(running.entries()).map(([key, position]) => {
+    const open = position.quantity.isPositive();
+    return {
+      userId: account.userId,
+      portfolioId: account.id,
+      symbol: key.slice(key.indexOf(":") + 1),
+      quantity: toShares(position.quantity),
+      averageCost: (open ? position.costBasis.div(position.quantity) : Decimal.ZERO).toFixed(COST_DP),
+      costBasis: toMoney(open ? position.costBasis : Decimal.ZERO),
+      realizedPnL: toMoney(position.realizedPnL),
+    };
+  });
+}
+
+// Every sell in the ledger as a closed round trip, oldest first.
+export function replayClosedTrades(
+  transactions: Transaction[],
+  accounts: Pick<Portfolio, "id" | "costBasisMethod">[],
+): ClosedTrade[] {
+  return replay(transactions, accounts).closedTrades;
+}
+
+// Adds up positions in the same symbol held by different accounts
+function combinePositions(positions: Position[]): Position[] {
+  const combined = new Map<string, Position>();
+  positions.forEach((position) => {
+    const existing = combined.get(position.symbol);
+    if (!existing) {
+      combined.set(position.symbol, position);
+      return;
+    }
+    const quantity = Decimal.from(existing.quantity).plus(position.quantity);
+    const costBasis = Decimal.from(existing.costBasis).plus(position.costBasis);
+    combined.set(position.symbol, {
+      ...existing,
+      quantity: toShares(quantity),
+      costBasis: toMoney(costBasis),
+      averageCost: (quantity.isPositive() ? costBasis.div(quantity) : Decimal.ZERO).toFixed(COST_DP),
+      realizedPnL: toMoney(Decimal.from(existing.realizedPnL).plus(position.realizedPnL)),
+    });
+  });
+  return Array.from(combined.values());
+}
+
+// Marks open positions to the latest stock prices, one holding per symbol
+// even across accounts. Symbols without a quote are valued at cost so they
+// still show up in the holdings list.
+export function valuePositions(positions: Position[], stocks: Stock[]): Holding[] {
+  const prices = new Map(stocks.map((stock) => [stock.symbol, stock.price]));
+
+  return combinePositions(positions)
+    .filter((position) => Decimal.from(position.quantity).isPositive())
+    .map((position) => {
+      const price = Decimal.from(prices.get(position.symbol) ?? position.averageCost);
+      const marketValue = price.times(position.quantity);
+      const unrealizedPnL = marketValue.minus(position.costBasis);
+
+      return {
+        ...position,
+        price: toMoney(price),
+        marketValue: toMoney(marketValue),
+        unrealizedPnL: toMoney(unrealizedPnL),
+        unrealizedPnLPercent: percentOf(unrealizedPnL, position.costBasis),
+      };
+    })
+    .sort((a, b) => Decimal.from(b.marketValue).cmp(a.marketValue));
+}
@@ -0,0 +1,44 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+import { storage } from "./storage";
+import { setupQuoteStream } from "./quote-stream";
+
+let server: Server | undefined;
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+});
+
+// Opens a /ws connection and resolves with the first frame after `message`
+async function firstReply(message: object): Promise<unknown> {
+  server = createServer();
+  const wss = setupQuoteStream(server);
+  server.on("close", () => wss.close());
+  await new Promise<void>((resolve) => server!.listen(0, resolve));
+
+  const client = new WebSocket(`ws://localhost:${(server.address() as AddressInfo).port}/ws`);
+  await new Promise((resolve) => client.once("open", resolve));
+  const reply = new Promise((resolve) => client.once("message", (data) => resolve(JSON.parse(data.toString()))));
+  client.send(JSON.stringify(message));
+  try {
+    return await reply;
+  } finally {
+    client.terminate();
+  }
+}
+
+describe("quote stream", () => {
+  it("starts a subscription with the current quotes", async () => {
+    const reply = await firstReply({ type: "subscribe", symbols: ["AAPL"] });
+    expect(reply).toMatchObject({ type: "quotes", stocks: [{ symbol: "AAPL" }] });
+  });
+
+  it("answers with an error frame when the quotes cannot be loaded", async () => {
+    vi.spyOn(storage, "getAllStocks").mockRejectedValue(new Error("connection lost"));
+    const reply = await firstReply({ type: "subscribe", symbols: ["AAPL"] });
+    expect(reply).toEqual({ type: "error", message: "Failed to load current quotes" });
+  });
+});
@@ -0,0 +1,130 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { quoteStreamClientMessageSchema, type QuoteStreamServerMessage, type Stock } from "@shared/schema";
+import type { MarketDataScheduler } from "./market-data";
+import { storage } from "./storage";
+
+const HEARTBEAT_MS = 30 * 1000;
+// Above this many buffered bytes a client stops receiving frames and only its
+// latest quote per symbol is kept; past the hard limit it is disconnected.
+const SOFT_BUFFER_LIMIT = 256 * 1024;
+const HARD_BUFFER_LIMIT = 4 * 1024 * 1024;
+
+interface Subscriber {
+  socket: WebSocket;
+  symbols: Set<string>;
+  pending: Map<string, Stock>;
+  isAlive: boolean;
+}
+
+function send(subscriber: Subscriber, message: QuoteStreamServerMessage) {
+  subscriber.socket.send(JSON.stringify(message));
+}
+
+// Sends whatever quotes are pending once the socket has drained enough;
+// otherwise keeps coalescing them so a slow client never sees stale bursts.
+function flush(subscriber: Subscriber) {
+  const { socket } = subscriber;
+  if (socket.readyState !== WebSocket.OPEN || subscriber.pending.size === 0) {
+    return;
+  }
+  if (socket.bufferedAmount > HARD_BUFFER_LIMIT) {
+    socket.terminate();
+    return;
+  }
+  if (socket.bufferedAmount > SOFT_BUFFER_LIMIT) {
+    return;
+  }
+
+  send(subscriber, { type: "quotes", stocks: Array.from(subscriber.pending.values()) });
+  subscriber.pending.clear();
+}
+
+// Serves live quotes on /ws. Other upgrade requests (such as Vite's HMR
+// socket in development) are left to their own handlers.
+export function setupQuoteStream(server: Server, scheduler?: MarketDataScheduler) {
+  const wss = new WebSocketServer({ noServer: true });
+  const subscribers = new Set<Subscriber>();
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== "/ws") {
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  });
+
+  wss.on("connection", (socket: WebSocket) => {
+    const subscriber: Subscriber = { socket, symbols: new Set(), pending: new Map(), isAlive: true };
+    subscribers.add(subscriber);
+
+    socket.on("pong", () => {
+      subscriber.isAlive = true;
+    });
+
+    socket.on("message", async (data) => {
+      let parsed;
+      try {
+        parsed = quoteStreamClientMessageSchema.safeParse(JSON.parse(data.toString()));
+      } catch {
+        parsed = undefined;
+      }
+      if (!parsed?.success) {
+        return send(subscriber, { type: "error", message: "Expected {type: 'subscribe' | 'unsubscribe', symbols: string[]}" });
+      }
+
+      const { type, symbols } = parsed.data;
+      if (type === "unsubscribe") {
+        symbols.forEach((symbol) => {
+          subscriber.symbols.delete(symbol);
+          subscriber.pending.delete(symbol);
+        });
+        return;
+      }
+
+      symbols.forEach((symbol) => subscriber.symbols.add(symbol));
+      // Start new subscribers off with the current quotes. The subscription
+      // stands if they cannot be loaded; live quotes still arrive.
+      try {
+        const stocks = await storage.getAllStocks();
+        stocks
+          .filter((stock) => symbols.includes(stock.symbol))
+          .forEach((stock) => subscriber.pending.set(stock.symbol, stock));
+        flush(subscriber);
+      } catch {
+        if (socket.readyState === WebSocket.OPEN) {
+          send(subscriber, { type: "error", message: "Failed to load current quotes" });
+        }
+      }
+    });
+
+    socket.on("close", () => subscribers.delete(subscriber));
+    socket.on("error", () => socket.terminate());
+  });
+
+  const heartbeat = setInterval(() => {
+    subscribers.forEach((subscriber) => {
+      if (!subscriber.isAlive) {
+        subscriber.socket.terminate();
+        return;
+      }
+      subscriber.isAlive = false;
+      subscriber.socket.ping();
+      // Retry anything held back by backpressure
+      flush(subscriber);
+    });
+  }, HEARTBEAT_MS);
+  wss.on("close", () => clearInterval(heartbeat));
+
+  scheduler?.on("quotes", (stocks: Stock[]) => {
+    subscribers.forEach((subscriber) => {
+      stocks
+        .filter((stock) => subscriber.symbols.has(stock.symbol))
+        .forEach((stock) => subscriber.pending.set(stock.symbol, stock));
+      flush(subscriber);
+    });
+  });
+
+  return wss;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { TargetModel } from "@shared/schema";
+import { Decimal, toMoney } from "@shared/decimal";
+import { MemStorage } from "./storage";
+import { planRebalance } from "./rebalance";
+
+// An account holding 100 AAPL (17,350.00 at the quote) and 20 MSFT
+// (7,686.00) with no cash, modelled at half each. AAPL's lots cost `aaplLots`.
+async function overweightAccount(aaplLots: string[] = ["17350.00"]) {
+  const store = new MemStorage();
+  const user = await store.createUser({ username: "rebalancer", password: "hash" });
+  const created = await store.createPortfolio({ userId: user.id, name: "Paper", accountType: "paper" });
+  const scope = { userId: user.id, portfolioId: created.id };
+
+  const spent = Decimal.sum(aaplLots).plus("7686.00");
+  await store.createTransaction({ ...scope, type: "deposit", amount: toMoney(spent) });
+  const lotShares = (100 / aaplLots.length).toString();
+  for (const amount of aaplLots) {
+    await store.createTransaction({ ...scope, type: "buy", symbol: "AAPL", amount, shares: lotShares });
+  }
+  await store.createTransaction({ ...scope, type: "buy", symbol: "MSFT", amount: "7686.00", shares: "20" });
+
+  const portfolio = (await store.getPortfolio(created.id))!;
+  const model: TargetModel = {
+    id: 1,
+    portfolioId: portfolio.id,
+    groupBy: "security",
+    targets: [{ key: "AAPL", weight: 50 }, { key: "MSFT", weight: 50 }],
+    cashWeight: "0.00",
+    driftBand: "5.00",
+    updatedAt: new Date(),
+  };
+  return { store, portfolio, model };
+}
+
+describe("planRebalance", () => {
+  it("rounds whole-share sells down so a group is not sold below its target", async () => {
+    const { store, portfolio, model } = await overweightAccount();
+    const preview = await planRebalance(store, portfolio, model, false);
+
+    // 4,832.00 over target is 27.85 AAPL; selling 28 would overshoot
+    const [sell, buy] = preview.trades;
+    expect(sell).toMatchObject({ type: "sell", symbol: "AAPL", shares: "27.000000", amount: "4684.50" });
+    expect(buy).toMatchObject({ type: "buy", symbol: "MSFT", shares: "12.000000", amount: "4611.60" });
+    expect(preview.totals).toMatchObject({ sells: "4684.50", buys: "4611.60" });
+    expect(preview.cash.after).toBe("72.90");
+    expect(preview.warnings).toEqual([
+      "Buys are scaled down to the $4,684.50 available above the $0.00 cash target",
+    ]);
+  });
+
+  it("sells fractional shares down to the share precision", async () => {
+    const { store, portfolio, model } = await overweightAccount();
+    const preview = await planRebalance(store, portfolio, model, true);
+
+    expect(preview.trades[0]).toMatchObject({ type: "sell", symbol: "AAPL", shares: "27.850144", amount: "4832.00" });
+  });
+
+  it("sells losing lots before gaining ones", async () => {
+    const { store, portfolio, model } = await overweightAccount(["5000.00", "10000.00"]);
+    const preview = await planRebalance(store, portfolio, model, false);
+
+    const [sell] = preview.trades;
+    const losing = (await store.getTransactions({ userId: portfolio.userId, portfolioId: portfolio.id }))
+      .find((transaction) => transaction.amount === "10000.00")!;
+    expect(sell.lots).toEqual([{ lotId: losing.id, shares: "27.000000" }]);
+    expect(sell).toMatchObject({ shortTermGain: "-715.50", longTermGain: "0.00" });
+  });
+
+  it("proposes nothing while every group is inside its band", async () => {
+    const { store, portfolio, model } = await overweightAccount();
+    const preview = await planRebalance(store, portfolio, { ...model, driftBand: "25.00" }, false);
+
+    expect(preview.trades).toEqual([]);
+    expect(preview.groups.every((group) => !group.outOfBand)).toBe(true);
+  });
+});
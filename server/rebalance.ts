@@ -0,0 +1,418 @@
+import type { Express, Request, Response } from "express";
+import { fromZodError } from "zod-validation-error";
+import {
+  allocationQuerySchema,
+  rebalanceQuerySchema,
+  targetModelSchema,
+  type AllocationGrouping,
+  type Holding,
+  type LotSelection,
+  type Portfolio,
+  type RebalanceGroup,
+  type RebalancePreview,
+  type RebalanceTrade,
+  type Security,
+  type Stock,
+  type TargetGroupOption,
+  type TargetModel,
+  type TargetModelInput,
+  type TargetWeight,
+} from "@shared/schema";
+import { Decimal, MONEY_DP, SHARES_DP, formatMoney, percentOf, toMoney, toShares } from "@shared/decimal";
+import { storage, type IStorage } from "./storage";
+import { requireUserAccess } from "./auth";
+import { writableAccount } from "./accounts";
+import { valuePositions } from "./positions";
+import { groupOf } from "./allocation";
+import { holdingTerm, replayLots, type OpenLot } from "./lots";
+
+interface GroupState {
+  key: string;
+  label: string;
+  target: TargetWeight | undefined;
+  value: Decimal;
+  holdings: Holding[];
+  sold: Decimal;
+  bought: Decimal;
+}
+
+// Rounds a positive quantity down to `dp` places, so a sell never takes a
+// group below its target and a buy never spends more than its share of the
+// cash
+function floorTo(value: Decimal, dp: number): Decimal {
+  const rounded = value.round(dp);
+  return rounded.gt(value) ? rounded.minus(Decimal.from(1).div(Math.pow(10, dp))) : rounded;
+}
+
+// The order a tax-aware sale takes lots in: losses first, then long-term
+// gains, then short-term gains, each starting with the least gain per dollar
+function taxOrder(lots: OpenLot[], prices: Map<string, Decimal>, now: Date): OpenLot[] {
+  const gainPerDollar = (lot: OpenLot) => {
+    const price = prices.get(lot.symbol)!;
+    return price.minus(lot.costPerShare).div(price);
+  };
+  const rank = (lot: OpenLot) => {
+    if (!gainPerDollar(lot).isPositive()) return 0;
+    return holdingTerm(lot.openedAt, now) === "long" ? 1 : 2;
+  };
+  return [...lots].sort((a, b) => rank(a) - rank(b) || gainPerDollar(a).cmp(gainPerDollar(b)) || a.lotId - b.lotId);
+}
+
+// Closes `shares` from the lots in order and splits the gain by holding term
+function takeLots(lots: OpenLot[], shares: Decimal, price: Decimal, now: Date) {
+  const selections: LotSelection[] = [];
+  let shortTermGain = Decimal.ZERO;
+  let longTermGain = Decimal.ZERO;
+  let left = shares;
+  lots.forEach((lot) => {
+    const taken = Decimal.min(lot.remaining, left);
+    if (!taken.isPositive()) return;
+    left = left.minus(taken);
+    selections.push({ lotId: lot.lotId, shares: toShares(taken) });
+    const gain = price.times(taken).minus(lot.remainingCost.times(taken).div(lot.remaining));
+    if (holdingTerm(lot.openedAt, now) === "long") {
+      longTermGain = longTermGain.plus(gain);
+    } else {
+      shortTermGain = shortTermGain.plus(gain);
+    }
+  });
+  return { selections, shortTermGain, longTermGain };
+}
+
+// What to buy for a group: the model's pick, else the group's largest
+// holding, else the first quoted symbol in the group
+function buyVehicle(group: GroupState, stocks: Stock[], bySymbol: Map<string, Security>, by: AllocationGrouping) {
+  if (group.target?.symbol) return group.target.symbol;
+  if (group.holdings.length > 0) return group.holdings[0].symbol;
+  return stocks
+    .map((stock) => stock.symbol)
+    .sort()
+    .find((symbol) => groupOf(symbol, bySymbol.get(symbol), by).key === group.key);
+}
+
+// Proposes the trades that bring every group outside its drift band back to
+// the model's weight. Overweight groups sell their most tax-efficient lots;
+// the proceeds and any cash above the cash target fund one buy per
+// underweight group, scaled down together when they do not cover them all.
+// Quantities are whole shares unless `fractional`.
+export async function planRebalance(
+  storage: IStorage,
+  portfolio: Portfolio,
+  model: TargetModel,
+  fractional: boolean,
+  now = new Date(),
+): Promise<RebalancePreview> {
+  const scope = { userId: portfolio.userId, portfolioId: portfolio.id };
+  const [positions, stocks, securities, transactions] = await Promise.all([
+    storage.getPositions(scope),
+    storage.getAllStocks(),
+    storage.getSecurities(),
+    storage.getTransactions(scope),
+  ]);
+  const by = model.groupBy as AllocationGrouping;
+  const bySymbol = new Map(securities.map((security) => [security.symbol, security]));
+  const prices = new Map(stocks.map((stock) => [stock.symbol, Decimal.from(stock.price)]));
+  const holdings = valuePositions(positions, stocks);
+  const openLots = replayLots(transactions, [portfolio]).lots.filter((lot) => lot.remaining.isPositive());
+
+  const cash = Decimal.from(portfolio.cashBalance);
+  const total = Decimal.sum(holdings.map((holding) => holding.marketValue)).plus(cash);
+  const band = Decimal.from(model.driftBand);
+  const warnings: string[] = [];
+
+  const groups = new Map<string, GroupState>();
+  const groupFor = (key: string, label: string) => {
+    const group = groups.get(key) ?? {
+      key,
+      label,
+      target: undefined,
+      value: Decimal.ZERO,
+      holdings: [],
+      sold: Decimal.ZERO,
+      bought: Decimal.ZERO,
+    };
+    groups.set(key, group);
+    return group;
+  };
+  model.targets.forEach((target) => {
+    const symbol = stocks.map((stock) => stock.symbol).find((candidate) =>
+      groupOf(candidate, bySymbol.get(candidate), by).key === target.key);
+    const label = symbol ? groupOf(symbol, bySymbol.get(symbol), by).label : target.key;
+    groupFor(target.key, label).target = target;
+  });
+  holdings.forEach((holding) => {
+    const { key, label } = groupOf(holding.symbol, bySymbol.get(holding.symbol), by);
+    const group = groupFor(key, label);
+    group.value = group.value.plus(holding.marketValue);
+    group.holdings.push(holding);
+  });
+
+  const weightOf = (value: Decimal) => (total.isPositive() ? value.times(100).div(total) : Decimal.ZERO);
+  const targetWeightOf = (group: GroupState) => Decimal.from(group.target?.weight ?? 0);
+  const driftOf = (group: GroupState) => weightOf(group.value).minus(targetWeightOf(group));
+  const outOfBand = (group: GroupState) => total.isPositive() && driftOf(group).abs().gt(band);
+  const targetValueOf = (group: GroupState) => total.times(targetWeightOf(group)).div(100);
+  const allGroups = Array.from(groups.values());
+
+  const trades: RebalanceTrade[] = [];
+  allGroups
+    .filter((group) => outOfBand(group) && driftOf(group).isPositive())
+    .forEach((group) => {
+      const symbols = new Set(group.holdings.map((holding) => holding.symbol));
+      const lots = taxOrder(
+        openLots.filter((lot) => symbols.has(lot.symbol) && prices.has(lot.symbol)),
+        prices,
+        now,
+      );
+
+      // Walk the lots until the excess is covered, then round each symbol's
+      // total down to the share rules and pick its lots in the same order
+      const wanted = new Map<string, Decimal>();
+      let left = group.value.minus(targetValueOf(group));
+      lots.forEach((lot) => {
+        if (!left.isPositive()) return;
+        const price = prices.get(lot.symbol)!;
+        const shares = Decimal.min(lot.remaining, left.div(price));
+        left = left.minus(shares.times(price));
+        wanted.set(lot.symbol, (wanted.get(lot.symbol) ?? Decimal.ZERO).plus(shares));
+      });
+
+      group.holdings.forEach((holding) => {
+        const price = prices.get(holding.symbol);
+        const raw = wanted.get(holding.symbol);
+        if (!price || !raw) return;
+        const shares = Decimal.min(floorTo(raw, fractional ? SHARES_DP : 0), holding.quantity);
+        if (!shares.isPositive()) return;
+
+        const { selections, shortTermGain, longTermGain } = takeLots(
+          lots.filter((lot) => lot.symbol === holding.symbol),
+          shares,
+          price,
+          now,
+        );
+        const amount = price.times(shares).round(MONEY_DP);
+        group.sold = group.sold.plus(amount);
+        trades.push({
+          type: "sell",
+          symbol: holding.symbol,
+          group: group.label,
+          shares: toShares(shares),
+          price: toMoney(price),
+          amount: toMoney(amount),
+          lots: selections,
+          shortTermGain: toMoney(shortTermGain),
+          longTermGain: toMoney(longTermGain),
+        });
+      });
+    });
+
+  const sells = Decimal.sum(allGroups.map((group) => group.sold));
+  const cashTarget = total.times(model.cashWeight).div(100);
+  const budget = Decimal.max(cash.plus(sells).minus(cashTarget), Decimal.ZERO);
+  const underweight = allGroups.filter((group) => outOfBand(group) && driftOf(group).isNegative());
+  const needed = Decimal.sum(underweight.map((group) => targetValueOf(group).minus(group.value)));
+  if (needed.gt(budget)) {
+    warnings.push(
+      `Buys are scaled down to the ${formatMoney(budget)} available above the ${formatMoney(cashTarget)} cash target`,
+    );
+  }
+
+  underweight.forEach((group) => {
+    const deficit = targetValueOf(group).minus(group.value);
+    const value = needed.gt(budget) ? deficit.times(budget).div(needed) : deficit;
+    const symbol = buyVehicle(group, stocks, bySymbol, by);
+    const price = symbol ? prices.get(symbol) : undefined;
+    if (!symbol || !price) {
+      warnings.push(`No quoted security to buy for ${group.label}`);
+      return;
+    }
+
+    let shares = floorTo(value.div(price), fractional ? SHARES_DP : 0);
+    if (price.times(shares).round(MONEY_DP).gt(value)) {
+      shares = shares.minus(Decimal.from(1).div(Math.pow(10, SHARES_DP)));
+    }
+    if (!shares.isPositive()) {
+      warnings.push(`${formatMoney(value)} for ${group.label} buys less than one share of ${symbol}`);
+      return;
+    }
+
+    const amount = price.times(shares).round(MONEY_DP);
+    group.bought = group.bought.plus(amount);
+    trades.push({
+      type: "buy",
+      symbol,
+      group: group.label,
+      shares: toShares(shares),
+      price: toMoney(price),
+      amount: toMoney(amount),
+      lots: null,
+      shortTermGain: null,
+      longTermGain: null,
+    });
+  });
+
+  const buys = Decimal.sum(allGroups.map((group) => group.bought));
+  const cashAfter = cash.plus(sells).minus(buys);
+  const sumGains = (field: "shortTermGain" | "longTermGain") =>
+    toMoney(Decimal.sum(trades.map((trade) => trade[field] ?? "0")));
+  const rows: RebalanceGroup[] = allGroups
+    .map((group) => ({
+      key: group.key,
+      label: group.label,
+      targetWeight: targetWeightOf(group).toFixed(2),
+      currentWeight: percentOf(group.value, total),
+      drift: driftOf(group).toFixed(2),
+      outOfBand: outOfBand(group),
+      currentValue: toMoney(group.value),
+      projectedWeight: percentOf(group.value.minus(group.sold).plus(group.bought), total),
+    }))
+    .sort((a, b) => Decimal.from(b.targetWeight).cmp(a.targetWeight) || Decimal.from(b.currentValue).cmp(a.currentValue));
+
+  return {
+    portfolioId: portfolio.id,
+    groupBy: by,
+    driftBand: band.toFixed(2),
+    fractional,
+    totalValue: toMoney(total),
+    cash: {
+      targetWeight: Decimal.from(model.cashWeight).toFixed(2),
+      currentWeight: percentOf(cash, total),
+      before: toMoney(cash),
+      after: toMoney(cashAfter),
+    },
+    groups: rows,
+    trades: [...trades.filter((trade) => trade.type === "sell"), ...trades.filter((trade) => trade.type === "buy")],
+    totals: { sells: toMoney(sells), buys: toMoney(buys), shortTermGain: sumGains("shortTermGain"), longTermGain: sumGains("longTermGain") },
+    warnings,
+  };
+}
+
+// Every group a listed or quoted security falls into, by label, with the
+// group's quoted symbols
+async function targetGroups(by: AllocationGrouping): Promise<TargetGroupOption[]> {
+  const [stocks, securities] = await Promise.all([storage.getAllStocks(), storage.getSecurities()]);
+  const bySymbol = new Map(securities.map((security) => [security.symbol, security]));
+  const quoted = new Set(stocks.map((stock) => stock.symbol));
+  const groups = new Map<string, TargetGroupOption>();
+  const symbols = Array.from(new Set(securities.map((security) => security.symbol).concat(Array.from(quoted)))).sort();
+  symbols.forEach((symbol) => {
+    const { key, label } = groupOf(symbol, bySymbol.get(symbol), by);
+    const group = groups.get(key) ?? { key, label, symbols: [] };
+    if (quoted.has(symbol)) group.symbols.push(symbol);
+    groups.set(key, group);
+  });
+  return Array.from(groups.values()).sort((a, b) => a.label.localeCompare(b.label));
+}
+
+// Problems with a model's groups and buy symbols: every group must be one a
+// listed or quoted security falls into, and a named symbol must be quoted and
+// in its group
+async function modelProblems(model: TargetModelInput): Promise<string[]> {
+  const groups = new Map((await targetGroups(model.groupBy)).map((group) => [group.key, group]));
+  const problems: string[] = [];
+  model.targets.forEach((target) => {
+    const group = groups.get(target.key);
+    if (!group) {
+      problems.push(`Unknown group ${target.key}`);
+    } else if (target.symbol && !group.symbols.includes(target.symbol)) {
+      problems.push(`${target.symbol} is not a quoted security in ${group.label}`);
+    }
+  });
+  return problems;
+}
+
+// Loads the :portfolioId account if the session user owns it
+async function ownedAccount(req: Request, res: Response): Promise<Portfolio | undefined> {
+  const portfolio = await writableAccount(req.user!.id, parseInt(req.params.portfolioId));
+  if (!portfolio) {
+    res.status(404).json({ message: "Account not found" });
+    return undefined;
+  }
+  return portfolio;
+}
+
+export function registerRebalanceRoutes(app: Express) {
+  // Get the sectors, asset types or securities a target model can name
+  app.get("/api/rebalance/groups", async (req, res) => {
+    const parsed = allocationQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      res.json(await targetGroups(parsed.data.by));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch target groups" });
+    }
+  });
+
+  // Get an account's target model, or null before one is saved
+  app.get("/api/me/portfolios/:portfolioId/target-model", requireUserAccess, async (req, res) => {
+    try {
+      const portfolio = await ownedAccount(req, res);
+      if (!portfolio) return;
+
+      res.json((await storage.getTargetModel(portfolio.id)) ?? null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch target model" });
+    }
+  });
+
+  // Set an account's target weights, cash share and drift band
+  app.put("/api/me/portfolios/:portfolioId/target-model", requireUserAccess, async (req, res) => {
+    const parsed = targetModelSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const portfolio = await ownedAccount(req, res);
+      if (!portfolio) return;
+
+      const problems = await modelProblems(parsed.data);
+      if (problems.length > 0) {
+        return res.status(400).json({ message: problems.join("; ") });
+      }
+      res.json(await storage.saveTargetModel(portfolio.id, parsed.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to save target model" });
+    }
+  });
+
+  app.delete("/api/me/portfolios/:portfolioId/target-model", requireUserAccess, async (req, res) => {
+    try {
+      const portfolio = await ownedAccount(req, res);
+      if (!portfolio) return;
+
+      if (!(await storage.deleteTargetModel(portfolio.id))) {
+        return res.status(404).json({ message: "No target model for this account" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete target model" });
+    }
+  });
+
+  // Preview the trades that rebalance an account to its model, e.g.
+  // ?fractional=true. Nothing is traded until the proposals are submitted to
+  // POST /api/transactions.
+  app.get("/api/me/portfolios/:portfolioId/rebalance", requireUserAccess, async (req, res) => {
+    const parsed = rebalanceQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const portfolio = await ownedAccount(req, res);
+      if (!portfolio) return;
+
+      const model = await storage.getTargetModel(portfolio.id);
+      if (!model) {
+        return res.status(404).json({ message: "No target model for this account" });
+      }
+      res.json(await planRebalance(storage, portfolio, model, parsed.data.fractional));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to plan rebalance" });
+    }
+  });
+}
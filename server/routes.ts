@@ -1,13 +1,60 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { fromZodError } from "zod-validation-error";
+import {
+  allocationQuerySchema,
+  historyQuerySchema,
+  metricsQuerySchema,
+  priceBarQuerySchema,
+  realizedGainsQuerySchema,
+  tradeRequestSchema,
+  transactionQuerySchema,
+} from "@shared/schema";
+import { Decimal } from "@shared/decimal";
+import { seedStocks, storage } from "./storage";
+import { requireUserAccess, setupAuth } from "./auth";
+import { valuePositions } from "./positions";
+import { portfolioValuator } from "./valuation";
+import { executeTrade, TradeRejectedError } from "./trades";
+import { loadBars } from "./bars";
+import { computeStockStats } from "./stock-stats";
+import { computePortfolioHistory } from "./history";
+import { computePortfolioMetrics } from "./metrics";
+import { compareWithBenchmark } from "./benchmarks";
+import { computeAllocation } from "./allocation";
+import { markLots, realizedGainsReport, replayLots, sharedMethod } from "./lots";
+import { marketDataScheduler } from "./market-data";
+import { setupQuoteStream } from "./quote-stream";
+import { registerWatchlistRoutes } from "./watchlists";
+import { InvalidCursorError } from "./transaction-query";
+import { log } from "./vite";
+import { loadSecurityMaster, registerSecurityRoutes } from "./securities";
+import { portfolioScope, registerAccountRoutes, scopedAccounts, writableAccount } from "./accounts";
+import { registerRebalanceRoutes } from "./rebalance";
+import { registerOrderRoutes } from "./orders";
+import { orderMatcher } from "./order-matching";
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Get portfolio data
-  app.get("/api/portfolio/:userId", async (req, res) => {
+  setupAuth(app);
+  registerWatchlistRoutes(app);
+  registerSecurityRoutes(app);
+  registerAccountRoutes(app);
+  registerRebalanceRoutes(app);
+  registerOrderRoutes(app);
+  await loadSecurityMaster(storage);
+  const seeded = await seedStocks(storage);
+  if (seeded > 0) {
+    log(`seeded ${seeded} stock quotes`, "storage");
+  }
+
+  // Get portfolio figures derived from holdings and transactions, for one
+  // account (?portfolioId=) or the household of all of them
+  app.get(["/api/me/portfolio", "/api/portfolio/:userId"], requireUserAccess, async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      const portfolio = await storage.getPortfolio(userId);
+      const scope = await portfolioScope(req, res);
+      if (!scope) return;
+
+      const portfolio = await portfolioValuator.getSummary(scope);
       
       if (!portfolio) {
         return res.status(404).json({ message: "Portfolio not found" });
@@ -19,6 +66,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get portfolio value snapshots over a range with the period's return
+  app.get(["/api/me/portfolio/history", "/api/portfolio/:userId/history"], requireUserAccess, async (req, res) => {
+    const parsed = historyQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const scope = await portfolioScope(req, res);
+      if (!scope) return;
+
+      res.json(await computePortfolioHistory(storage, scope, parsed.data.range));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch portfolio history" });
+    }
+  });
+
+  // Get time- and money-weighted returns, volatility, risk-adjusted ratios and
+  // the worst drawdown over a range. RISK_FREE_RATE (e.g. 0.04) sets the rate
+  // Sharpe and Sortino measure against.
+  app.get(["/api/me/portfolio/metrics", "/api/portfolio/:userId/metrics"], requireUserAccess, async (req, res) => {
+    const parsed = metricsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const scope = await portfolioScope(req, res);
+      if (!scope) return;
+
+      const riskFreeRate = parseFloat(process.env.RISK_FREE_RATE || "0");
+      res.json(await computePortfolioMetrics(storage, scope, parsed.data.range, riskFreeRate));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch portfolio metrics" });
+    }
+  });
+
+  // Get the portfolio's time-weighted return next to its benchmark's, rebased
+  // to 100, with alpha, beta, tracking error and information ratio
+  app.get(["/api/me/portfolio/benchmark", "/api/portfolio/:userId/benchmark"], requireUserAccess, async (req, res) => {
+    const parsed = historyQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const scope = await portfolioScope(req, res);
+      if (!scope) return;
+
+      const accounts = await scopedAccounts(scope);
+      const riskFreeRate = parseFloat(process.env.RISK_FREE_RATE || "0");
+      res.json(await compareWithBenchmark(storage, scope, accounts, parsed.data.range, riskFreeRate));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch benchmark comparison" });
+    }
+  });
+
   // Get all stocks
   app.get("/api/stocks", async (req, res) => {
     try {
@@ -29,17 +133,183 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get user transactions
-  app.get("/api/transactions/:userId", async (req, res) => {
+  // Get OHLCV bars for a stock, e.g. ?interval=1d&from=2025-01-01
+  app.get("/api/stocks/:symbol/bars", async (req, res) => {
+    const parsed = priceBarQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const symbol = req.params.symbol.toUpperCase();
+      if (!(await storage.getStock(symbol))) {
+        return res.status(404).json({ message: "Stock not found" });
+      }
+
+      const { interval, from, to } = parsed.data;
+      res.json(await loadBars(storage, symbol, interval, from, to));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch price bars" });
+    }
+  });
+
+  // Get a stock's day range, 52-week range and average volume from its bars
+  app.get("/api/stocks/:symbol/stats", async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      const transactions = await storage.getTransactions(userId);
+      const symbol = req.params.symbol.toUpperCase();
+      if (!(await storage.getStock(symbol))) {
+        return res.status(404).json({ message: "Stock not found" });
+      }
+
+      res.json(await computeStockStats(storage, symbol));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch stock stats" });
+    }
+  });
+
+  // Get user transactions: the full history, or with any query parameters
+  // besides portfolioId a filtered, sorted page and the cursor of the next one
+  app.get(["/api/me/transactions", "/api/transactions/:userId"], requireUserAccess, async (req, res) => {
+    const paged = Object.keys(req.query).some((key) => key !== "portfolioId");
+    const parsed = transactionQuerySchema.safeParse(req.query);
+    if (paged && !parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const scope = await portfolioScope(req, res);
+      if (!scope) return;
+
+      if (paged && parsed.success) {
+        const { cursor, ...filter } = parsed.data;
+        return res.json(await storage.queryTransactions(scope, filter, cursor));
+      }
+
+      const transactions = await storage.getTransactions(scope);
       res.json(transactions);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to fetch transactions" });
     }
   });
 
+  // Record a trade in one of the user's accounts (the first unless
+  // portfolioId is given) and return the updated position and account
+  app.post("/api/transactions", requireUserAccess, async (req, res) => {
+    const parsed = tradeRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const userId = req.user!.id;
+      const portfolio = await writableAccount(userId, parsed.data.portfolioId);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      const result = await executeTrade({ ...parsed.data, userId, portfolioId: portfolio.id });
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to record transaction" });
+    }
+  });
+
+  // Get user holdings marked to the latest prices
+  app.get(["/api/me/positions", "/api/positions/:userId"], requireUserAccess, async (req, res) => {
+    try {
+      const scope = await portfolioScope(req, res);
+      if (!scope) return;
+
+      const [positions, stocks] = await Promise.all([
+        storage.getPositions(scope),
+        storage.getAllStocks(),
+      ]);
+      res.json(valuePositions(positions, stocks));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch positions" });
+    }
+  });
+
+  // Get a holding's open tax lots marked to the latest price
+  app.get(["/api/me/positions/:symbol/lots", "/api/positions/:userId/:symbol/lots"], requireUserAccess, async (req, res) => {
+    try {
+      const scope = await portfolioScope(req, res);
+      if (!scope) return;
+
+      const symbol = req.params.symbol.toUpperCase();
+      const [transactions, accounts, stock] = await Promise.all([
+        storage.getTransactions(scope),
+        scopedAccounts(scope),
+        storage.getStock(symbol),
+      ]);
+      const { lots } = replayLots(transactions, accounts);
+      const open = lots.filter((lot) => lot.symbol === symbol && lot.remaining.isPositive());
+      if (open.length === 0) {
+        return res.status(404).json({ message: "No open lots for this symbol" });
+      }
+
+      // Without a quote, value the lots at their average cost
+      const remaining = Decimal.sum(open.map((lot) => lot.remaining));
+      const price = stock
+        ? Decimal.from(stock.price)
+        : Decimal.sum(open.map((lot) => lot.costPerShare.times(lot.remaining))).div(remaining);
+      res.json({ symbol, method: sharedMethod(accounts), lots: markLots(open, symbol, price) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch lots" });
+    }
+  });
+
+  // Get gains realized by sells, split into short and long term, e.g. ?year=2025
+  app.get(["/api/me/realized-gains", "/api/portfolio/:userId/realized-gains"], requireUserAccess, async (req, res) => {
+    const parsed = realizedGainsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const scope = await portfolioScope(req, res);
+      if (!scope) return;
+
+      const [transactions, accounts] = await Promise.all([
+        storage.getTransactions(scope),
+        scopedAccounts(scope),
+      ]);
+      res.json(realizedGainsReport(transactions, accounts, parsed.data.year));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch realized gains" });
+    }
+  });
+
+  // Get holdings' market value grouped by sector, asset type or security
+  app.get(["/api/me/portfolio/allocation", "/api/portfolio/:userId/allocation"], requireUserAccess, async (req, res) => {
+    const parsed = allocationQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const scope = await portfolioScope(req, res);
+      if (!scope) return;
+
+      const [positions, stocks, securities] = await Promise.all([
+        storage.getPositions(scope),
+        storage.getAllStocks(),
+        storage.getSecurities(),
+      ]);
+      res.json(computeAllocation(valuePositions(positions, stocks), securities, parsed.data.by));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch allocation" });
+    }
+  });
+
   const httpServer = createServer(app);
+  setupQuoteStream(httpServer, marketDataScheduler);
+  orderMatcher.attach(marketDataScheduler);
   return httpServer;
 }
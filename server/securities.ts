@@ -0,0 +1,163 @@
+import type { Express } from "express";
+import { readFileSync } from "fs";
+import path from "path";
+import { fromZodError } from "zod-validation-error";
+import { insertSecuritySchema, securitySearchQuerySchema, type InsertSecurity, type Security } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { log } from "./vite";
+
+const DEFAULT_SECURITY_MASTER_FILE = path.resolve("server", "data", "securities.csv");
+
+// Splits one CSV row, honouring double-quoted cells with "" escapes
+function splitCsvRow(row: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+// Parses a security master CSV with a
+// `symbol,name,exchange[,sector,industry,currency,asset_type]` header.
+// Empty sector and industry cells become null.
+export function parseSecurityCsv(text: string): InsertSecurity[] {
+  const [header, ...rows] = text.trim().split(/\r?\n/);
+  const columns = splitCsvRow(header).map((column) => column.toLowerCase());
+  const index = (name: string) => columns.indexOf(name);
+  if (index("symbol") < 0 || index("name") < 0 || index("exchange") < 0) {
+    throw new Error("Security CSV needs symbol, name and exchange columns");
+  }
+
+  const cell = (cells: string[], name: string) => (index(name) >= 0 ? cells[index(name)] || undefined : undefined);
+
+  return rows
+    .filter((row) => row.trim() !== "")
+    .map((row, line) => {
+      const cells = splitCsvRow(row);
+      const parsed = insertSecuritySchema.safeParse({
+        symbol: cell(cells, "symbol"),
+        name: cell(cells, "name"),
+        exchange: cell(cells, "exchange"),
+        sector: cell(cells, "sector") ?? null,
+        industry: cell(cells, "industry") ?? null,
+        currency: cell(cells, "currency"),
+        assetType: cell(cells, "asset_type"),
+      });
+      if (!parsed.success) {
+        throw new Error(`Invalid security on line ${line + 2}: ${fromZodError(parsed.error).message}`);
+      }
+      return parsed.data;
+    });
+}
+
+// Upserts the bundled catalog, or SECURITY_MASTER_FILE when set, on startup
+export async function loadSecurityMaster(
+  target: IStorage,
+  file = process.env.SECURITY_MASTER_FILE || DEFAULT_SECURITY_MASTER_FILE,
+): Promise<number> {
+  const loaded = await target.upsertSecurities(parseSecurityCsv(readFileSync(file, "utf8")));
+  log(`loaded ${loaded.length} securities from ${path.basename(file)}`, "securities");
+  return loaded.length;
+}
+
+// Optimal string alignment distance: edits, with adjacent swaps counting once
+function editDistance(a: string, b: string): number {
+  const d: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    d.push([i]);
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) {
+        d[i].push(j);
+        continue;
+      }
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function compact(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+// Ranks how well a security matches the query: ticker matches beat name
+// matches, prefixes beat substrings, and typo matches come last. 0 is no match.
+function matchScore(security: Security, query: string): number {
+  const symbol = compact(security.symbol);
+  const name = security.name.toUpperCase();
+  const compactQuery = compact(query);
+  const upperQuery = query.toUpperCase();
+  const words = name.split(/[^A-Z0-9]+/).filter(Boolean);
+
+  if (compactQuery && symbol === compactQuery) return 100;
+  if (compactQuery && symbol.startsWith(compactQuery)) return 90 - (symbol.length - compactQuery.length);
+  if (name.startsWith(upperQuery)) return 80;
+  if (compactQuery && words.some((word) => word.startsWith(compactQuery))) return 70;
+  if (name.includes(upperQuery)) return 60;
+
+  // Tickers are short, so only a single typo is tolerated
+  if (compactQuery.length >= 2 && editDistance(compactQuery, symbol) === 1) return 40;
+
+  // A misspelt word, possibly still being typed: compare with word prefixes
+  if (compactQuery.length >= 4) {
+    const allowed = compactQuery.length >= 7 ? 2 : 1;
+    const distance = Math.min(...words.map((word) => editDistance(compactQuery, word.slice(0, compactQuery.length))));
+    if (distance <= allowed) return 30 - 10 * distance;
+  }
+
+  return 0;
+}
+
+export function searchSecurities(securities: Security[], query: string, limit = 10): Security[] {
+  return securities
+    .map((security) => ({ security, score: matchScore(security, query.trim()) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) =>
+      b.score - a.score ||
+      a.security.symbol.length - b.security.symbol.length ||
+      a.security.symbol.localeCompare(b.security.symbol))
+    .slice(0, limit)
+    .map(({ security }) => security);
+}
+
+export function registerSecurityRoutes(app: Express) {
+  // Search the security master by ticker or name
+  app.get("/api/securities/search", async (req, res) => {
+    const parsed = securitySearchQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const securities = await storage.getSecurities();
+      res.json(searchSecurities(securities, parsed.data.q, parsed.data.limit));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search securities" });
+    }
+  });
+}
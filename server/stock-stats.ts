@@ -0,0 +1,49 @@
+import type { PriceBar, StockStats } from "@shared/schema";
+import { Decimal, toMoney } from "@shared/decimal";
+import { loadBars } from "./bars";
+import type { IStorage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_DAYS = 365;
+const AVERAGE_VOLUME_SESSIONS = 30;
+
+function priceOrNull(value: Decimal | undefined): string | null {
+  return value ? toMoney(value) : null;
+}
+
+// Day range, 52-week range and average volume from a symbol's daily bars,
+// oldest first. The latest bar is the current session, rolled up from minute
+// bars while the day is still trading.
+export function stockStats(symbol: string, daily: PriceBar[]): StockStats {
+  const session = daily[daily.length - 1];
+  const previous = daily[daily.length - 2];
+  const earlier = daily.slice(0, -1).slice(-AVERAGE_VOLUME_SESSIONS);
+
+  const yearLow = daily.length > 0
+    ? daily.map((bar) => Decimal.from(bar.low)).reduce((low, value) => Decimal.min(low, value))
+    : undefined;
+  const yearHigh = daily.length > 0
+    ? daily.map((bar) => Decimal.from(bar.high)).reduce((high, value) => Decimal.max(high, value))
+    : undefined;
+
+  return {
+    symbol,
+    sessionDate: session ? session.timestamp.toISOString() : null,
+    open: session ? toMoney(session.open) : null,
+    previousClose: previous ? toMoney(previous.close) : null,
+    dayLow: session ? toMoney(session.low) : null,
+    dayHigh: session ? toMoney(session.high) : null,
+    fiftyTwoWeekLow: priceOrNull(yearLow),
+    fiftyTwoWeekHigh: priceOrNull(yearHigh),
+    averageVolume: earlier.length > 0
+      ? Math.round(earlier.reduce((total, bar) => total + bar.volume, 0) / earlier.length)
+      : null,
+    averageVolumeSessions: earlier.length,
+  };
+}
+
+// Stats over the year of daily bars ending now
+export async function computeStockStats(storage: IStorage, symbol: string, now = new Date()): Promise<StockStats> {
+  const daily = await loadBars(storage, symbol, "1d", new Date(now.getTime() - YEAR_DAYS * DAY_MS), now);
+  return stockStats(symbol, daily);
+}
@@ -0,0 +1,152 @@
+import { createRequire } from "module";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+import { DatabaseStorage, MemStorage, defaultStocks, seedStocks, type IStorage } from "./storage";
+import { comparePasswords } from "./password";
+
+// drizzle-kit's ESM build requires Node built-ins dynamically, so load the
+// CommonJS one
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") = createRequire(import.meta.url)("drizzle-kit/api");
+
+const ddl = generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+
+// A DatabaseStorage on an in-process Postgres with the schema's tables
+async function pgliteStorage(): Promise<IStorage> {
+  const client = new PGlite();
+  for (const statement of await ddl) {
+    await client.exec(statement);
+  }
+  return new DatabaseStorage(drizzle(client, { schema }) as unknown as Database);
+}
+
+const stores: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DatabaseStorage", pgliteStorage],
+];
+
+describe.each(stores)("%s", (_name, openStore) => {
+  // A user of their own, so the in-memory sample data stays out of the way
+  async function newAccount(store: IStorage) {
+    const user = await store.createUser({ username: `trader_${Date.now()}`, password: "hash" });
+    const portfolio = await store.createPortfolio({ userId: user.id, name: "Paper", accountType: "paper" });
+    return { userId: user.id, portfolioId: portfolio.id };
+  }
+
+  it("seeds the stock universe once", async () => {
+    const store = await openStore();
+    await seedStocks(store);
+    expect(await seedStocks(store)).toBe(0);
+
+    const symbols = (await store.getAllStocks()).map((stock) => stock.symbol);
+    expect(symbols).toEqual(expect.arrayContaining(defaultStocks.map((stock) => stock.symbol)));
+    expect((await store.getStock("AAPL"))?.price).toBe("173.50");
+  });
+
+  it("derives positions and cash from the ledger", async () => {
+    const store = await openStore();
+    await seedStocks(store);
+    const scope = await newAccount(store);
+
+    await store.createTransaction({ ...scope, type: "deposit", amount: "10000" });
+    await store.createTransaction({ ...scope, type: "buy", symbol: "AAPL", amount: "1735", shares: "10" });
+    await store.createTransaction({ ...scope, type: "sell", symbol: "AAPL", amount: "-700", shares: "-4" });
+
+    const [position] = await store.getPositions(scope);
+    expect(position).toMatchObject({ symbol: "AAPL", quantity: "6.000000", costBasis: "1041.00" });
+    expect((await store.getPortfolio(scope.portfolioId))?.cashBalance).toBe("8965.00");
+
+    const ledger = await store.getTransactions(scope);
+    expect(ledger.map((transaction) => transaction.type)).toEqual(["sell", "buy", "deposit"]);
+    expect(ledger[0]).toMatchObject({ amount: "-700.00", shares: "-4.000000" });
+  });
+
+  it("reprices positions when the cost-basis method changes", async () => {
+    const store = await openStore();
+    const scope = await newAccount(store);
+    await store.createTransaction({ ...scope, type: "buy", symbol: "AAPL", amount: "1000", shares: "10" });
+    await store.createTransaction({ ...scope, type: "buy", symbol: "AAPL", amount: "2000", shares: "10" });
+    await store.createTransaction({ ...scope, type: "sell", symbol: "AAPL", amount: "-1500", shares: "-10" });
+    expect((await store.getPositions(scope))[0]).toMatchObject({ costBasis: "2000.00", realizedPnL: "500.00" });
+
+    await store.updatePortfolio(scope.portfolioId, { costBasisMethod: "lifo" });
+    expect((await store.getPositions(scope))[0]).toMatchObject({ costBasis: "1000.00", realizedPnL: "-500.00" });
+  });
+
+  it("keeps one price bar per symbol, interval and timestamp", async () => {
+    const store = await openStore();
+    const bar = {
+      symbol: "AAPL",
+      interval: "1d" as const,
+      timestamp: new Date("2026-01-02T00:00:00Z"),
+      open: "170.00",
+      high: "175.00",
+      low: "169.00",
+      close: "174.00",
+      volume: 1000,
+    };
+    await store.upsertPriceBars([bar]);
+    await store.upsertPriceBars([{ ...bar, close: "172.00" }]);
+
+    const bars = await store.getPriceBars("AAPL", "1d");
+    expect(bars.map((stored) => stored.close)).toEqual(["172.00"]);
+  });
+
+  it("deletes bars of one interval before a time", async () => {
+    const store = await openStore();
+    const bar = { symbol: "AAPL", open: "170.00", high: "170.00", low: "170.00", close: "170.00", volume: 10 };
+    await store.upsertPriceBars([
+      { ...bar, interval: "1m", timestamp: new Date("2026-01-01T10:00:00Z") },
+      { ...bar, interval: "1m", timestamp: new Date("2026-01-02T10:00:00Z") },
+      { ...bar, interval: "1d", timestamp: new Date("2026-01-01T00:00:00Z") },
+    ]);
+
+    expect(await store.deletePriceBars("1m", new Date("2026-01-02T00:00:00Z"))).toBe(1);
+    expect((await store.getPriceBars("AAPL", "1m")).map((stored) => stored.timestamp)).toEqual([new Date("2026-01-02T10:00:00Z")]);
+    expect(await store.getPriceBars("AAPL", "1d")).toHaveLength(1);
+  });
+
+  it("tracks orders and their links", async () => {
+    const store = await openStore();
+    const scope = await newAccount(store);
+    const entry = await store.createOrder({ ...scope, symbol: "AAPL", side: "buy", type: "limit", quantity: "5", limitPrice: "150" });
+    const exit = await store.createOrder({
+      ...scope,
+      symbol: "AAPL",
+      side: "sell",
+      type: "trailing_stop",
+      quantity: "5",
+      trailPercent: "5",
+      status: "held",
+      parentOrderId: entry.id,
+    });
+
+    expect(entry).toMatchObject({ status: "new", timeInForce: "DAY", filledQuantity: "0.000000", limitPrice: "150.00" });
+    expect((await store.getChildOrders(entry.id)).map((order) => order.id)).toEqual([exit.id]);
+    expect((await store.getOpenOrders()).map((order) => order.id)).toEqual(expect.arrayContaining([entry.id, exit.id]));
+
+    await store.updateOrder(entry.id, { status: "cancelled", statusReason: "Cancelled by user" });
+    const open = await store.getOrders(scope, { status: "open", limit: 50 });
+    const closed = await store.getOrders(scope, { status: "closed", limit: 50 });
+    expect(open.map((order) => order.id)).toEqual([exit.id]);
+    expect(closed.map((order) => order.statusReason)).toEqual(["Cancelled by user"]);
+  });
+});
+
+describe("MemStorage sample data", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("seeds the admin only when ADMIN_PASSWORD is set", async () => {
+    vi.stubEnv("ADMIN_PASSWORD", "");
+    expect(await new MemStorage().getUserByUsername("admin")).toBeUndefined();
+
+    vi.stubEnv("ADMIN_PASSWORD", "a-long-secret");
+    const admin = await new MemStorage().getUserByUsername("admin");
+    expect(admin?.isAdmin).toBe(true);
+    expect(await comparePasswords("a-long-secret", admin!.password)).toBe(true);
+  });
+});
@@ -1,19 +1,103 @@
-import { users, portfolios, stocks, transactions, type User, type InsertUser, type Portfolio, type InsertPortfolio, type Stock, type InsertStock, type Transaction, type InsertTransaction } from "@shared/schema";
+import { and, eq, asc, desc, gte, lt, lte, inArray, sql } from "drizzle-orm";
+import { users, portfolios, stocks, transactions, positions, priceBars, securities, watchlists, watchlistItems, targetModels, orders, openOrderStatuses, type User, type InsertUser, type Portfolio, type InsertPortfolio, type BenchmarkComponent, type PortfolioScope, type PortfolioSettings, type Stock, type InsertStock, type Transaction, type InsertTransaction, type TransactionFilter, type TransactionPage, type Position, type BarInterval, type PriceBar, type InsertPriceBar, type Security, type InsertSecurity, type Watchlist, type InsertWatchlist, type WatchlistItem, type WatchlistWithItems, type TargetModel, type TargetModelInput, type Order, type InsertOrder, type OrderQuery, type OrderStatus } from "@shared/schema";
+import { Decimal, toMoney, toShares } from "@shared/decimal";
+import { createDb, type Database } from "./db";
+import { replayTransactions } from "./positions";
+import { cashBalance, cashEffect } from "./cash";
+import { decodeCursor, pageTransactions, toPage } from "./transaction-query";
+import { hashPasswordSync } from "./password";
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
-  getPortfolio(userId: number): Promise<Portfolio | undefined>;
-  updatePortfolio(userId: number, portfolio: InsertPortfolio): Promise<Portfolio>;
+  getPortfolios(userId: number): Promise<Portfolio[]>;
+  getPortfolio(id: number): Promise<Portfolio | undefined>;
+  createPortfolio(portfolio: InsertPortfolio): Promise<Portfolio>;
+  updatePortfolio(id: number, settings: PortfolioSettings): Promise<Portfolio | undefined>;
   
   getAllStocks(): Promise<Stock[]>;
   getStock(symbol: string): Promise<Stock | undefined>;
   updateStock(symbol: string, stock: InsertStock): Promise<Stock>;
   
-  getTransactions(userId: number): Promise<Transaction[]>;
+  getTransactions(scope: PortfolioScope): Promise<Transaction[]>;
+  queryTransactions(scope: PortfolioScope, filter: TransactionFilter, cursor?: string): Promise<TransactionPage>;
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
+
+  getPositions(scope: PortfolioScope): Promise<Position[]>;
+
+  getPriceBars(symbol: string, interval: BarInterval, from?: Date, to?: Date): Promise<PriceBar[]>;
+  upsertPriceBars(bars: InsertPriceBar[]): Promise<PriceBar[]>;
+  deletePriceBars(interval: BarInterval, before: Date): Promise<number>;
+
+  getSecurities(): Promise<Security[]>;
+  getSecurity(symbol: string): Promise<Security | undefined>;
+  upsertSecurities(securities: InsertSecurity[]): Promise<Security[]>;
+
+  getWatchlists(userId: number): Promise<WatchlistWithItems[]>;
+  getWatchlist(id: number): Promise<WatchlistWithItems | undefined>;
+  createWatchlist(watchlist: InsertWatchlist): Promise<Watchlist>;
+  renameWatchlist(id: number, name: string): Promise<Watchlist | undefined>;
+  reorderWatchlists(userId: number, ids: number[]): Promise<Watchlist[]>;
+  deleteWatchlist(id: number): Promise<boolean>;
+  addWatchlistItem(watchlistId: number, symbol: string): Promise<WatchlistItem>;
+  removeWatchlistItem(watchlistId: number, symbol: string): Promise<boolean>;
+  reorderWatchlistItems(watchlistId: number, symbols: string[]): Promise<WatchlistItem[]>;
+
+  getTargetModel(portfolioId: number): Promise<TargetModel | undefined>;
+  saveTargetModel(portfolioId: number, model: TargetModelInput): Promise<TargetModel>;
+  deleteTargetModel(portfolioId: number): Promise<boolean>;
+
+  getOrders(scope: PortfolioScope, query: OrderQuery): Promise<Order[]>;
+  getOpenOrders(): Promise<Order[]>;
+  getOrder(id: number): Promise<Order | undefined>;
+  getChildOrders(parentOrderId: number): Promise<Order[]>;
+  createOrder(order: InsertOrder): Promise<Order>;
+  updateOrder(id: number, changes: Partial<InsertOrder>): Promise<Order | undefined>;
+}
+
+// The quoted stock universe. MemStorage starts with it, and seedStocks adds
+// whatever a database is missing on startup.
+export const defaultStocks: InsertStock[] = [
+  { symbol: "AAPL", name: "Apple Inc.", price: "173.50", change: "4.12", changePercent: "2.4", volume: 45200000, marketCap: "$2.7T" },
+  { symbol: "MSFT", name: "Microsoft Corp.", price: "384.30", change: "6.83", changePercent: "1.8", volume: 23100000, marketCap: "$2.9T" },
+  { symbol: "TSLA", name: "Tesla Inc.", price: "248.42", change: "-2.01", changePercent: "-0.8", volume: 67800000, marketCap: "$789B" },
+  { symbol: "AMZN", name: "Amazon.com Inc.", price: "154.89", change: "4.85", changePercent: "3.2", volume: 34500000, marketCap: "$1.6T" },
+  { symbol: "SPY", name: "SPDR S&P 500 ETF Trust", price: "452.31", change: "3.62", changePercent: "0.81", volume: 72500000, marketCap: "$412B" },
+  { symbol: "QQQ", name: "Invesco QQQ Trust", price: "389.54", change: "4.21", changePercent: "1.09", volume: 41800000, marketCap: "$205B" },
+  { symbol: "JNJ", name: "Johnson & Johnson", price: "158.72", change: "-0.64", changePercent: "-0.4", volume: 6900000, marketCap: "$382B" },
+  { symbol: "UNH", name: "UnitedHealth Group Inc.", price: "521.18", change: "3.07", changePercent: "0.59", volume: 3400000, marketCap: "$481B" }
+];
+
+function isOpenOrder(order: Order): boolean {
+  return openOrderStatuses.includes(order.status as OrderStatus);
+}
+
+// The columns of a target model; weights are stored as numeric percentages
+function targetModelColumns(model: TargetModelInput) {
+  return {
+    groupBy: model.groupBy,
+    targets: model.targets,
+    cashWeight: model.cashWeight.toFixed(2),
+    driftBand: model.driftBand.toFixed(2),
+  };
+}
+
+// Lays ids out in the requested order, keeping any ids the request left out
+// after the listed ones in their current order.
+function applyOrder<T>(items: T[], key: (item: T) => string | number, order: (string | number)[]): T[] {
+  const rank = new Map(order.map((value, index) => [value, index]));
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) =>
+      (rank.get(key(a.item)) ?? order.length + a.index) - (rank.get(key(b.item)) ?? order.length + b.index))
+    .map(({ item }) => item);
+}
+
+function inScope(scope: PortfolioScope) {
+  return (row: { userId: number; portfolioId: number }) =>
+    row.userId === scope.userId && (scope.portfolioId === undefined || row.portfolioId === scope.portfolioId);
 }
 
 export class MemStorage implements IStorage {
@@ -21,20 +105,48 @@ export class MemStorage implements IStorage {
   private portfolios: Map<number, Portfolio>;
   private stocks: Map<string, Stock>;
   private transactions: Map<number, Transaction[]>;
+  private positions: Map<number, Position[]>;
+  private priceBars: Map<string, Map<number, PriceBar>>;
+  private securities: Map<string, Security>;
+  private watchlists: Map<number, Watchlist>;
+  private watchlistItems: Map<number, WatchlistItem[]>;
+  private targetModels: Map<number, TargetModel>;
+  private orders: Map<number, Order>;
   private currentUserId: number;
   private currentPortfolioId: number;
   private currentStockId: number;
   private currentTransactionId: number;
+  private currentPositionId: number;
+  private currentPriceBarId: number;
+  private currentSecurityId: number;
+  private currentWatchlistId: number;
+  private currentWatchlistItemId: number;
+  private currentTargetModelId: number;
+  private currentOrderId: number;
 
   constructor() {
     this.users = new Map();
     this.portfolios = new Map();
     this.stocks = new Map();
     this.transactions = new Map();
+    this.positions = new Map();
+    this.priceBars = new Map();
+    this.securities = new Map();
+    this.watchlists = new Map();
+    this.watchlistItems = new Map();
+    this.targetModels = new Map();
+    this.orders = new Map();
     this.currentUserId = 1;
     this.currentPortfolioId = 1;
     this.currentStockId = 1;
     this.currentTransactionId = 1;
+    this.currentPositionId = 1;
+    this.currentPriceBarId = 1;
+    this.currentSecurityId = 1;
+    this.currentWatchlistId = 1;
+    this.currentWatchlistItemId = 1;
+    this.currentTargetModelId = 1;
+    this.currentOrderId = 1;
 
     // Initialize with sample data
     this.initializeSampleData();
@@ -42,40 +154,108 @@ export class MemStorage implements IStorage {
 
   private initializeSampleData() {
     // Sample user
-    const user: User = { id: 1, username: "john_portfolio", password: "hashed_password" };
+    const user: User = { id: 1, username: "john_portfolio", password: hashPasswordSync("portfolio123"), isAdmin: false };
     this.users.set(1, user);
 
-    // Sample portfolio
-    const portfolio: Portfolio = {
-      id: 1,
-      userId: 1,
-      totalValue: "847293.00",
-      dailyPnL: "4832.50",
-      successRate: "78.60",
-      activePositions: 24
-    };
-    this.portfolios.set(1, portfolio);
+    // Administrator, allowed to read other users' data. Only seeded when
+    // ADMIN_PASSWORD is set, so no deploy starts with a known admin login.
+    const adminPassword = process.env.ADMIN_PASSWORD;
+    if (adminPassword) {
+      const admin: User = { id: 2, username: "admin", password: hashPasswordSync(adminPassword), isAdmin: true };
+      this.users.set(2, admin);
+    }
+
+    // Sample accounts; their figures are derived by the valuation engine
+    const sampleAccounts: [string, string, BenchmarkComponent[] | null][] = [
+      ["Individual Brokerage", "brokerage", null],
+      ["Roth IRA", "ira", [{ symbol: "QQQ", weight: 60 }, { symbol: "SPY", weight: 40 }]],
+      ["Paper Trading", "paper", null]
+    ];
+    sampleAccounts.forEach(([name, accountType, benchmark], index) => {
+      this.portfolios.set(index + 1, {
+        id: index + 1,
+        userId: 1,
+        name,
+        accountType,
+        totalValue: "0.00",
+        dailyPnL: "0.00",
+        successRate: "0.00",
+        activePositions: 0,
+        costBasisMethod: "fifo",
+        cashBalance: "0.00",
+        benchmark
+      });
+    });
 
     // Sample stocks
-    const sampleStocks: Stock[] = [
-      { id: 1, symbol: "AAPL", name: "Apple Inc.", price: "173.50", change: "4.12", changePercent: "2.4", volume: 45200000, marketCap: "$2.7T" },
-      { id: 2, symbol: "MSFT", name: "Microsoft Corp.", price: "384.30", change: "6.83", changePercent: "1.8", volume: 23100000, marketCap: "$2.9T" },
-      { id: 3, symbol: "TSLA", name: "Tesla Inc.", price: "248.42", change: "-2.01", changePercent: "-0.8", volume: 67800000, marketCap: "$789B" },
-      { id: 4, symbol: "AMZN", name: "Amazon.com Inc.", price: "154.89", change: "4.85", changePercent: "3.2", volume: 34500000, marketCap: "$1.6T" }
+    defaultStocks.forEach((stock, index) => {
+      this.stocks.set(stock.symbol, { ...stock, id: index + 1 });
+    });
+
+    // Sample transactions, oldest first, so the derived positions are coherent
+    const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+    const daysAgo = (days: number) => minutesAgo(days * 24 * 60);
+    const sampleTransactions: Omit<Transaction, "lots" | "orderId">[] = [
+      { id: 1, userId: 1, portfolioId: 1, type: "deposit", symbol: null, amount: "600000.00", shares: null, timestamp: daysAgo(425) },
+      { id: 2, userId: 1, portfolioId: 1, type: "buy", symbol: "AAPL", amount: "180000.00", shares: "1200.000000", timestamp: daysAgo(420) },
+      { id: 3, userId: 1, portfolioId: 1, type: "buy", symbol: "MSFT", amount: "192000.00", shares: "600.000000", timestamp: daysAgo(240) },
+      { id: 4, userId: 1, portfolioId: 1, type: "buy", symbol: "TSLA", amount: "105000.00", shares: "500.000000", timestamp: daysAgo(200) },
+      { id: 5, userId: 1, portfolioId: 1, type: "buy", symbol: "AMZN", amount: "104000.00", shares: "800.000000", timestamp: daysAgo(150) },
+      { id: 6, userId: 1, portfolioId: 1, type: "sell", symbol: "AAPL", amount: "-66000.00", shares: "-400.000000", timestamp: daysAgo(90) },
+      { id: 7, userId: 1, portfolioId: 1, type: "buy", symbol: "TSLA", amount: "65000.00", shares: "250.000000", timestamp: daysAgo(60) },
+      { id: 8, userId: 1, portfolioId: 1, type: "sell", symbol: "AMZN", amount: "-12000.00", shares: "-100.000000", timestamp: daysAgo(40) },
+      { id: 9, userId: 1, portfolioId: 1, type: "interest", symbol: null, amount: "42.18", shares: null, timestamp: daysAgo(30) },
+      { id: 10, userId: 1, portfolioId: 1, type: "dividend", symbol: "MSFT", amount: "180.00", shares: null, timestamp: minutesAgo(60) },
+      { id: 11, userId: 1, portfolioId: 1, type: "sell", symbol: "TSLA", amount: "-3740.00", shares: "-15.000000", timestamp: minutesAgo(15) },
+      { id: 12, userId: 1, portfolioId: 1, type: "buy", symbol: "AAPL", amount: "5250.00", shares: "30.000000", timestamp: minutesAgo(2) },
+      { id: 13, userId: 1, portfolioId: 2, type: "transfer_in", symbol: null, amount: "45000.00", shares: null, timestamp: daysAgo(380) },
+      { id: 14, userId: 1, portfolioId: 2, type: "buy", symbol: "AAPL", amount: "15200.00", shares: "100.000000", timestamp: daysAgo(370) },
+      { id: 15, userId: 1, portfolioId: 2, type: "buy", symbol: "AMZN", amount: "19650.00", shares: "150.000000", timestamp: daysAgo(120) },
+      { id: 16, userId: 1, portfolioId: 2, type: "dividend", symbol: "AAPL", amount: "24.00", shares: null, timestamp: daysAgo(20) },
+      { id: 17, userId: 1, portfolioId: 3, type: "deposit", symbol: null, amount: "100000.00", shares: null, timestamp: daysAgo(10) }
     ];
 
-    sampleStocks.forEach(stock => {
-      this.stocks.set(stock.symbol, stock);
+    // Newest first, as the ledger is kept
+    this.transactions.set(1, sampleTransactions
+      .map((transaction) => ({ ...transaction, lots: null, orderId: null }))
+      .sort((a, b) => b.timestamp!.getTime() - a.timestamp!.getTime() || b.id - a.id));
+    this.portfolios.forEach((portfolio) => {
+      this.rebuildPositions(portfolio);
+      portfolio.cashBalance = toMoney(cashBalance(this.accountTransactions(portfolio.id)));
     });
 
-    // Sample transactions
-    const sampleTransactions: Transaction[] = [
-      { id: 1, userId: 1, type: "buy", symbol: "AAPL", amount: "5250.00", shares: 30, timestamp: new Date(Date.now() - 2 * 60 * 1000) },
-      { id: 2, userId: 1, type: "sell", symbol: "TSLA", amount: "-3740.00", shares: -15, timestamp: new Date(Date.now() - 15 * 60 * 1000) },
-      { id: 3, userId: 1, type: "dividend", symbol: "MSFT", amount: "180.00", shares: null, timestamp: new Date(Date.now() - 60 * 60 * 1000) }
+    // Sample watchlists
+    const sampleWatchlists: [string, string[]][] = [
+      ["Core Holdings", ["AAPL", "MSFT", "AMZN", "TSLA"]],
+      ["Growth", ["TSLA", "AMZN"]]
     ];
+    sampleWatchlists.forEach(([name, symbols], position) => {
+      const watchlist: Watchlist = { id: this.currentWatchlistId++, userId: 1, name, position, createdAt: new Date() };
+      this.watchlists.set(watchlist.id, watchlist);
+      this.watchlistItems.set(watchlist.id, symbols.map((symbol, index) => ({
+        id: this.currentWatchlistItemId++,
+        watchlistId: watchlist.id,
+        symbol,
+        position: index
+      })));
+    });
+
+    this.currentUserId = 3;
+    this.currentPortfolioId = sampleAccounts.length + 1;
+    this.currentStockId = defaultStocks.length + 1;
+    this.currentTransactionId = sampleTransactions.length + 1;
+  }
+
+  private accountTransactions(portfolioId: number): Transaction[] {
+    const portfolio = this.portfolios.get(portfolioId);
+    return (portfolio && this.transactions.get(portfolio.userId) || [])
+      .filter((transaction) => transaction.portfolioId === portfolioId);
+  }
 
-    this.transactions.set(1, sampleTransactions);
+  private rebuildPositions(portfolio: Portfolio) {
+    const rebuilt = replayTransactions(portfolio, this.accountTransactions(portfolio.id))
+      .map((position) => ({ id: this.currentPositionId++, ...position }));
+    this.positions.set(portfolio.id, rebuilt);
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -88,19 +268,54 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, isAdmin: false };
     this.users.set(id, user);
     return user;
   }
 
-  async getPortfolio(userId: number): Promise<Portfolio | undefined> {
-    return this.portfolios.get(userId);
+  async getPortfolios(userId: number): Promise<Portfolio[]> {
+    return Array.from(this.portfolios.values()).filter((portfolio) => portfolio.userId === userId);
   }
 
-  async updatePortfolio(userId: number, insertPortfolio: InsertPortfolio): Promise<Portfolio> {
-    const id = this.currentPortfolioId++;
-    const portfolio: Portfolio = { ...insertPortfolio, id };
-    this.portfolios.set(userId, portfolio);
+  async getPortfolio(id: number): Promise<Portfolio | undefined> {
+    return this.portfolios.get(id);
+  }
+
+  async createPortfolio(insertPortfolio: InsertPortfolio): Promise<Portfolio> {
+    const portfolio: Portfolio = {
+      id: this.currentPortfolioId++,
+      userId: insertPortfolio.userId,
+      name: insertPortfolio.name ?? "Brokerage",
+      accountType: insertPortfolio.accountType ?? "brokerage",
+      totalValue: insertPortfolio.totalValue ?? "0.00",
+      dailyPnL: insertPortfolio.dailyPnL ?? "0.00",
+      successRate: insertPortfolio.successRate ?? "0.00",
+      activePositions: insertPortfolio.activePositions ?? 0,
+      costBasisMethod: insertPortfolio.costBasisMethod ?? "fifo",
+      cashBalance: insertPortfolio.cashBalance ?? "0.00",
+      benchmark: insertPortfolio.benchmark ?? null,
+    };
+    this.portfolios.set(portfolio.id, portfolio);
+    this.positions.set(portfolio.id, []);
+    return portfolio;
+  }
+
+  async updatePortfolio(id: number, settings: PortfolioSettings): Promise<Portfolio | undefined> {
+    const existing = this.portfolios.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const portfolio: Portfolio = {
+      ...existing,
+      name: settings.name ?? existing.name,
+      costBasisMethod: settings.costBasisMethod ?? existing.costBasisMethod,
+      benchmark: settings.benchmark !== undefined ? settings.benchmark : existing.benchmark,
+    };
+    this.portfolios.set(id, portfolio);
+    // Positions close lots under the method, so a new one reprices them
+    if (portfolio.costBasisMethod !== existing.costBasisMethod) {
+      this.rebuildPositions(portfolio);
+    }
     return portfolio;
   }
 
@@ -120,8 +335,12 @@ export class MemStorage implements IStorage {
     return stock;
   }
 
-  async getTransactions(userId: number): Promise<Transaction[]> {
-    return this.transactions.get(userId) || [];
+  async getTransactions(scope: PortfolioScope): Promise<Transaction[]> {
+    return (this.transactions.get(scope.userId) || []).filter(inScope(scope));
+  }
+
+  async queryTransactions(scope: PortfolioScope, filter: TransactionFilter, cursor?: string): Promise<TransactionPage> {
+    return pageTransactions(await this.getTransactions(scope), filter, cursor);
   }
 
   async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
@@ -130,15 +349,664 @@ export class MemStorage implements IStorage {
       ...insertTransaction,
       id,
       timestamp: new Date(),
-      shares: insertTransaction.shares ?? null
+      // Match the scale Postgres returns for the decimal columns
+      amount: toMoney(insertTransaction.amount),
+      shares: insertTransaction.shares != null ? toShares(insertTransaction.shares) : null,
+      symbol: insertTransaction.symbol ?? null,
+      lots: insertTransaction.lots ?? null,
+      orderId: insertTransaction.orderId ?? null
     };
     
     const userTransactions = this.transactions.get(insertTransaction.userId) || [];
     userTransactions.unshift(transaction);
     this.transactions.set(insertTransaction.userId, userTransactions);
+
+    const portfolio = this.portfolios.get(insertTransaction.portfolioId);
+    if (portfolio) {
+      this.rebuildPositions(portfolio);
+      portfolio.cashBalance = toMoney(Decimal.from(portfolio.cashBalance).plus(cashEffect(transaction)));
+    }
     
     return transaction;
   }
+
+  async getPositions(scope: PortfolioScope): Promise<Position[]> {
+    const accounts = await this.getPortfolios(scope.userId);
+    return accounts
+      .filter((portfolio) => scope.portfolioId === undefined || portfolio.id === scope.portfolioId)
+      .flatMap((portfolio) => this.positions.get(portfolio.id) || []);
+  }
+
+  async getPriceBars(symbol: string, interval: BarInterval, from?: Date, to?: Date): Promise<PriceBar[]> {
+    const series = this.priceBars.get(`${symbol}:${interval}`);
+    if (!series) {
+      return [];
+    }
+
+    return Array.from(series.values())
+      .filter((bar) => (!from || bar.timestamp >= from) && (!to || bar.timestamp <= to))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async upsertPriceBars(bars: InsertPriceBar[]): Promise<PriceBar[]> {
+    return bars.map((insertBar) => {
+      const key = `${insertBar.symbol}:${insertBar.interval}`;
+      const series = this.priceBars.get(key) || new Map<number, PriceBar>();
+      const existing = series.get(insertBar.timestamp.getTime());
+      const bar: PriceBar = { ...insertBar, id: existing?.id || this.currentPriceBarId++ };
+      series.set(insertBar.timestamp.getTime(), bar);
+      this.priceBars.set(key, series);
+      return bar;
+    });
+  }
+
+  async deletePriceBars(interval: BarInterval, before: Date): Promise<number> {
+    let deleted = 0;
+    this.priceBars.forEach((series, key) => {
+      if (!key.endsWith(`:${interval}`)) {
+        return;
+      }
+      Array.from(series.keys())
+        .filter((time) => time < before.getTime())
+        .forEach((time) => {
+          series.delete(time);
+          deleted++;
+        });
+    });
+    return deleted;
+  }
+
+  async getSecurities(): Promise<Security[]> {
+    return Array.from(this.securities.values()).sort((a, b) => a.symbol.localeCompare(b.symbol));
+  }
+
+  async getSecurity(symbol: string): Promise<Security | undefined> {
+    return this.securities.get(symbol);
+  }
+
+  async upsertSecurities(rows: InsertSecurity[]): Promise<Security[]> {
+    return rows.map((row) => {
+      const security: Security = {
+        id: this.securities.get(row.symbol)?.id || this.currentSecurityId++,
+        symbol: row.symbol,
+        name: row.name,
+        exchange: row.exchange,
+        sector: row.sector ?? null,
+        industry: row.industry ?? null,
+        currency: row.currency ?? "USD",
+        assetType: row.assetType ?? "equity",
+      };
+      this.securities.set(security.symbol, security);
+      return security;
+    });
+  }
+
+  async getWatchlists(userId: number): Promise<WatchlistWithItems[]> {
+    return Array.from(this.watchlists.values())
+      .filter((watchlist) => watchlist.userId === userId)
+      .sort((a, b) => a.position - b.position || a.id - b.id)
+      .map((watchlist) => ({ ...watchlist, items: this.watchlistItems.get(watchlist.id) || [] }));
+  }
+
+  async getWatchlist(id: number): Promise<WatchlistWithItems | undefined> {
+    const watchlist = this.watchlists.get(id);
+    return watchlist && { ...watchlist, items: this.watchlistItems.get(id) || [] };
+  }
+
+  async createWatchlist(insertWatchlist: InsertWatchlist): Promise<Watchlist> {
+    const existing = await this.getWatchlists(insertWatchlist.userId);
+    const watchlist: Watchlist = {
+      ...insertWatchlist,
+      id: this.currentWatchlistId++,
+      position: insertWatchlist.position ?? existing.length,
+      createdAt: new Date(),
+    };
+    this.watchlists.set(watchlist.id, watchlist);
+    this.watchlistItems.set(watchlist.id, []);
+    return watchlist;
+  }
+
+  async renameWatchlist(id: number, name: string): Promise<Watchlist | undefined> {
+    const watchlist = this.watchlists.get(id);
+    if (!watchlist) {
+      return undefined;
+    }
+    const renamed = { ...watchlist, name };
+    this.watchlists.set(id, renamed);
+    return renamed;
+  }
+
+  async reorderWatchlists(userId: number, ids: number[]): Promise<Watchlist[]> {
+    const ordered = applyOrder(await this.getWatchlists(userId), (watchlist) => watchlist.id, ids);
+    return ordered.map(({ items: _items, ...watchlist }, position) => {
+      const reordered = { ...watchlist, position };
+      this.watchlists.set(reordered.id, reordered);
+      return reordered;
+    });
+  }
+
+  async deleteWatchlist(id: number): Promise<boolean> {
+    this.watchlistItems.delete(id);
+    return this.watchlists.delete(id);
+  }
+
+  async addWatchlistItem(watchlistId: number, symbol: string): Promise<WatchlistItem> {
+    const items = this.watchlistItems.get(watchlistId) || [];
+    const existing = items.find((item) => item.symbol === symbol);
+    if (existing) {
+      return existing;
+    }
+
+    const item: WatchlistItem = { id: this.currentWatchlistItemId++, watchlistId, symbol, position: items.length };
+    this.watchlistItems.set(watchlistId, [...items, item]);
+    return item;
+  }
+
+  async removeWatchlistItem(watchlistId: number, symbol: string): Promise<boolean> {
+    const items = this.watchlistItems.get(watchlistId) || [];
+    const remaining = items.filter((item) => item.symbol !== symbol);
+    this.watchlistItems.set(watchlistId, remaining.map((item, position) => ({ ...item, position })));
+    return remaining.length < items.length;
+  }
+
+  async reorderWatchlistItems(watchlistId: number, symbols: string[]): Promise<WatchlistItem[]> {
+    const items = applyOrder(this.watchlistItems.get(watchlistId) || [], (item) => item.symbol, symbols)
+      .map((item, position) => ({ ...item, position }));
+    this.watchlistItems.set(watchlistId, items);
+    return items;
+  }
+
+  async getTargetModel(portfolioId: number): Promise<TargetModel | undefined> {
+    return this.targetModels.get(portfolioId);
+  }
+
+  async saveTargetModel(portfolioId: number, model: TargetModelInput): Promise<TargetModel> {
+    const existing = this.targetModels.get(portfolioId);
+    const saved: TargetModel = {
+      id: existing?.id ?? this.currentTargetModelId++,
+      portfolioId,
+      ...targetModelColumns(model),
+      updatedAt: new Date(),
+    };
+    this.targetModels.set(portfolioId, saved);
+    return saved;
+  }
+
+  async deleteTargetModel(portfolioId: number): Promise<boolean> {
+    return this.targetModels.delete(portfolioId);
+  }
+
+  async getOrders(scope: PortfolioScope, query: OrderQuery): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter(inScope(scope))
+      .filter((order) => query.status === "all" || isOpenOrder(order) === (query.status === "open"))
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime() || b.id - a.id)
+      .slice(0, query.limit);
+  }
+
+  async getOpenOrders(): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter(isOpenOrder)
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime() || a.id - b.id);
+  }
+
+  async getOrder(id: number): Promise<Order | undefined> {
+    return this.orders.get(id);
+  }
+
+  async getChildOrders(parentOrderId: number): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter((order) => order.parentOrderId === parentOrderId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createOrder(insertOrder: InsertOrder): Promise<Order> {
+    const now = new Date();
+    const order: Order = {
+      id: this.currentOrderId++,
+      userId: insertOrder.userId,
+      portfolioId: insertOrder.portfolioId,
+      symbol: insertOrder.symbol,
+      side: insertOrder.side,
+      type: insertOrder.type,
+      quantity: toShares(insertOrder.quantity),
+      limitPrice: insertOrder.limitPrice != null ? toMoney(insertOrder.limitPrice) : null,
+      stopPrice: insertOrder.stopPrice != null ? toMoney(insertOrder.stopPrice) : null,
+      trailAmount: insertOrder.trailAmount != null ? toMoney(insertOrder.trailAmount) : null,
+      trailPercent: insertOrder.trailPercent != null ? toMoney(insertOrder.trailPercent) : null,
+      timeInForce: insertOrder.timeInForce ?? "DAY",
+      status: insertOrder.status ?? "new",
+      triggered: insertOrder.triggered ?? false,
+      filledQuantity: toShares(insertOrder.filledQuantity ?? 0),
+      averageFillPrice: insertOrder.averageFillPrice ?? null,
+      statusReason: insertOrder.statusReason ?? null,
+      replacesOrderId: insertOrder.replacesOrderId ?? null,
+      parentOrderId: insertOrder.parentOrderId ?? null,
+      ocoOrderId: insertOrder.ocoOrderId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.orders.set(order.id, order);
+    return order;
+  }
+
+  async updateOrder(id: number, changes: Partial<InsertOrder>): Promise<Order | undefined> {
+    const existing = this.orders.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const order: Order = { ...existing, ...changes, updatedAt: new Date() };
+    this.orders.set(id, order);
+    return order;
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getPortfolios(userId: number): Promise<Portfolio[]> {
+    return this.db.select().from(portfolios).where(eq(portfolios.userId, userId)).orderBy(portfolios.id);
+  }
+
+  async getPortfolio(id: number): Promise<Portfolio | undefined> {
+    const [portfolio] = await this.db.select().from(portfolios).where(eq(portfolios.id, id));
+    return portfolio;
+  }
+
+  async createPortfolio(insertPortfolio: InsertPortfolio): Promise<Portfolio> {
+    const [portfolio] = await this.db.insert(portfolios).values(insertPortfolio).returning();
+    return portfolio;
+  }
+
+  async updatePortfolio(id: number, settings: PortfolioSettings): Promise<Portfolio | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(portfolios).where(eq(portfolios.id, id));
+      const [portfolio] = await tx.update(portfolios).set(settings).where(eq(portfolios.id, id)).returning();
+      // Positions close lots under the method, so a new one reprices them
+      if (portfolio && portfolio.costBasisMethod !== existing?.costBasisMethod) {
+        await this.rebuildPositions(tx, portfolio);
+      }
+      return portfolio;
+    });
+  }
+
+  async getAllStocks(): Promise<Stock[]> {
+    return this.db.select().from(stocks).orderBy(stocks.id);
+  }
+
+  async getStock(symbol: string): Promise<Stock | undefined> {
+    const [stock] = await this.db.select().from(stocks).where(eq(stocks.symbol, symbol));
+    return stock;
+  }
+
+  async updateStock(symbol: string, insertStock: InsertStock): Promise<Stock> {
+    const [stock] = await this.db
+      .insert(stocks)
+      .values({ ...insertStock, symbol })
+      .onConflictDoUpdate({ target: stocks.symbol, set: { ...insertStock, symbol } })
+      .returning();
+    return stock;
+  }
+
+  async getTransactions(scope: PortfolioScope): Promise<Transaction[]> {
+    return this.db
+      .select()
+      .from(transactions)
+      .where(and(
+        eq(transactions.userId, scope.userId),
+        scope.portfolioId !== undefined ? eq(transactions.portfolioId, scope.portfolioId) : undefined,
+      ))
+      .orderBy(desc(transactions.timestamp), desc(transactions.id));
+  }
+
+  // Keyset pagination on (sort value, id). Timestamps are compared at the
+  // millisecond precision cursors carry, not Postgres' microseconds, and cash
+  // movements without a symbol sort as an empty one.
+  async queryTransactions(scope: PortfolioScope, filter: TransactionFilter, cursor?: string): Promise<TransactionPage> {
+    const after = cursor ? decodeCursor(filter, cursor) : undefined;
+    const sortColumn = {
+      timestamp: sql`date_trunc('milliseconds', ${transactions.timestamp})`,
+      amount: sql`${transactions.amount}`,
+      symbol: sql`coalesce(${transactions.symbol}, '')`,
+    }[filter.sort];
+    const direction = filter.order === "asc" ? asc : desc;
+    const beyond = filter.order === "asc" ? sql`>` : sql`<`;
+
+    const rows = await this.db
+      .select()
+      .from(transactions)
+      .where(and(
+        eq(transactions.userId, scope.userId),
+        scope.portfolioId !== undefined ? eq(transactions.portfolioId, scope.portfolioId) : undefined,
+        filter.type ? eq(transactions.type, filter.type) : undefined,
+        filter.symbol ? eq(transactions.symbol, filter.symbol) : undefined,
+        filter.from ? gte(transactions.timestamp, filter.from) : undefined,
+        filter.to ? lte(transactions.timestamp, filter.to) : undefined,
+        after ? sql`(${sortColumn}, ${transactions.id}) ${beyond} (${after.value}, ${after.id})` : undefined,
+      ))
+      .orderBy(direction(sortColumn), direction(transactions.id))
+      .limit(filter.limit + 1);
+    return toPage(rows, filter);
+  }
+
+  // Replaces an account's positions with a replay of its whole ledger
+  private async rebuildPositions(tx: Database, portfolio: Portfolio) {
+    const history = await tx.select().from(transactions).where(eq(transactions.portfolioId, portfolio.id));
+    const rebuilt = replayTransactions(portfolio, history);
+    await tx.delete(positions).where(eq(positions.portfolioId, portfolio.id));
+    if (rebuilt.length > 0) {
+      await tx.insert(positions).values(rebuilt);
+    }
+  }
+
+  async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+    return this.db.transaction(async (tx) => {
+      const [transaction] = await tx.insert(transactions).values(insertTransaction).returning();
+
+      const [portfolio] = await tx.select().from(portfolios).where(eq(portfolios.id, transaction.portfolioId));
+      await this.rebuildPositions(tx, portfolio);
+
+      await tx
+        .update(portfolios)
+        .set({ cashBalance: sql`${portfolios.cashBalance} + ${toMoney(cashEffect(transaction))}` })
+        .where(eq(portfolios.id, transaction.portfolioId));
+
+      return transaction;
+    });
+  }
+
+  async getPositions(scope: PortfolioScope): Promise<Position[]> {
+    return this.db
+      .select()
+      .from(positions)
+      .where(and(
+        eq(positions.userId, scope.userId),
+        scope.portfolioId !== undefined ? eq(positions.portfolioId, scope.portfolioId) : undefined,
+      ))
+      .orderBy(positions.symbol, positions.portfolioId);
+  }
+
+  async getPriceBars(symbol: string, interval: BarInterval, from?: Date, to?: Date): Promise<PriceBar[]> {
+    return this.db
+      .select()
+      .from(priceBars)
+      .where(and(
+        eq(priceBars.symbol, symbol),
+        eq(priceBars.interval, interval),
+        from ? gte(priceBars.timestamp, from) : undefined,
+        to ? lte(priceBars.timestamp, to) : undefined,
+      ))
+      .orderBy(priceBars.timestamp);
+  }
+
+  async upsertPriceBars(bars: InsertPriceBar[]): Promise<PriceBar[]> {
+    if (bars.length === 0) {
+      return [];
+    }
+
+    return this.db
+      .insert(priceBars)
+      .values(bars)
+      .onConflictDoUpdate({
+        target: [priceBars.symbol, priceBars.interval, priceBars.timestamp],
+        set: {
+          open: sql`excluded.open`,
+          high: sql`excluded.high`,
+          low: sql`excluded.low`,
+          close: sql`excluded.close`,
+          volume: sql`excluded.volume`,
+        },
+      })
+      .returning();
+  }
+
+  async deletePriceBars(interval: BarInterval, before: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(priceBars)
+      .where(and(eq(priceBars.interval, interval), lt(priceBars.timestamp, before)))
+      .returning({ id: priceBars.id });
+    return deleted.length;
+  }
+
+  async getSecurities(): Promise<Security[]> {
+    return this.db.select().from(securities).orderBy(securities.symbol);
+  }
+
+  async getSecurity(symbol: string): Promise<Security | undefined> {
+    const [security] = await this.db.select().from(securities).where(eq(securities.symbol, symbol));
+    return security;
+  }
+
+  async upsertSecurities(rows: InsertSecurity[]): Promise<Security[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    return this.db
+      .insert(securities)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: securities.symbol,
+        set: {
+          name: sql`excluded.name`,
+          exchange: sql`excluded.exchange`,
+          sector: sql`excluded.sector`,
+          industry: sql`excluded.industry`,
+          currency: sql`excluded.currency`,
+          assetType: sql`excluded.asset_type`,
+        },
+      })
+      .returning();
+  }
+
+  private async withItems(rows: Watchlist[]): Promise<WatchlistWithItems[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const items = await this.db
+      .select()
+      .from(watchlistItems)
+      .where(inArray(watchlistItems.watchlistId, rows.map((row) => row.id)))
+      .orderBy(watchlistItems.position, watchlistItems.id);
+    return rows.map((row) => ({ ...row, items: items.filter((item) => item.watchlistId === row.id) }));
+  }
+
+  async getWatchlists(userId: number): Promise<WatchlistWithItems[]> {
+    const rows = await this.db
+      .select()
+      .from(watchlists)
+      .where(eq(watchlists.userId, userId))
+      .orderBy(watchlists.position, watchlists.id);
+    return this.withItems(rows);
+  }
+
+  async getWatchlist(id: number): Promise<WatchlistWithItems | undefined> {
+    const [watchlist] = await this.withItems(await this.db.select().from(watchlists).where(eq(watchlists.id, id)));
+    return watchlist;
+  }
+
+  async createWatchlist(insertWatchlist: InsertWatchlist): Promise<Watchlist> {
+    const position = insertWatchlist.position ?? (await this.getWatchlists(insertWatchlist.userId)).length;
+    const [watchlist] = await this.db.insert(watchlists).values({ ...insertWatchlist, position }).returning();
+    return watchlist;
+  }
+
+  async renameWatchlist(id: number, name: string): Promise<Watchlist | undefined> {
+    const [watchlist] = await this.db.update(watchlists).set({ name }).where(eq(watchlists.id, id)).returning();
+    return watchlist;
+  }
+
+  async reorderWatchlists(userId: number, ids: number[]): Promise<Watchlist[]> {
+    const ordered = applyOrder(await this.getWatchlists(userId), (watchlist) => watchlist.id, ids);
+    return this.db.transaction(async (tx) => {
+      const reordered: Watchlist[] = [];
+      for (let position = 0; position < ordered.length; position++) {
+        const [row] = await tx
+          .update(watchlists)
+          .set({ position })
+          .where(eq(watchlists.id, ordered[position].id))
+          .returning();
+        reordered.push(row);
+      }
+      return reordered;
+    });
+  }
+
+  async deleteWatchlist(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(watchlistItems).where(eq(watchlistItems.watchlistId, id));
+      const deleted = await tx.delete(watchlists).where(eq(watchlists.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  async addWatchlistItem(watchlistId: number, symbol: string): Promise<WatchlistItem> {
+    const items = await this.db.select().from(watchlistItems).where(eq(watchlistItems.watchlistId, watchlistId));
+    const existing = items.find((item) => item.symbol === symbol);
+    if (existing) {
+      return existing;
+    }
+
+    const position = items.reduce((last, item) => Math.max(last, item.position + 1), 0);
+    const [item] = await this.db
+      .insert(watchlistItems)
+      .values({ watchlistId, symbol, position })
+      .returning();
+    return item;
+  }
+
+  async removeWatchlistItem(watchlistId: number, symbol: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(watchlistItems)
+      .where(and(eq(watchlistItems.watchlistId, watchlistId), eq(watchlistItems.symbol, symbol)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async reorderWatchlistItems(watchlistId: number, symbols: string[]): Promise<WatchlistItem[]> {
+    const items = await this.db
+      .select()
+      .from(watchlistItems)
+      .where(eq(watchlistItems.watchlistId, watchlistId))
+      .orderBy(watchlistItems.position, watchlistItems.id);
+
+    const ordered = applyOrder(items, (item) => item.symbol, symbols);
+    return this.db.transaction(async (tx) => {
+      const reordered: WatchlistItem[] = [];
+      for (let position = 0; position < ordered.length; position++) {
+        const [row] = await tx
+          .update(watchlistItems)
+          .set({ position })
+          .where(eq(watchlistItems.id, ordered[position].id))
+          .returning();
+        reordered.push(row);
+      }
+      return reordered;
+    });
+  }
+
+  async getTargetModel(portfolioId: number): Promise<TargetModel | undefined> {
+    const [model] = await this.db.select().from(targetModels).where(eq(targetModels.portfolioId, portfolioId));
+    return model;
+  }
+
+  async saveTargetModel(portfolioId: number, model: TargetModelInput): Promise<TargetModel> {
+    const columns = { ...targetModelColumns(model), updatedAt: new Date() };
+    const [saved] = await this.db
+      .insert(targetModels)
+      .values({ portfolioId, ...columns })
+      .onConflictDoUpdate({ target: targetModels.portfolioId, set: columns })
+      .returning();
+    return saved;
+  }
+
+  async deleteTargetModel(portfolioId: number): Promise<boolean> {
+    const deleted = await this.db.delete(targetModels).where(eq(targetModels.portfolioId, portfolioId)).returning();
+    return deleted.length > 0;
+  }
+
+  async getOrders(scope: PortfolioScope, query: OrderQuery): Promise<Order[]> {
+    const open = inArray(orders.status, openOrderStatuses);
+    return this.db
+      .select()
+      .from(orders)
+      .where(and(
+        eq(orders.userId, scope.userId),
+        scope.portfolioId !== undefined ? eq(orders.portfolioId, scope.portfolioId) : undefined,
+        query.status === "open" ? open : query.status === "closed" ? sql`not ${open}` : undefined,
+      ))
+      .orderBy(desc(orders.createdAt), desc(orders.id))
+      .limit(query.limit);
+  }
+
+  async getOpenOrders(): Promise<Order[]> {
+    return this.db
+      .select()
+      .from(orders)
+      .where(inArray(orders.status, openOrderStatuses))
+      .orderBy(asc(orders.createdAt), asc(orders.id));
+  }
+
+  async getOrder(id: number): Promise<Order | undefined> {
+    const [order] = await this.db.select().from(orders).where(eq(orders.id, id));
+    return order;
+  }
+
+  async getChildOrders(parentOrderId: number): Promise<Order[]> {
+    return this.db.select().from(orders).where(eq(orders.parentOrderId, parentOrderId)).orderBy(asc(orders.id));
+  }
+
+  async createOrder(insertOrder: InsertOrder): Promise<Order> {
+    const [order] = await this.db.insert(orders).values(insertOrder).returning();
+    return order;
+  }
+
+  async updateOrder(id: number, changes: Partial<InsertOrder>): Promise<Order | undefined> {
+    const [order] = await this.db
+      .update(orders)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+}
+
+// Adds the default stocks a store has no quote for, so a fresh database has
+// something to trade and the market data feed has symbols to tick
+export async function seedStocks(target: IStorage): Promise<number> {
+  const quoted = new Set((await target.getAllStocks()).map((stock) => stock.symbol));
+  const missing = defaultStocks.filter((stock) => !quoted.has(stock.symbol));
+  for (const stock of missing) {
+    await target.updateStock(stock.symbol, stock);
+  }
+  return missing.length;
+}
+
+// DATABASE_URL selects Postgres; without it (or with STORAGE_DRIVER=memory)
+// the server runs on the seeded in-memory store.
+function createStorage(): IStorage {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (databaseUrl && process.env.STORAGE_DRIVER !== "memory") {
+    return new DatabaseStorage(createDb(databaseUrl));
+  }
+
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
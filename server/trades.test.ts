@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { tradeRequestSchema } from "@shared/schema";
+import { storage } from "./storage";
+import { executeTrade, TradeRejectedError } from "./trades";
+
+// A fresh paper account of the sample user with $100,000 in it
+async function paperAccount() {
+  const portfolio = await storage.createPortfolio({ userId: 1, name: "Test", accountType: "paper" });
+  const account = { userId: 1, portfolioId: portfolio.id };
+  await storage.createTransaction({ ...account, type: "deposit", amount: "100000" });
+  return account;
+}
+
+describe("executeTrade", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("prices buys and sells at the latest quote", async () => {
+    const account = await paperAccount();
+    const bought = await executeTrade({ ...account, type: "buy", symbol: "JNJ", shares: "10" });
+    expect(bought.transaction).toMatchObject({ amount: "1587.20", shares: "10.000000" });
+
+    await storage.updateStock("JNJ", { ...(await storage.getStock("JNJ"))!, price: "160.25" });
+    const sold = await executeTrade({ ...account, type: "sell", symbol: "JNJ", shares: "4" });
+    expect(sold.transaction).toMatchObject({ amount: "-641.00", shares: "-4.000000" });
+  });
+
+  it("prices an engine fill at the price it matched", async () => {
+    const account = await paperAccount();
+    const filled = await executeTrade({ ...account, type: "buy", symbol: "MSFT", shares: "2", price: "380.10" });
+    expect(filled.transaction.amount).toBe("760.20");
+  });
+
+  it("checks buying power against the quoted cost, not the requested amount", async () => {
+    const account = await paperAccount();
+    // 1000 AAPL at the 173.50 quote costs 173,500; the amount is dropped
+    const request = tradeRequestSchema.parse({ type: "buy", symbol: "AAPL", shares: "1000", amount: "0.01" });
+    const understated = executeTrade({ ...request, ...account });
+
+    await expect(understated).rejects.toThrow(TradeRejectedError);
+    await expect(understated).rejects.toThrow("Insufficient cash: $173,500.00 needed, $100,000.00 available");
+    expect(await storage.getPositions(account)).toEqual([]);
+  });
+
+  it("does not let concurrent buys overdraw the account", async () => {
+    const account = await paperAccount();
+    // A slow balance read, so both buys see the balance before either is stored
+    const getPortfolio = storage.getPortfolio.bind(storage);
+    vi.spyOn(storage, "getPortfolio").mockImplementation(async (id) => {
+      const portfolio = await getPortfolio(id);
+      const read = portfolio && { ...portfolio };
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return read;
+    });
+
+    // Each 200 MSFT costs 76,860.00 at the 384.30 quote; both do not fit in 100,000
+    const buys = await Promise.allSettled([
+      executeTrade({ ...account, type: "buy", symbol: "MSFT", shares: "200" }),
+      executeTrade({ ...account, type: "buy", symbol: "MSFT", shares: "200" }),
+    ]);
+
+    expect(buys.map((buy) => buy.status)).toEqual(["fulfilled", "rejected"]);
+    expect((await storage.getPortfolio(account.portfolioId))?.cashBalance).toBe("23140.00");
+  });
+});
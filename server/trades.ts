@@ -0,0 +1,144 @@
+import type { LotSelection, PortfolioScope, TradeRequest, TradeResult, Transaction, TransactionType } from "@shared/schema";
+import { Decimal, MONEY_DP, formatMoney, formatShares, toMoney, toShares, type DecimalValue } from "@shared/decimal";
+import { storage } from "./storage";
+import { valuePositions } from "./positions";
+import { portfolioValuator } from "./valuation";
+import { accountMethod, replayLots, selectLots } from "./lots";
+import { ledgerAmount } from "./cash";
+
+// A trade that failed a business rule. Carries the HTTP status the route
+// should answer with, like the errors handled by the express error handler.
+export class TradeRejectedError extends Error {
+  status = 400;
+}
+
+// Types that must be covered by the cash on hand. Fees and commissions are
+// charged regardless and may overdraw the account.
+const cashFundedTypes: TransactionType[] = ["buy", "withdrawal", "transfer_out"];
+
+type TradeInput = TradeRequest & { userId: number; portfolioId: number; orderId?: number; price?: DecimalValue };
+
+// The last write queued for each account. Writes to one account run one at a
+// time, so two requests, or a request and an order fill, cannot both pass the
+// cash or shares check against the same balance.
+const accountQueues = new Map<number, Promise<unknown>>();
+
+function serializeAccount<T>(portfolioId: number, task: () => Promise<T>): Promise<T> {
+  const run = (accountQueues.get(portfolioId) ?? Promise.resolve()).then(task);
+  const queued = run.catch(() => undefined);
+  accountQueues.set(portfolioId, queued);
+  void queued.then(() => {
+    if (accountQueues.get(portfolioId) === queued) accountQueues.delete(portfolioId);
+  });
+  return run;
+}
+
+// Validates a parsed transaction against market data and the account's
+// holdings and cash, stores it with the ledger's sign convention (sells
+// negative, cash movements signed by their effect) and reports its effect.
+// Buys and sells are priced at the latest quote, or at `price` for a fill the
+// matching engine priced; `orderId` links a fill to the order it executed.
+export async function executeTrade(input: TradeInput): Promise<TradeResult> {
+  const scope: Required<PortfolioScope> = { userId: input.userId, portfolioId: input.portfolioId };
+  const symbol = "symbol" in input ? input.symbol : undefined;
+  const transaction = await serializeAccount(input.portfolioId, () => recordTrade(input, scope, symbol));
+  portfolioValuator.invalidate(input.userId);
+
+  const [positions, stocks, portfolio] = await Promise.all([
+    storage.getPositions(scope),
+    storage.getAllStocks(),
+    portfolioValuator.getSummary(scope),
+  ]);
+  const position = valuePositions(positions, stocks).find((holding) => holding.symbol === symbol) ?? null;
+
+  return { transaction, position, portfolio: portfolio ?? null };
+}
+
+// Checks a transaction against the account and stores it. Runs in the
+// account's queue, so the balances it checks cannot change before it is
+// stored.
+async function recordTrade(input: TradeInput, scope: Required<PortfolioScope>, symbol: string | undefined): Promise<Transaction> {
+  const stock = symbol ? await storage.getStock(symbol) : undefined;
+  if (symbol && !stock) {
+    throw new TradeRejectedError(`Unknown symbol ${symbol}`);
+  }
+
+  const amount = input.type === "buy" || input.type === "sell"
+    ? Decimal.from(input.price ?? stock!.price).times(input.shares).abs().round(MONEY_DP)
+    : Decimal.from(input.amount).abs();
+  if (cashFundedTypes.includes(input.type)) {
+    const portfolio = await storage.getPortfolio(input.portfolioId);
+    const cash = Decimal.from(portfolio?.cashBalance ?? 0);
+    if (amount.gt(cash)) {
+      throw new TradeRejectedError(`Insufficient cash: ${formatMoney(amount)} needed, ${formatMoney(cash)} available`);
+    }
+  }
+
+  let shares: string | null = null;
+  let lots: LotSelection[] | null = null;
+  if (input.type === "buy" || input.type === "sell") {
+    const quantity = Decimal.from(input.shares).abs();
+    if (quantity.isZero()) {
+      throw new TradeRejectedError("Shares are required for buy and sell transactions");
+    }
+
+    if (input.type === "sell") {
+      const positions = await storage.getPositions(scope);
+      const held = positions.find((position) => position.symbol === input.symbol)?.quantity ?? 0;
+      if (quantity.gt(held)) {
+        throw new TradeRejectedError(`Cannot sell ${formatShares(quantity)} ${input.symbol}: only ${formatShares(held)} held`);
+      }
+      lots = await chooseLots(scope, input.symbol, quantity, input.lots);
+    }
+    shares = toShares(input.type === "sell" ? quantity.neg() : quantity);
+  }
+
+  return storage.createTransaction({
+    userId: input.userId,
+    portfolioId: input.portfolioId,
+    type: input.type,
+    symbol: symbol ?? null,
+    amount: toMoney(ledgerAmount(input.type, amount)),
+    shares,
+    lots,
+    orderId: input.orderId ?? null,
+  });
+}
+
+// Fixes the lots a sell closes when it is recorded, so later changes to the
+// account's cost-basis method do not rewrite past gains. Requested lots must
+// be open lots of the symbol and cover the whole sell.
+async function chooseLots(
+  scope: Required<PortfolioScope>,
+  symbol: string,
+  shares: Decimal,
+  selections?: LotSelection[],
+): Promise<LotSelection[]> {
+  const [transactions, portfolio] = await Promise.all([
+    storage.getTransactions(scope),
+    storage.getPortfolio(scope.portfolioId),
+  ]);
+  const accounts = portfolio ? [portfolio] : [];
+  const open = replayLots(transactions, accounts).lots
+    .filter((lot) => lot.symbol === symbol && lot.remaining.isPositive());
+
+  if (selections) {
+    for (const selection of selections) {
+      const lot = open.find((candidate) => candidate.lotId === selection.lotId);
+      if (!lot) {
+        throw new TradeRejectedError(`Lot ${selection.lotId} is not an open ${symbol} lot`);
+      }
+      if (lot.remaining.lt(selection.shares)) {
+        throw new TradeRejectedError(`Lot ${selection.lotId} has only ${formatShares(lot.remaining)} shares left`);
+      }
+    }
+    const requested = Decimal.sum(selections.map((selection) => selection.shares));
+    if (!requested.eq(shares)) {
+      throw new TradeRejectedError(
+        `Selected lots hold ${formatShares(requested)} shares but the sell is for ${formatShares(shares)}`,
+      );
+    }
+  }
+
+  return selectLots(open, shares, accountMethod(accounts, scope.portfolioId), selections ?? []);
+}
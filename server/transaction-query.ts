@@ -0,0 +1,121 @@
+import type { Transaction, TransactionFilter, TransactionPage, TransactionSortField } from "@shared/schema";
+import { Decimal } from "@shared/decimal";
+
+// A cursor that is malformed or was issued for a different sort. Carries the
+// HTTP status the route should answer with.
+export class InvalidCursorError extends Error {
+  status = 400;
+}
+
+// Position after the last row of a page: its sort value and id, plus the sort
+// the page was read with so a cursor cannot be replayed against another one.
+export interface TransactionCursor {
+  sort: TransactionSortField;
+  order: "asc" | "desc";
+  value: string;
+  id: number;
+}
+
+export function sortValue(transaction: Transaction, sort: TransactionSortField): string {
+  switch (sort) {
+    case "timestamp":
+      return (transaction.timestamp ?? new Date(0)).toISOString();
+    case "amount":
+      return transaction.amount;
+    case "symbol":
+      return transaction.symbol ?? "";
+  }
+}
+
+export function encodeCursor(filter: TransactionFilter, transaction: Transaction): string {
+  const cursor: TransactionCursor = {
+    sort: filter.sort,
+    order: filter.order,
+    value: sortValue(transaction, filter.sort),
+    id: transaction.id,
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(filter: TransactionFilter, encoded: string): TransactionCursor {
+  let cursor: TransactionCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCursorError("Invalid cursor");
+  }
+
+  if (
+    !cursor ||
+    typeof cursor.value !== "string" ||
+    typeof cursor.id !== "number" ||
+    (cursor.sort === "timestamp" && Number.isNaN(new Date(cursor.value).getTime())) ||
+    (cursor.sort === "amount" && !Decimal.isValid(cursor.value))
+  ) {
+    throw new InvalidCursorError("Invalid cursor");
+  }
+  if (cursor.sort !== filter.sort || cursor.order !== filter.order) {
+    throw new InvalidCursorError("Cursor was issued for a different sort order");
+  }
+  return cursor;
+}
+
+function compareValues(a: string, b: string, sort: TransactionSortField): number {
+  switch (sort) {
+    case "timestamp":
+      return new Date(a).getTime() - new Date(b).getTime();
+    case "amount":
+      return Decimal.from(a).cmp(b);
+    case "symbol":
+      return a < b ? -1 : a > b ? 1 : 0;
+  }
+}
+
+// Orders by the sort field, then id, both in the requested direction
+function compareTransactions(a: Transaction, b: Transaction, filter: TransactionFilter): number {
+  const direction = filter.order === "asc" ? 1 : -1;
+  const bySort = compareValues(sortValue(a, filter.sort), sortValue(b, filter.sort), filter.sort);
+  return direction * (bySort || a.id - b.id);
+}
+
+function matchesFilter(transaction: Transaction, filter: TransactionFilter): boolean {
+  const time = transaction.timestamp?.getTime() ?? 0;
+  return (
+    (!filter.type || transaction.type === filter.type) &&
+    (!filter.symbol || transaction.symbol === filter.symbol) &&
+    (!filter.from || time >= filter.from.getTime()) &&
+    (!filter.to || time <= filter.to.getTime())
+  );
+}
+
+// Builds a page from rows already sorted and positioned after the cursor.
+// Callers fetch one row past the limit to learn whether another page exists.
+export function toPage(rows: Transaction[], filter: TransactionFilter): TransactionPage {
+  const transactions = rows.slice(0, filter.limit);
+  const last = transactions[transactions.length - 1];
+  return {
+    transactions,
+    nextCursor: rows.length > filter.limit && last ? encodeCursor(filter, last) : null,
+  };
+}
+
+// Filters, sorts and pages a list of transactions held in memory
+export function pageTransactions(
+  transactions: Transaction[],
+  filter: TransactionFilter,
+  cursor?: string,
+): TransactionPage {
+  const after = cursor ? decodeCursor(filter, cursor) : undefined;
+  const direction = filter.order === "asc" ? 1 : -1;
+
+  const rows = transactions
+    .filter((transaction) => matchesFilter(transaction, filter))
+    .filter((transaction) => {
+      if (!after) return true;
+      const bySort = compareValues(sortValue(transaction, filter.sort), after.value, filter.sort);
+      return direction * (bySort || transaction.id - after.id) > 0;
+    })
+    .sort((a, b) => compareTransactions(a, b, filter));
+
+  return toPage(rows.slice(0, filter.limit + 1), filter);
+}
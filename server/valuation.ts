@@ -0,0 +1,127 @@
+import type { Portfolio, PortfolioScope, PortfolioSummary, Position, Stock, Transaction } from "@shared/schema";
+import { Decimal, percentOf, toMoney } from "@shared/decimal";
+import { storage, type IStorage } from "./storage";
+import { replayClosedTrades, valuePositions } from "./positions";
+import { sharedMethod } from "./lots";
+import { sharedBenchmark } from "./benchmarks";
+
+// The account a summary describes, before its figures are derived
+type SummaryAccount = Pick<PortfolioSummary, keyof Portfolio | "accounts">;
+
+// Every account of a user combined; the cost-basis method and benchmark are
+// only set when all accounts share them
+function householdAccount(userId: number, accounts: Portfolio[]): SummaryAccount {
+  return {
+    id: null,
+    userId,
+    name: "All accounts",
+    accountType: null,
+    costBasisMethod: sharedMethod(accounts),
+    totalValue: "0.00",
+    dailyPnL: "0.00",
+    successRate: "0.00",
+    activePositions: 0,
+    cashBalance: toMoney(Decimal.sum(accounts.map((account) => account.cashBalance))),
+    benchmark: sharedBenchmark(accounts),
+    accounts: accounts.length,
+  };
+}
+
+// Derives the headline portfolio figures: total value (holdings at current
+// prices plus cash), the day's P&L from each stock's change, and the win rate
+// of closed round trips, each sell closing lots under its account's method.
+export function computePortfolioSummary(
+  portfolio: SummaryAccount,
+  positions: Position[],
+  stocks: Stock[],
+  transactions: Transaction[],
+  accounts: Portfolio[],
+): PortfolioSummary {
+  const holdings = valuePositions(positions, stocks);
+  const changes = new Map(stocks.map((stock) => [stock.symbol, stock.change]));
+
+  let marketValue = Decimal.ZERO;
+  let costBasis = Decimal.ZERO;
+  let dailyPnL = Decimal.ZERO;
+  for (const holding of holdings) {
+    marketValue = marketValue.plus(holding.marketValue);
+    costBasis = costBasis.plus(holding.costBasis);
+    dailyPnL = dailyPnL.plus(Decimal.from(changes.get(holding.symbol) ?? 0).times(holding.quantity));
+  }
+
+  const realizedPnL = Decimal.sum(positions.map((position) => position.realizedPnL));
+  const closedTrades = replayClosedTrades(transactions, accounts);
+  const winningTrades = closedTrades.filter((trade) => trade.realizedPnL.isPositive()).length;
+  const previousValue = marketValue.minus(dailyPnL);
+
+  return {
+    ...portfolio,
+    totalValue: toMoney(marketValue.plus(portfolio.cashBalance)),
+    dailyPnL: toMoney(dailyPnL),
+    successRate: percentOf(winningTrades, closedTrades.length),
+    activePositions: holdings.length,
+    marketValue: toMoney(marketValue),
+    costBasis: toMoney(costBasis),
+    unrealizedPnL: toMoney(marketValue.minus(costBasis)),
+    realizedPnL: toMoney(realizedPnL),
+    dailyPnLPercent: percentOf(dailyPnL, previousValue),
+    closedTrades: closedTrades.length,
+    winningTrades,
+    valuedAt: new Date().toISOString(),
+  };
+}
+
+interface CachedSummary {
+  summary: PortfolioSummary;
+  expiresAt: number;
+}
+
+// Loads everything a summary needs from storage. With a positive TTL the
+// result is cached per account and household view until it expires or
+// invalidate() is called for the user.
+export class PortfolioValuator {
+  private cache: Map<string, CachedSummary>;
+
+  constructor(private storage: IStorage, private cacheTtlMs = 0) {
+    this.cache = new Map();
+  }
+
+  async getSummary(scope: PortfolioScope): Promise<PortfolioSummary | undefined> {
+    const key = `${scope.userId}:${scope.portfolioId ?? "all"}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.summary;
+    }
+
+    const accounts = await this.storage.getPortfolios(scope.userId);
+    const portfolio = accounts.find((account) => account.id === scope.portfolioId);
+    if (accounts.length === 0 || (scope.portfolioId !== undefined && !portfolio)) {
+      return undefined;
+    }
+
+    const [positions, stocks, transactions] = await Promise.all([
+      this.storage.getPositions(scope),
+      this.storage.getAllStocks(),
+      this.storage.getTransactions(scope),
+    ]);
+    const account = portfolio ? { ...portfolio, accounts: 1 } : householdAccount(scope.userId, accounts);
+    const summary = computePortfolioSummary(account, positions, stocks, transactions, accounts);
+
+    if (this.cacheTtlMs > 0) {
+      this.cache.set(key, { summary, expiresAt: Date.now() + this.cacheTtlMs });
+    }
+    return summary;
+  }
+
+  // Drops the user's cached account and household summaries
+  invalidate(userId: number) {
+    Array.from(this.cache.keys())
+      .filter((key) => key.startsWith(`${userId}:`))
+      .forEach((key) => this.cache.delete(key));
+  }
+}
+
+export const portfolioValuator = new PortfolioValuator(
+  storage,
+  parseInt(process.env.PORTFOLIO_CACHE_TTL_MS || "0"),
+);
@@ -0,0 +1,146 @@
+import type { Express, Request, Response } from "express";
+import { fromZodError } from "zod-validation-error";
+import type { ZodType } from "zod";
+import {
+  watchlistItemOrderSchema,
+  watchlistNameSchema,
+  watchlistOrderSchema,
+  watchlistSymbolSchema,
+  type WatchlistWithItems,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { requireUserAccess } from "./auth";
+
+function parseBody<T>(schema: ZodType<T>, req: Request, res: Response): T | undefined {
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ message: fromZodError(parsed.error).message });
+    return undefined;
+  }
+  return parsed.data;
+}
+
+// Loads the :id watchlist if the session user owns it. Lists owned by other
+// users answer 404 so their ids are not revealed, as do ids that are not
+// numbers.
+async function ownedWatchlist(req: Request, res: Response): Promise<WatchlistWithItems | undefined> {
+  const id = parseInt(req.params.id);
+  const watchlist = Number.isNaN(id) ? undefined : await storage.getWatchlist(id);
+  if (!watchlist || watchlist.userId !== req.user!.id) {
+    res.status(404).json({ message: "Watchlist not found" });
+    return undefined;
+  }
+  return watchlist;
+}
+
+export function registerWatchlistRoutes(app: Express) {
+  // Get the signed-in user's watchlists with their symbols
+  app.get("/api/me/watchlists", requireUserAccess, async (req, res) => {
+    try {
+      res.json(await storage.getWatchlists(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch watchlists" });
+    }
+  });
+
+  app.post("/api/me/watchlists", requireUserAccess, async (req, res) => {
+    const body = parseBody(watchlistNameSchema, req, res);
+    if (!body) return;
+
+    try {
+      const watchlist = await storage.createWatchlist({ userId: req.user!.id, name: body.name });
+      res.status(201).json({ ...watchlist, items: [] });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create watchlist" });
+    }
+  });
+
+  // Reorder the user's watchlists; registered before /:id so "order" is not an id
+  app.put("/api/me/watchlists/order", requireUserAccess, async (req, res) => {
+    const body = parseBody(watchlistOrderSchema, req, res);
+    if (!body) return;
+
+    try {
+      await storage.reorderWatchlists(req.user!.id, body.ids);
+      res.json(await storage.getWatchlists(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reorder watchlists" });
+    }
+  });
+
+  app.patch("/api/me/watchlists/:id", requireUserAccess, async (req, res) => {
+    const body = parseBody(watchlistNameSchema, req, res);
+    if (!body) return;
+
+    try {
+      const watchlist = await ownedWatchlist(req, res);
+      if (!watchlist) return;
+
+      await storage.renameWatchlist(watchlist.id, body.name);
+      res.json(await storage.getWatchlist(watchlist.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to rename watchlist" });
+    }
+  });
+
+  app.delete("/api/me/watchlists/:id", requireUserAccess, async (req, res) => {
+    try {
+      const watchlist = await ownedWatchlist(req, res);
+      if (!watchlist) return;
+
+      await storage.deleteWatchlist(watchlist.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete watchlist" });
+    }
+  });
+
+  app.post("/api/me/watchlists/:id/items", requireUserAccess, async (req, res) => {
+    const body = parseBody(watchlistSymbolSchema, req, res);
+    if (!body) return;
+
+    try {
+      const watchlist = await ownedWatchlist(req, res);
+      if (!watchlist) return;
+
+      // Any catalogued security can be watched, quoted or not
+      if (!(await storage.getSecurity(body.symbol)) && !(await storage.getStock(body.symbol))) {
+        return res.status(400).json({ message: `Unknown symbol ${body.symbol}` });
+      }
+
+      await storage.addWatchlistItem(watchlist.id, body.symbol);
+      res.status(201).json(await storage.getWatchlist(watchlist.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to add symbol" });
+    }
+  });
+
+  app.put("/api/me/watchlists/:id/items/order", requireUserAccess, async (req, res) => {
+    const body = parseBody(watchlistItemOrderSchema, req, res);
+    if (!body) return;
+
+    try {
+      const watchlist = await ownedWatchlist(req, res);
+      if (!watchlist) return;
+
+      await storage.reorderWatchlistItems(watchlist.id, body.symbols);
+      res.json(await storage.getWatchlist(watchlist.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reorder symbols" });
+    }
+  });
+
+  app.delete("/api/me/watchlists/:id/items/:symbol", requireUserAccess, async (req, res) => {
+    try {
+      const watchlist = await ownedWatchlist(req, res);
+      if (!watchlist) return;
+
+      if (!(await storage.removeWatchlistItem(watchlist.id, req.params.symbol.toUpperCase()))) {
+        return res.status(404).json({ message: "Symbol not in watchlist" });
+      }
+      res.json(await storage.getWatchlist(watchlist.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove symbol" });
+    }
+  });
+}
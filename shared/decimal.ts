@@ -0,0 +1,216 @@
+// Exact decimal arithmetic for money and share quantities. Values are held as
+// integers scaled by 10^SCALE, so sums and products of prices (2 dp) and
+// shares (6 dp) never pick up binary floating-point error. Division and
+// rounding round half away from zero, like Postgres numeric.
+
+const SCALE = 12;
+const ZERO_UNITS = BigInt(0);
+const ONE_UNITS = BigInt(`1${"0".repeat(SCALE)}`);
+const PATTERN = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+// Decimal places of serialized columns: money, per-share costs and quantities
+export const MONEY_DP = 2;
+export const COST_DP = 4;
+export const SHARES_DP = 6;
+
+export type DecimalValue = Decimal | string | number;
+
+function pow10(exponent: number): bigint {
+  return BigInt(`1${"0".repeat(exponent)}`);
+}
+
+// Integer division rounding half away from zero
+function divRound(numerator: bigint, denominator: bigint): bigint {
+  const negative = (numerator < ZERO_UNITS) !== (denominator < ZERO_UNITS);
+  const n = numerator < ZERO_UNITS ? -numerator : numerator;
+  const d = denominator < ZERO_UNITS ? -denominator : denominator;
+  const quotient = (n + d / BigInt(2)) / d;
+  return negative ? -quotient : quotient;
+}
+
+export class Decimal {
+  static readonly ZERO = new Decimal(ZERO_UNITS);
+
+  private constructor(private readonly units: bigint) {}
+
+  // Parses "12.5", "-0.000001", numbers and Decimals. Throws on anything else.
+  static from(value: DecimalValue): Decimal {
+    if (value instanceof Decimal) {
+      return value;
+    }
+    if (typeof value === "number") {
+      if (!Number.isFinite(value)) {
+        throw new RangeError(`Not a finite number: ${value}`);
+      }
+      return Decimal.parse(value.toFixed(SCALE));
+    }
+    return Decimal.parse(value.trim());
+  }
+
+  static isValid(value: string): boolean {
+    const match = PATTERN.exec(value.trim());
+    return match !== null && `${match[2]}${match[3] ?? ""}`.length > 0;
+  }
+
+  static sum(values: DecimalValue[]): Decimal {
+    return values.reduce<Decimal>((total, value) => total.plus(value), Decimal.ZERO);
+  }
+
+  static min(a: DecimalValue, b: DecimalValue): Decimal {
+    return Decimal.from(a).lte(b) ? Decimal.from(a) : Decimal.from(b);
+  }
+
+  static max(a: DecimalValue, b: DecimalValue): Decimal {
+    return Decimal.from(a).gte(b) ? Decimal.from(a) : Decimal.from(b);
+  }
+
+  private static parse(text: string): Decimal {
+    const match = PATTERN.exec(text);
+    if (!match || `${match[2]}${match[3] ?? ""}`.length === 0) {
+      throw new RangeError(`Not a decimal: "${text}"`);
+    }
+    const [, sign, whole, fraction = ""] = match;
+    const kept = fraction.slice(0, SCALE).padEnd(SCALE, "0");
+    let units = BigInt(`${whole || "0"}${kept}`);
+    // Digits beyond the scale round half away from zero
+    if (fraction.length > SCALE && fraction.charCodeAt(SCALE) >= "5".charCodeAt(0)) {
+      units += BigInt(1);
+    }
+    return new Decimal(sign === "-" ? -units : units);
+  }
+
+  plus(other: DecimalValue): Decimal {
+    return new Decimal(this.units + Decimal.from(other).units);
+  }
+
+  minus(other: DecimalValue): Decimal {
+    return new Decimal(this.units - Decimal.from(other).units);
+  }
+
+  times(other: DecimalValue): Decimal {
+    return new Decimal(divRound(this.units * Decimal.from(other).units, ONE_UNITS));
+  }
+
+  div(other: DecimalValue): Decimal {
+    const divisor = Decimal.from(other).units;
+    if (divisor === ZERO_UNITS) {
+      throw new RangeError("Division by zero");
+    }
+    return new Decimal(divRound(this.units * ONE_UNITS, divisor));
+  }
+
+  neg(): Decimal {
+    return new Decimal(-this.units);
+  }
+
+  abs(): Decimal {
+    return this.units < ZERO_UNITS ? this.neg() : this;
+  }
+
+  cmp(other: DecimalValue): -1 | 0 | 1 {
+    const units = Decimal.from(other).units;
+    return this.units < units ? -1 : this.units > units ? 1 : 0;
+  }
+
+  eq(other: DecimalValue): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  gt(other: DecimalValue): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  gte(other: DecimalValue): boolean {
+    return this.cmp(other) >= 0;
+  }
+
+  lt(other: DecimalValue): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  lte(other: DecimalValue): boolean {
+    return this.cmp(other) <= 0;
+  }
+
+  isZero(): boolean {
+    return this.units === ZERO_UNITS;
+  }
+
+  isNegative(): boolean {
+    return this.units < ZERO_UNITS;
+  }
+
+  isPositive(): boolean {
+    return this.units > ZERO_UNITS;
+  }
+
+  // Number of decimal places needed to write the value exactly
+  decimalPlaces(): number {
+    const fraction = this.toFixed(SCALE).split(".")[1].replace(/0+$/, "");
+    return fraction.length;
+  }
+
+  round(dp: number): Decimal {
+    const step = pow10(SCALE - dp);
+    return new Decimal(divRound(this.units, step) * step);
+  }
+
+  toFixed(dp: number): string {
+    const rounded = divRound(this.units, pow10(SCALE - dp));
+    const negative = rounded < ZERO_UNITS;
+    const digits = (negative ? -rounded : rounded).toString().padStart(dp + 1, "0");
+    const whole = digits.slice(0, digits.length - dp);
+    const fraction = dp > 0 ? `.${digits.slice(digits.length - dp)}` : "";
+    return `${negative ? "-" : ""}${whole}${fraction}`;
+  }
+
+  // Shortest exact form, e.g. "12.5" or "3"
+  toString(): string {
+    return this.toFixed(SCALE).replace(/\.?0+$/, "");
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  // For charts and other approximate display only
+  toNumber(): number {
+    return Number(this.toString());
+  }
+}
+
+// Serialized forms of money and share columns
+export function toMoney(value: DecimalValue): string {
+  return Decimal.from(value).toFixed(MONEY_DP);
+}
+
+export function toShares(value: DecimalValue): string {
+  return Decimal.from(value).toFixed(SHARES_DP);
+}
+
+// Percentage of `value` in `total`, or "0.00" when the total is not positive
+export function percentOf(value: DecimalValue, total: DecimalValue): string {
+  const base = Decimal.from(total);
+  return base.isPositive() ? Decimal.from(value).times(100).div(base).toFixed(2) : "0.00";
+}
+
+function groupThousands(whole: string): string {
+  return whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+}
+
+// "$1,234.50", with "+" for gains when `signed`. Formats the exact decimal
+// rather than a float, so large balances print without drift.
+export function formatMoney(value: DecimalValue, options: { signed?: boolean; decimals?: number } = {}): string {
+  const amount = Decimal.from(value);
+  const [whole, fraction] = amount.abs().toFixed(options.decimals ?? MONEY_DP).split(".");
+  const sign = amount.isNegative() && !amount.round(options.decimals ?? MONEY_DP).isZero()
+    ? "-"
+    : options.signed ? "+" : "";
+  return `${sign}$${groupThousands(whole)}${fraction ? `.${fraction}` : ""}`;
+}
+
+// Share quantities without trailing zeros, e.g. "1,200" or "0.5"
+export function formatShares(value: DecimalValue): string {
+  const [whole, fraction] = Decimal.from(value).round(SHARES_DP).toString().split(".");
+  return `${groupThousands(whole)}${fraction ? `.${fraction}` : ""}`;
+}
@@ -1,20 +1,46 @@
-import { pgTable, text, serial, integer, boolean, decimal, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, decimal, timestamp, unique, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { Decimal, SHARES_DP, toShares } from "./decimal";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  isAdmin: boolean("is_admin").notNull().default(false),
 });
 
+export const costBasisMethods = ["fifo", "lifo", "hifo", "specific"] as const;
+
+export const accountTypes = ["brokerage", "ira", "401k", "paper"] as const;
+
+export const accountTypeLabels: Record<AccountType, string> = {
+  brokerage: "Brokerage",
+  ira: "IRA",
+  "401k": "401(k)",
+  paper: "Paper",
+};
+
+// One symbol's weight, in percent, in the benchmark an account is measured
+// against
+export type BenchmarkComponent = { symbol: string; weight: number };
+
+// Accounts without a benchmark of their own are compared with the S&P 500
+export const DEFAULT_BENCHMARK: BenchmarkComponent[] = [{ symbol: "SPY", weight: 100 }];
+
+// An account a user owns; a user may hold several of any type.
 export const portfolios = pgTable("portfolios", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
-  totalValue: decimal("total_value", { precision: 15, scale: 2 }).notNull(),
-  dailyPnL: decimal("daily_pnl", { precision: 15, scale: 2 }).notNull(),
-  successRate: decimal("success_rate", { precision: 5, scale: 2 }).notNull(),
-  activePositions: integer("active_positions").notNull(),
+  name: text("name").notNull().default("Brokerage"),
+  accountType: text("account_type").notNull().default("brokerage"), // one of accountTypes
+  totalValue: decimal("total_value", { precision: 15, scale: 2 }).notNull().default("0.00"),
+  dailyPnL: decimal("daily_pnl", { precision: 15, scale: 2 }).notNull().default("0.00"),
+  successRate: decimal("success_rate", { precision: 5, scale: 2 }).notNull().default("0.00"),
+  activePositions: integer("active_positions").notNull().default(0),
+  costBasisMethod: text("cost_basis_method").notNull().default("fifo"), // one of costBasisMethods
+  cashBalance: decimal("cash_balance", { precision: 15, scale: 2 }).notNull().default("0.00"), // running total of the ledger's cash effects
+  benchmark: jsonb("benchmark").$type<BenchmarkComponent[]>(), // null for DEFAULT_BENCHMARK
 });
 
 export const stocks = pgTable("stocks", {
@@ -28,38 +54,878 @@ export const stocks = pgTable("stocks", {
   marketCap: text("market_cap").notNull(),
 });
 
+// Cash movements that do not trade a holding. Fees and commissions may still
+// name the symbol they were charged on.
+export const cashTransactionTypes = [
+  "deposit",
+  "withdrawal",
+  "fee",
+  "interest",
+  "transfer_in",
+  "transfer_out",
+  "commission",
+] as const;
+
+export const transactionTypes = ["buy", "sell", "dividend", ...cashTransactionTypes] as const;
+
+export const transactionTypeLabels: Record<TransactionType, string> = {
+  buy: "Buy",
+  sell: "Sell",
+  dividend: "Dividend",
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  fee: "Fee",
+  interest: "Interest",
+  transfer_in: "Transfer In",
+  transfer_out: "Transfer Out",
+  commission: "Commission",
+};
+
+// Shares a sell took from one tax lot; a lot is identified by its buy's id
+export type LotSelection = { lotId: number; shares: string };
+
 export const transactions = pgTable("transactions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
-  type: text("type").notNull(), // 'buy', 'sell', 'dividend'
-  symbol: text("symbol").notNull(),
+  portfolioId: integer("portfolio_id").notNull(),
+  type: text("type").notNull(), // one of transactionTypes
+  symbol: text("symbol"), // null for cash movements
   amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
-  shares: integer("shares"),
+  shares: decimal("shares", { precision: 18, scale: 6 }), // fractional shares allowed
   timestamp: timestamp("timestamp").defaultNow(),
+  lots: jsonb("lots").$type<LotSelection[]>(), // lots a sell closed, fixed when it is recorded
+  orderId: integer("order_id"), // the order this fill executed, null for trades entered directly
+});
+
+export const orderSides = ["buy", "sell"] as const;
+export const orderTypes = ["market", "limit", "stop", "stop_limit", "trailing_stop"] as const;
+export const timesInForce = ["DAY", "GTC", "IOC"] as const;
+// Bracket and OCO orders rest until a leg fills, so they cannot be IOC
+export const linkedTimesInForce = ["DAY", "GTC"] as const;
+
+// IOC orders must be marketable on arrival, so they cannot wait for a stop
+export function allowsTimeInForce(type: OrderType, timeInForce: TimeInForce): boolean {
+  return timeInForce !== "IOC" || type === "market" || type === "limit";
+}
+
+// new -> working -> partially_filled -> filled, or cancelled / expired while
+// still open. Bracket exits start held and become new once their entry
+// closes. Filled, cancelled and expired orders are closed.
+export const orderStatuses = ["held", "new", "working", "partially_filled", "filled", "cancelled", "expired"] as const;
+export const openOrderStatuses: OrderStatus[] = ["held", "new", "working", "partially_filled"];
+
+export const orderTypeLabels: Record<OrderType, string> = {
+  market: "Market",
+  limit: "Limit",
+  stop: "Stop",
+  stop_limit: "Stop Limit",
+  trailing_stop: "Trailing Stop",
+};
+
+export const timeInForceLabels: Record<TimeInForce, string> = {
+  DAY: "Day",
+  GTC: "Good 'til cancelled",
+  IOC: "Immediate or cancel",
+};
+
+// A paper-trading order worked by the matching engine against the market
+// data feed. Each fill is recorded as a buy or sell transaction.
+export const orders = pgTable("orders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  portfolioId: integer("portfolio_id").notNull(),
+  symbol: text("symbol").notNull(),
+  side: text("side").notNull(), // one of orderSides
+  type: text("type").notNull(), // one of orderTypes
+  quantity: decimal("quantity", { precision: 18, scale: 6 }).notNull(),
+  limitPrice: decimal("limit_price", { precision: 10, scale: 2 }),
+  stopPrice: decimal("stop_price", { precision: 10, scale: 2 }), // trailing stops move theirs with the price
+  trailAmount: decimal("trail_amount", { precision: 10, scale: 2 }),
+  trailPercent: decimal("trail_percent", { precision: 5, scale: 2 }),
+  timeInForce: text("time_in_force").notNull().default("DAY"), // one of timesInForce
+  status: text("status").notNull().default("new"), // one of orderStatuses
+  triggered: boolean("triggered").notNull().default(false), // a stop order's stop price was reached
+  filledQuantity: decimal("filled_quantity", { precision: 18, scale: 6 }).notNull().default("0"),
+  averageFillPrice: decimal("average_fill_price", { precision: 15, scale: 4 }),
+  statusReason: text("status_reason"), // why the order was cancelled or expired
+  replacesOrderId: integer("replaces_order_id"), // the order this one replaced
+  parentOrderId: integer("parent_order_id"), // the entry of a bracket, on its exits
+  ocoOrderId: integer("oco_order_id"), // the other leg of a one-cancels-other pair
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const watchlists = pgTable("watchlists", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const watchlistItems = pgTable("watchlist_items", {
+  id: serial("id").primaryKey(),
+  watchlistId: integer("watchlist_id").notNull(),
+  symbol: text("symbol").notNull(),
+  position: integer("position").notNull().default(0),
+}, (table) => [
+  unique("watchlist_items_watchlist_symbol_unique").on(table.watchlistId, table.symbol),
+]);
+
+export const barIntervals = ["1m", "1d", "1w"] as const;
+
+// OHLCV history per symbol. Live ticks land in 1m bars and backfilled history
+// in 1d bars; coarser intervals are rolled up on read.
+export const priceBars = pgTable("price_bars", {
+  id: serial("id").primaryKey(),
+  symbol: text("symbol").notNull(),
+  interval: text("interval").notNull(), // one of barIntervals
+  open: decimal("open", { precision: 10, scale: 2 }).notNull(),
+  high: decimal("high", { precision: 10, scale: 2 }).notNull(),
+  low: decimal("low", { precision: 10, scale: 2 }).notNull(),
+  close: decimal("close", { precision: 10, scale: 2 }).notNull(),
+  volume: integer("volume").notNull(),
+  timestamp: timestamp("timestamp").notNull(), // start of the bar
+}, (table) => [
+  unique("price_bars_symbol_interval_timestamp_unique").on(table.symbol, table.interval, table.timestamp),
+]);
+
+// Holdings derived by replaying an account's transactions; rebuilt on every write.
+export const positions = pgTable("positions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  portfolioId: integer("portfolio_id").notNull(),
+  symbol: text("symbol").notNull(),
+  quantity: decimal("quantity", { precision: 18, scale: 6 }).notNull(),
+  averageCost: decimal("average_cost", { precision: 15, scale: 4 }).notNull(),
+  costBasis: decimal("cost_basis", { precision: 15, scale: 2 }).notNull(),
+  realizedPnL: decimal("realized_pnl", { precision: 15, scale: 2 }).notNull(),
+}, (table) => [
+  unique("positions_portfolio_symbol_unique").on(table.portfolioId, table.symbol),
+]);
+
+export const assetTypes = ["equity", "etf", "fund", "bond"] as const;
+
+// Security master: reference data for every tradable symbol, loaded from CSV.
+// Quotes live in stocks; a security need not have one.
+export const securities = pgTable("securities", {
+  id: serial("id").primaryKey(),
+  symbol: text("symbol").notNull().unique(),
+  name: text("name").notNull(),
+  exchange: text("exchange").notNull(),
+  sector: text("sector"),
+  industry: text("industry"),
+  currency: text("currency").notNull().default("USD"),
+  assetType: text("asset_type").notNull().default("equity"), // one of assetTypes
+});
+
+export const allocationGroupings = ["sector", "assetType", "security"] as const;
+
+// One group's share of an account in its target model, in percent. Symbol
+// names what to buy when the account holds nothing in the group.
+export type TargetWeight = { key: string; weight: number; symbol?: string };
+
+// The allocation an account is rebalanced towards: weights per sector, asset
+// type or security plus the share kept in cash, adding up to 100. A group is
+// only traded once it drifts more than driftBand percentage points.
+export const targetModels = pgTable("target_models", {
+  id: serial("id").primaryKey(),
+  portfolioId: integer("portfolio_id").notNull().unique(),
+  groupBy: text("group_by").notNull().default("sector"), // one of allocationGroupings
+  targets: jsonb("targets").$type<TargetWeight[]>().notNull(),
+  cashWeight: decimal("cash_weight", { precision: 5, scale: 2 }).notNull().default("0.00"),
+  driftBand: decimal("drift_band", { precision: 5, scale: 2 }).notNull().default("5.00"),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const insertUserSchema = createInsertSchema(users).omit({
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().min(3, "Username must be at least 3 characters").max(32),
+  password: (schema) => schema.min(8, "Password must be at least 8 characters"),
+}).omit({
   id: true,
+  isAdmin: true,
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
 });
 
-export const insertPortfolioSchema = createInsertSchema(portfolios).omit({
+const accountNameSchema = z.string().trim().min(1, "Name is required").max(40);
+
+// A single symbol at 100, or a blend of up to five whose weights add up to 100
+export const benchmarkSchema = z
+  .array(z.object({
+    symbol: z.string().trim().toUpperCase().min(1),
+    weight: z.number().positive().max(100),
+  }))
+  .min(1)
+  .max(5)
+  .refine(
+    (components) => new Set(components.map((component) => component.symbol)).size === components.length,
+    "Each symbol may appear once",
+  )
+  .refine(
+    (components) => Math.abs(components.reduce((total, component) => total + component.weight, 0) - 100) < 1e-6,
+    "Weights must add up to 100",
+  );
+
+export const insertPortfolioSchema = createInsertSchema(portfolios, {
+  name: accountNameSchema.optional(),
+  accountType: z.enum(accountTypes).optional(),
+  costBasisMethod: z.enum(costBasisMethods).optional(),
+  benchmark: benchmarkSchema.nullish(),
+}).omit({
   id: true,
 });
 
+// Body of POST /api/me/portfolios; the owner comes from the session
+export const newAccountSchema = z.object({
+  name: accountNameSchema,
+  accountType: z.enum(accountTypes),
+  costBasisMethod: z.enum(costBasisMethods).default("fifo"),
+});
+
+// Body of PATCH /api/me/portfolios/:portfolioId; a null benchmark restores
+// DEFAULT_BENCHMARK
+export const portfolioSettingsSchema = z.object({
+  name: accountNameSchema.optional(),
+  costBasisMethod: z.enum(costBasisMethods).optional(),
+  benchmark: benchmarkSchema.nullable().optional(),
+}).refine((settings) => Object.values(settings).some((value) => value !== undefined), "Nothing to update");
+
+// ?portfolioId= on the portfolio read routes; without it they cover every
+// account of the user
+export const portfolioScopeQuerySchema = z.object({
+  portfolioId: z.coerce.number().int().positive().optional(),
+});
+
 export const insertStockSchema = createInsertSchema(stocks).omit({
   id: true,
 });
 
-export const insertTransactionSchema = createInsertSchema(transactions).omit({
+// A share quantity with at most SHARES_DP decimal places. Numbers are still
+// accepted from API clients; either way it is stored as the column's string.
+export const shareQuantitySchema = z
+  .union([z.string().trim(), z.number().finite()])
+  .transform(String)
+  .refine(Decimal.isValid, "Shares must be a decimal number")
+  .refine(
+    (value) => !Decimal.isValid(value) || Decimal.from(value).decimalPlaces() <= SHARES_DP,
+    `Shares must have at most ${SHARES_DP} decimal places`,
+  )
+  .transform(toShares);
+
+const symbolSchema = z.string().trim().toUpperCase().min(1, "Symbol is required");
+
+const amountSchema = z.string().regex(/^-?\d+(\.\d{1,2})?$/, "Amount must be a decimal with at most 2 places");
+
+const lotSelectionsSchema = z.array(z.object({
+  lotId: z.number().int(),
+  shares: shareQuantitySchema.refine((value) => Decimal.from(value).isPositive(), "Lot shares must be above zero"),
+})).min(1);
+
+export const insertTransactionSchema = createInsertSchema(transactions, {
+  type: z.enum(transactionTypes),
+  symbol: symbolSchema.nullish(),
+  amount: amountSchema,
+  shares: shareQuantitySchema.nullish(),
+  lots: lotSelectionsSchema.nullish(),
+  orderId: z.number().int().nullish(),
+}).omit({
   id: true,
   timestamp: true,
 });
 
+// Amounts in a request are magnitudes; the ledger applies each type's sign.
+const requestAmountSchema = amountSchema.refine((value) => !Decimal.from(value).isZero(), "Amount must not be zero");
+
+// Body of POST /api/transactions, one shape per transaction type; the owner
+// comes from the session and the account defaults to the user's first. Buys
+// and sells are priced by the server at the latest quote, so they carry no
+// amount.
+export const tradeRequestSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("buy"), symbol: symbolSchema, shares: shareQuantitySchema }),
+  z.object({
+    type: z.literal("sell"),
+    symbol: symbolSchema,
+    shares: shareQuantitySchema,
+    lots: lotSelectionsSchema.optional(),
+  }),
+  z.object({ type: z.literal("dividend"), symbol: symbolSchema, amount: requestAmountSchema }),
+  z.object({ type: z.enum(["fee", "commission"]), symbol: symbolSchema.optional(), amount: requestAmountSchema }),
+  z.object({
+    type: z.enum(["deposit", "withdrawal", "interest", "transfer_in", "transfer_out"]),
+    amount: requestAmountSchema,
+  }),
+]).and(z.object({ portfolioId: z.number().int().positive().optional() }));
+
+const priceSchema = z
+  .union([z.string().trim(), z.number().finite()])
+  .transform(String)
+  .refine((value) => /^\d+(\.\d{1,2})?$/.test(value) && Decimal.from(value).isPositive(), "Prices must be above zero with at most 2 decimal places");
+
+const trailPercentSchema = z
+  .union([z.string().trim(), z.number().finite()])
+  .transform(String)
+  .refine(
+    (value) => /^\d+(\.\d{1,2})?$/.test(value) && Decimal.from(value).isPositive() && Decimal.from(value).lt(100),
+    "Trail percents must be between 0 and 100 with at most 2 decimal places",
+  );
+
+const orderQuantitySchema = shareQuantitySchema.refine((value) => Decimal.from(value).isPositive(), "Quantity must be above zero");
+
+export const insertOrderSchema = createInsertSchema(orders, {
+  side: z.enum(orderSides),
+  type: z.enum(orderTypes),
+  timeInForce: z.enum(timesInForce).optional(),
+  status: z.enum(orderStatuses).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Body of POST /api/me/orders. Limit and stop-limit orders need a limit
+// price, stop and stop-limit orders a stop price, and trailing stops a trail
+// by amount or percent from which they set their own stop; IOC orders must be
+// marketable on arrival, so they cannot wait for a stop.
+export const orderRequestSchema = z.object({
+  portfolioId: z.number().int().positive().optional(),
+  symbol: symbolSchema,
+  side: z.enum(orderSides),
+  type: z.enum(orderTypes),
+  quantity: orderQuantitySchema,
+  limitPrice: priceSchema.optional(),
+  stopPrice: priceSchema.optional(),
+  trailAmount: priceSchema.optional(),
+  trailPercent: trailPercentSchema.optional(),
+  timeInForce: z.enum(timesInForce).default("DAY"),
+})
+  .refine((order) => !["limit", "stop_limit"].includes(order.type) || order.limitPrice !== undefined, {
+    message: "A limit price is required",
+    path: ["limitPrice"],
+  })
+  .refine((order) => !["stop", "stop_limit"].includes(order.type) || order.stopPrice !== undefined, {
+    message: "A stop price is required",
+    path: ["stopPrice"],
+  })
+  .refine((order) => order.type !== "trailing_stop" || order.stopPrice === undefined, {
+    message: "Trailing stops set their own stop price",
+    path: ["stopPrice"],
+  })
+  .refine((order) => (order.type === "trailing_stop") === (order.trailAmount !== undefined || order.trailPercent !== undefined), {
+    message: "Trailing stops, and only they, need a trailAmount or trailPercent",
+    path: ["trailAmount"],
+  })
+  .refine((order) => order.trailAmount === undefined || order.trailPercent === undefined, {
+    message: "Trail by an amount or a percent, not both",
+    path: ["trailPercent"],
+  })
+  .refine((order) => allowsTimeInForce(order.type, order.timeInForce), {
+    message: "IOC is only available for market and limit orders",
+    path: ["timeInForce"],
+  });
+
+const takeProfitSchema = z.object({ limitPrice: priceSchema });
+
+// The protective leg of a bracket or OCO order: a stop, a stop-limit when it
+// has a limit price too, or a trailing stop
+const stopLossSchema = z.object({
+  stopPrice: priceSchema.optional(),
+  limitPrice: priceSchema.optional(),
+  trailAmount: priceSchema.optional(),
+  trailPercent: trailPercentSchema.optional(),
+})
+  .refine(
+    (leg) => [leg.stopPrice, leg.trailAmount, leg.trailPercent].filter((value) => value !== undefined).length === 1,
+    "A stop loss needs exactly one of stopPrice, trailAmount or trailPercent",
+  )
+  .refine((leg) => leg.limitPrice === undefined || leg.stopPrice !== undefined, {
+    message: "Only a fixed stop loss can have a limit price",
+    path: ["limitPrice"],
+  });
+
+// Exits that sell take profit above a fixed stop loss, exits that buy back
+// below it
+function exitsInOrder(exitSide: OrderSide, legs: { takeProfit: { limitPrice: string }; stopLoss: { stopPrice?: string } }) {
+  if (legs.stopLoss.stopPrice === undefined) return true;
+  const takeProfit = Decimal.from(legs.takeProfit.limitPrice);
+  return exitSide === "sell" ? takeProfit.gt(legs.stopLoss.stopPrice) : takeProfit.lt(legs.stopLoss.stopPrice);
+}
+
+// Body of POST /api/me/orders/bracket: a market or limit entry whose
+// take-profit and stop-loss exits are held until it fills, then work as a
+// one-cancels-other pair for the shares it filled
+export const bracketOrderSchema = z.object({
+  portfolioId: z.number().int().positive().optional(),
+  symbol: symbolSchema,
+  side: z.enum(orderSides),
+  type: z.enum(["market", "limit"]),
+  quantity: orderQuantitySchema,
+  limitPrice: priceSchema.optional(),
+  timeInForce: z.enum(linkedTimesInForce).default("DAY"),
+  takeProfit: takeProfitSchema,
+  stopLoss: stopLossSchema,
+})
+  .refine((order) => order.type !== "limit" || order.limitPrice !== undefined, {
+    message: "A limit price is required",
+    path: ["limitPrice"],
+  })
+  .refine((order) => exitsInOrder(order.side === "buy" ? "sell" : "buy", order), {
+    message: "The take-profit must be on the profitable side of the stop loss",
+    path: ["takeProfit", "limitPrice"],
+  });
+
+// Body of POST /api/me/orders/oco: a take-profit limit and a stop loss for the
+// same shares; whichever fills first cancels the other
+export const ocoOrderSchema = z.object({
+  portfolioId: z.number().int().positive().optional(),
+  symbol: symbolSchema,
+  side: z.enum(orderSides),
+  quantity: orderQuantitySchema,
+  timeInForce: z.enum(linkedTimesInForce).default("DAY"),
+  takeProfit: takeProfitSchema,
+  stopLoss: stopLossSchema,
+}).refine((order) => exitsInOrder(order.side, order), {
+  message: "The take-profit must be on the profitable side of the stop loss",
+  path: ["takeProfit", "limitPrice"],
+});
+
+// Body of PATCH /api/me/orders/:id: the replacement's terms. Quantity is what
+// is left to fill; prices and time in force default to the original's.
+export const orderReplaceSchema = z.object({
+  quantity: orderQuantitySchema.optional(),
+  limitPrice: priceSchema.optional(),
+  stopPrice: priceSchema.optional(),
+  trailAmount: priceSchema.optional(),
+  trailPercent: trailPercentSchema.optional(),
+  timeInForce: z.enum(timesInForce).optional(),
+}).refine((terms) => Object.values(terms).some((value) => value !== undefined), "Nothing to replace");
+
+export const orderQuerySchema = z.object({
+  status: z.enum(["open", "closed", "all"]).default("all"),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const transactionSortFields = ["timestamp", "amount", "symbol"] as const;
+
+// Query string of the transaction history routes. Without one the full
+// history is returned; with one, a page of matches and the next page's cursor.
+export const transactionQuerySchema = z.object({
+  type: z.enum(transactionTypes).optional(),
+  symbol: z.string().trim().toUpperCase().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sort: z.enum(transactionSortFields).default("timestamp"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  cursor: z.string().min(1).optional(),
+});
+
+export const insertWatchlistSchema = createInsertSchema(watchlists, {
+  name: (schema) => schema.trim().min(1, "Name is required").max(40),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Bodies of the /api/me/watchlists write routes
+export const watchlistNameSchema = insertWatchlistSchema.pick({ name: true });
+export const watchlistOrderSchema = z.object({
+  ids: z.array(z.number().int()).min(1),
+});
+export const watchlistSymbolSchema = z.object({
+  symbol: z.string().trim().toUpperCase().min(1),
+});
+export const watchlistItemOrderSchema = z.object({
+  symbols: z.array(z.string().trim().toUpperCase().min(1)).min(1),
+});
+
+export const insertPriceBarSchema = createInsertSchema(priceBars, {
+  interval: z.enum(barIntervals),
+}).omit({
+  id: true,
+});
+
+export const priceBarQuerySchema = z.object({
+  interval: z.enum(barIntervals).default("1d"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const insertSecuritySchema = createInsertSchema(securities, {
+  symbol: (schema) => schema.trim().toUpperCase().min(1),
+  name: (schema) => schema.trim().min(1),
+  currency: (schema) => schema.trim().toUpperCase().length(3),
+  assetType: z.enum(assetTypes),
+}).omit({
+  id: true,
+});
+
+export const securitySearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Query is required").max(64),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export const insertPositionSchema = createInsertSchema(positions).omit({
+  id: true,
+});
+
+export const allocationQuerySchema = z.object({
+  by: z.enum(allocationGroupings).default("sector"),
+});
+
+export const realizedGainsQuerySchema = z.object({
+  year: z.coerce.number().int().min(1900).max(9999).optional(),
+});
+
+const percentWeightSchema = z.number().min(0).max(100);
+
+// Body of PUT /api/me/portfolios/:portfolioId/target-model
+export const targetModelSchema = z.object({
+  groupBy: z.enum(allocationGroupings),
+  targets: z
+    .array(z.object({
+      key: z.string().trim().min(1, "Pick a group"),
+      weight: percentWeightSchema,
+      symbol: z.string().trim().toUpperCase().min(1).optional(),
+    }))
+    .min(1)
+    .max(20)
+    .refine(
+      (targets) => new Set(targets.map((target) => target.key)).size === targets.length,
+      "Each group may appear once",
+    ),
+  cashWeight: percentWeightSchema.default(0),
+  driftBand: z.number().min(0).max(50).default(5),
+}).refine(
+  (model) => Math.abs(model.targets.reduce((total, target) => total + target.weight, model.cashWeight) - 100) < 1e-6,
+  "Target and cash weights must add up to 100",
+);
+
+export const rebalanceQuerySchema = z.object({
+  fractional: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+});
+
+export const historyRanges = ["1D", "7D", "1M", "3M", "1Y", "ALL"] as const;
+
+export const historyQuerySchema = z.object({
+  range: z.enum(historyRanges).default("1M"),
+});
+
+// Risk and return metrics need daily returns, so there is no 1D range
+export const metricsRanges = ["1M", "3M", "1Y", "ALL"] as const;
+
+export const metricsQuerySchema = z.object({
+  range: z.enum(metricsRanges).default("1Y"),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type SafeUser = Omit<User, "password">;
+export type LoginCredentials = z.infer<typeof loginSchema>;
+export type CostBasisMethod = (typeof costBasisMethods)[number];
+export type AccountType = (typeof accountTypes)[number];
+export type NewAccount = z.infer<typeof newAccountSchema>;
+export type PortfolioSettings = z.infer<typeof portfolioSettingsSchema>;
 export type InsertPortfolio = z.infer<typeof insertPortfolioSchema>;
 export type Portfolio = typeof portfolios.$inferSelect;
 export type InsertStock = z.infer<typeof insertStockSchema>;
 export type Stock = typeof stocks.$inferSelect;
+export type TransactionType = (typeof transactionTypes)[number];
+export type CashTransactionType = (typeof cashTransactionTypes)[number];
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type TradeRequest = z.infer<typeof tradeRequestSchema>;
 export type Transaction = typeof transactions.$inferSelect;
+export type OrderSide = (typeof orderSides)[number];
+export type OrderType = (typeof orderTypes)[number];
+export type TimeInForce = (typeof timesInForce)[number];
+export type OrderStatus = (typeof orderStatuses)[number];
+export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type OrderRequest = z.infer<typeof orderRequestSchema>;
+export type StopLoss = z.infer<typeof stopLossSchema>;
+export type BracketOrderRequest = z.infer<typeof bracketOrderSchema>;
+export type OcoOrderRequest = z.infer<typeof ocoOrderSchema>;
+export type OrderReplace = z.infer<typeof orderReplaceSchema>;
+export type OrderQuery = z.infer<typeof orderQuerySchema>;
+export type Order = typeof orders.$inferSelect;
+export type TransactionSortField = (typeof transactionSortFields)[number];
+export type TransactionFilter = Omit<z.infer<typeof transactionQuerySchema>, "cursor">;
+export type TransactionPage = { transactions: Transaction[]; nextCursor: string | null };
+export type InsertWatchlist = z.infer<typeof insertWatchlistSchema>;
+export type Watchlist = typeof watchlists.$inferSelect;
+export type WatchlistItem = typeof watchlistItems.$inferSelect;
+export type WatchlistWithItems = Watchlist & { items: WatchlistItem[] };
+export type BarInterval = (typeof barIntervals)[number];
+export type InsertPriceBar = z.infer<typeof insertPriceBarSchema>;
+export type PriceBar = typeof priceBars.$inferSelect;
+export type AssetType = (typeof assetTypes)[number];
+export type InsertSecurity = z.infer<typeof insertSecuritySchema>;
+export type Security = typeof securities.$inferSelect;
+export type InsertPosition = z.infer<typeof insertPositionSchema>;
+export type Position = typeof positions.$inferSelect;
+export type TargetModelInput = z.infer<typeof targetModelSchema>;
+export type TargetModel = typeof targetModels.$inferSelect;
+
+// The accounts a read covers: one portfolio, or every account the user owns
+// (the household view) when portfolioId is left out.
+export type PortfolioScope = { userId: number; portfolioId?: number };
+
+// A position marked to the latest stock price, as served by /api/positions.
+export type Holding = Position & {
+  price: string;
+  marketValue: string;
+  unrealizedPnL: string;
+  unrealizedPnLPercent: string;
+};
+
+// Portfolio figures computed from holdings and the ledger by the valuation
+// engine, as served by /api/portfolio. The household view combines every
+// account and has no id, account type or cost-basis method of its own.
+export type PortfolioSummary = Omit<Portfolio, "id" | "accountType" | "costBasisMethod"> & {
+  id: number | null;
+  accountType: string | null;
+  costBasisMethod: string | null;
+  accounts: number;
+  marketValue: string;
+  costBasis: string;
+  unrealizedPnL: string;
+  realizedPnL: string;
+  dailyPnLPercent: string;
+  closedTrades: number;
+  winningTrades: number;
+  valuedAt: string;
+};
+
+export type HistoryRange = (typeof historyRanges)[number];
+
+// Account value (holdings plus cash) over a range, as served by
+// /api/portfolio/history. Points are 5-minute buckets for 1D and daily closes
+// otherwise; the last point is valued at current prices. Net flows are
+// deposits and transfers in less withdrawals and transfers out, so change is
+// the gain after money moved in or out.
+export type PortfolioHistory = {
+  range: HistoryRange;
+  granularity: "5m" | "1d";
+  points: { timestamp: string; value: string }[];
+  startValue: string;
+  endValue: string;
+  netFlows: string;
+  change: string;
+  changePercent: string;
+};
+
+// Quote statistics derived from stored daily bars, as served by
+// /api/stocks/:symbol/stats. The day range is the latest session's; average
+// volume covers up to 30 sessions before it. Figures are null without bars.
+export type StockStats = {
+  symbol: string;
+  sessionDate: string | null;
+  open: string | null;
+  previousClose: string | null;
+  dayLow: string | null;
+  dayHigh: string | null;
+  fiftyTwoWeekLow: string | null;
+  fiftyTwoWeekHigh: string | null;
+  averageVolume: number | null;
+  averageVolumeSessions: number;
+};
+
+export type MetricsRange = (typeof metricsRanges)[number];
+
+// The deepest fall of the time-weighted return index from a running peak.
+// Duration runs from the peak to the recovery, or to the end of the range
+// while the portfolio is still under water.
+export type Drawdown = {
+  percent: string;
+  peakAt: string;
+  troughAt: string;
+  recoveredAt: string | null;
+  durationDays: number;
+};
+
+// Risk and return statistics over a range of daily values, as served by
+// /api/portfolio/metrics. Returns and volatility are percentages; money-
+// weighted return (IRR), annualized return and volatility are per year.
+// Figures are null when the range has too few funded days to compute them;
+// maxDrawdown is also null when the value never fell from a peak.
+export type PortfolioMetrics = {
+  range: MetricsRange;
+  from: string;
+  to: string;
+  periods: number;
+  riskFreeRate: string;
+  timeWeightedReturn: string | null;
+  annualizedReturn: string | null;
+  moneyWeightedReturn: string | null;
+  volatility: string | null;
+  sharpeRatio: string | null;
+  sortinoRatio: string | null;
+  calmarRatio: string | null;
+  maxDrawdown: Drawdown | null;
+};
+
+// A portfolio measured against its benchmark over a range, as served by
+// /api/portfolio/benchmark. Both series are rebased to 100 where the
+// portfolio's first return starts: the portfolio by time-weighted return and
+// the benchmark as a blend rebalanced to its weights every period. Returns,
+// alpha and tracking error are percentages; alpha, beta, tracking error and
+// information ratio need daily returns, so they are null for 1D.
+export type BenchmarkComparison = {
+  range: HistoryRange;
+  benchmark: BenchmarkComponent[];
+  label: string;
+  points: { timestamp: string; portfolio: string; benchmark: string }[];
+  portfolioReturn: string | null;
+  benchmarkReturn: string | null;
+  relativeReturn: string | null;
+  alpha: string | null;
+  beta: string | null;
+  trackingError: string | null;
+  informationRatio: string | null;
+};
+
+export type AllocationGrouping = (typeof allocationGroupings)[number];
+
+// An open holding's share of the portfolio and of its allocation group
+export type AllocationHolding = {
+  symbol: string;
+  name: string;
+  marketValue: string;
+  weight: string;
+  groupWeight: string;
+};
+
+export type AllocationSlice = {
+  key: string;
+  label: string;
+  marketValue: string;
+  weight: string;
+  holdings: AllocationHolding[];
+};
+
+// Market value grouped by sector, asset type or single security, as served by
+// /api/portfolio/allocation. Weights are percentages of totalValue.
+export type PortfolioAllocation = {
+  by: AllocationGrouping;
+  totalValue: string;
+  slices: AllocationSlice[];
+};
+
+export type HoldingTerm = "short" | "long";
+
+// A buy's shares still held, marked to the latest price. Held more than a
+// year counts as long-term.
+export type TaxLot = {
+  lotId: number;
+  symbol: string;
+  openedAt: string;
+  shares: string;
+  remaining: string;
+  costPerShare: string;
+  costBasis: string;
+  marketValue: string;
+  unrealizedGain: string;
+  term: HoldingTerm;
+};
+
+// Method is null when the lots span accounts with different methods
+export type PositionLots = {
+  symbol: string;
+  method: CostBasisMethod | null;
+  lots: TaxLot[];
+};
+
+// Shares of one lot closed by one sell
+export type RealizedLot = {
+  sellTransactionId: number;
+  lotId: number;
+  symbol: string;
+  shares: string;
+  openedAt: string;
+  closedAt: string;
+  proceeds: string;
+  costBasis: string;
+  gain: string;
+  term: HoldingTerm;
+};
+
+export type GainTotals = { proceeds: string; costBasis: string; gain: string };
+
+// Realized gains report, as served by /api/realized-gains
+export type RealizedGainsReport = {
+  method: CostBasisMethod | null;
+  year: number | null;
+  shortTerm: GainTotals;
+  longTerm: GainTotals;
+  total: GainTotals;
+  lots: RealizedLot[];
+};
+
+// A group a target model can name, with the quoted symbols in it that a
+// rebalance could buy, as served by /api/rebalance/groups
+export type TargetGroupOption = { key: string; label: string; symbols: string[] };
+
+// A group of the target model next to the account now and after the
+// proposed trades. Weights and drift are percentages of the account.
+export type RebalanceGroup = {
+  key: string;
+  label: string;
+  targetWeight: string;
+  currentWeight: string;
+  drift: string;
+  outOfBand: boolean;
+  currentValue: string;
+  projectedWeight: string;
+};
+
+// A trade the solver proposes, ready to submit to POST /api/transactions.
+// Sells name the lots they close and the gain that would be realized.
+export type RebalanceTrade = {
+  type: "buy" | "sell";
+  symbol: string;
+  group: string;
+  shares: string;
+  price: string;
+  amount: string;
+  lots: LotSelection[] | null;
+  shortTermGain: string | null;
+  longTermGain: string | null;
+};
+
+// Trades that bring the groups outside their drift band back to target, as
+// served by /api/me/portfolios/:portfolioId/rebalance. Sells come first and
+// fund the buys; warnings explain anything the solver could not fill.
+export type RebalancePreview = {
+  portfolioId: number;
+  groupBy: AllocationGrouping;
+  driftBand: string;
+  fractional: boolean;
+  totalValue: string;
+  cash: { targetWeight: string; currentWeight: string; before: string; after: string };
+  groups: RebalanceGroup[];
+  trades: RebalanceTrade[];
+  totals: { sells: string; buys: string; shortTermGain: string; longTermGain: string };
+  warnings: string[];
+};
+
+// Response of POST /api/transactions: the stored row plus its effect on the
+// symbol's holding (null once fully sold) and the portfolio figures.
+export type TradeResult = {
+  transaction: Transaction;
+  position: Holding | null;
+  portfolio: PortfolioSummary | null;
+};
+
+// Messages on the /ws quote stream. Clients subscribe to symbols and receive
+// the updated stock rows whenever the market data feed ticks.
+export const quoteStreamClientMessageSchema = z.object({
+  type: z.enum(["subscribe", "unsubscribe"]),
+  symbols: z.array(z.string().trim().toUpperCase().min(1)).max(500),
+});
+
+export type QuoteStreamClientMessage = z.infer<typeof quoteStreamClientMessageSchema>;
+export type QuoteStreamServerMessage =
+  | { type: "quotes"; stocks: Stock[] }
+  | { type: "error"; message: string };